@@ -0,0 +1,426 @@
+/**
+ * Zip and tar.gz archives of bucket objects.
+ *
+ * Archives are streamed in both directions: objects are read one at a time
+ * into an archive that is uploaded as it is written, and archive entries are
+ * uploaded as they are decompressed. Entry counts and sizes are checked
+ * against the limits before anything is written.
+ */
+
+import { Bucket, File, FileMetadata, PreconditionOptions } from "@google-cloud/storage";
+import { Readable, addAbortSignal } from "stream";
+import { pipeline } from "stream/promises";
+import zlib from "zlib";
+import yazl from "yazl";
+import yauzl from "yauzl";
+import tar from "tar-stream";
+import { contentTypeFor } from "./content.js";
+import { ToolError } from "./errors.js";
+import { iterateFiles } from "./listing.js";
+import { checkCancelled, ReportProgress } from "./progress.js";
+import { TrashHook } from "./trash.js";
+
+export type ArchiveFormat = "zip" | "tar.gz";
+
+export interface ArchiveLimits {
+    maxEntries: number;
+    maxTotalBytes: number;
+}
+
+export interface SkippedEntry {
+    entry: string;
+    reason: string;
+}
+
+// Entries at most this size are written with a single-request upload
+const SIMPLE_UPLOAD_MAX_BYTES = 5 * 1024 * 1024;
+
+// Content types that are already compressed and are stored in zips as is
+const COMPRESSED_CONTENT_TYPES = /^(image\/(png|jpeg|gif|webp)|video\/|audio\/|application\/(zip|gzip|x-gzip|x-bzip2|x-xz|zstd))/;
+
+// Unix file type bits, stored in the high half of a zip entry's external attributes
+const UNIX_TYPE_MASK = 0o170000;
+const UNIX_SYMLINK = 0o120000;
+
+// Pick the archive format from an object name, falling back to its content type
+export function detectArchiveFormat(name: string, contentType: string | undefined): ArchiveFormat | undefined {
+    const lower = name.toLowerCase();
+    const type = (contentType || "").toLowerCase();
+    if (lower.endsWith(".zip") || type === "application/zip" || type === "application/x-zip-compressed") return "zip";
+    if (lower.endsWith(".tar.gz") || lower.endsWith(".tgz") || type === "application/gzip" || type === "application/x-gzip") return "tar.gz";
+    return undefined;
+}
+
+// Turn an archive entry path into a relative object name. Absolute paths,
+// drive letters, control characters and ".." segments are rejected.
+export function safeEntryName(name: string): string | undefined {
+    const normalized = name.replace(/\\/g, "/");
+    if (normalized.startsWith("/") || /^[a-zA-Z]:/.test(normalized) || /[\x00-\x1f\x7f]/.test(normalized)) {
+        return undefined;
+    }
+    const segments = normalized.split("/").filter(segment => segment !== "" && segment !== ".");
+    if (segments.length === 0 || segments.includes("..")) return undefined;
+    return segments.join("/");
+}
+
+function limitError(limits: ArchiveLimits, entries: number, bytes: number): ToolError | undefined {
+    if (entries > limits.maxEntries) {
+        return new ToolError("LIMIT_EXCEEDED", `Archive has more than ${limits.maxEntries} entries; raise maxEntries to process it`);
+    }
+    if (bytes > limits.maxTotalBytes) {
+        return new ToolError("LIMIT_EXCEEDED", `Archive contents exceed ${limits.maxTotalBytes} bytes; raise maxTotalBytes to process it`);
+    }
+    return undefined;
+}
+
+type TarEntryWriter = ReturnType<tar.Pack["entry"]>;
+
+// Write to a tar entry stream, waiting for it to drain when its buffer is full
+async function copyInto(source: Readable, target: TarEntryWriter) {
+    for await (const chunk of source) {
+        if (!target.write(chunk)) {
+            await new Promise<void>(resolve => target.once("drain", () => resolve()));
+        }
+    }
+}
+
+// Stream every object under a prefix into a new archive object. Entry names
+// are relative to the folder containing the prefix.
+export async function createArchive(
+    source: Bucket,
+    destination: File,
+    options: {
+        prefix: string,
+        format: ArchiveFormat,
+        limits: ArchiveLimits,
+        contentType?: string,
+        preconditionOpts?: PreconditionOptions,
+        trash?: TrashHook,
+        signal?: AbortSignal,
+        progress?: ReportProgress
+    }
+) {
+    const base = options.prefix.slice(0, options.prefix.lastIndexOf("/") + 1);
+    const entries: { file: File, name: string, size: number, mtime: Date, contentType?: string }[] = [];
+    let totalBytes = 0;
+
+    // List everything first so an archive over the limits is never started
+    for await (const file of iterateFiles(source, { prefix: options.prefix || undefined })) {
+        checkCancelled(options.signal, "listing; nothing was written");
+        // Folder placeholders and the archive itself are left out
+        if (file.name.endsWith("/")) continue;
+        if (source.name === destination.bucket.name && file.name === destination.name) continue;
+
+        const size = Number(file.metadata.size ?? 0);
+        totalBytes += size;
+        entries.push({
+            // Pin the listed generation so the archive matches the listing
+            file: source.file(file.name, { generation: file.metadata.generation }),
+            name: file.name.slice(base.length),
+            size,
+            mtime: new Date(file.metadata.updated ?? Date.now()),
+            contentType: contentTypeFor(file.name, file.metadata)
+        });
+        const exceeded = limitError(options.limits, entries.length, totalBytes);
+        if (exceeded) throw exceeded;
+    }
+    if (entries.length === 0) {
+        throw new ToolError("NOT_FOUND", `No objects found under ${options.prefix || "the bucket root"}`);
+    }
+
+    await options.trash?.(destination.bucket, destination.name);
+    const output = destination.createWriteStream({
+        resumable: true,
+        validation: "crc32c",
+        metadata: {
+            contentType: options.contentType ?? (options.format === "zip" ? "application/zip" : "application/gzip")
+        },
+        preconditionOpts: options.preconditionOpts
+    });
+
+    // Entry reads are destroyed when the call is cancelled, which fails the
+    // archive stream and abandons the upload
+    let started = 0;
+    const openEntry = (entry: typeof entries[number]) => {
+        options.progress?.(++started, entries.length, `Archiving ${entry.name}`);
+        const stream = entry.file.createReadStream({ decompress: false });
+        return options.signal ? addAbortSignal(options.signal, stream) : stream;
+    };
+
+    // Stored bytes are archived as is, so sizes match the listing even for gzip-encoded objects
+    try {
+        if (options.format === "zip") {
+            const zip = new yazl.ZipFile();
+            const zipOutput = zip.outputStream as Readable;
+            // yazl reports failed entries on the zip file and does not watch entry streams itself
+            zip.on("error", error => zipOutput.destroy(error));
+            for (const entry of entries) {
+                zip.addReadStreamLazy(entry.name, {
+                    size: entry.size,
+                    mtime: entry.mtime,
+                    compress: !COMPRESSED_CONTENT_TYPES.test(entry.contentType ?? "")
+                }, callback => {
+                    const stream = openEntry(entry);
+                    stream.on("error", error => zipOutput.destroy(error));
+                    callback(null, stream);
+                });
+            }
+            zip.end();
+            await pipeline(zipOutput, output);
+        } else {
+            const pack = tar.pack();
+            const written = pipeline(pack, zlib.createGzip(), output);
+            try {
+                for (const entry of entries) {
+                    checkCancelled(options.signal);
+                    await new Promise<void>((resolve, reject) => {
+                        const target = pack.entry({ name: entry.name, size: entry.size, mtime: entry.mtime }, error => error ? reject(error) : resolve());
+                        copyInto(openEntry(entry), target)
+                            .then(() => target.end(null), error => target.destroy(error));
+                    });
+                }
+                pack.finalize();
+            } catch (error) {
+                pack.destroy(error as Error);
+            }
+            await written;
+        }
+    } catch (error) {
+        checkCancelled(options.signal, `${started} of ${entries.length} entries were read; the archive was not stored`);
+        throw error;
+    }
+
+    const [metadata] = await destination.getMetadata();
+    return { entries: entries.length, bytes: totalBytes, metadata };
+}
+
+// Upload one extracted entry, refusing to replace an existing object unless overwriting
+async function writeEntry(
+    target: Bucket,
+    name: string,
+    content: Readable,
+    size: number,
+    options: { overwrite: boolean, trash?: TrashHook, signal?: AbortSignal }
+) {
+    const { overwrite, trash } = options;
+    if (overwrite) await trash?.(target, name);
+    const output = target.file(name).createWriteStream({
+        resumable: size > SIMPLE_UPLOAD_MAX_BYTES,
+        validation: "crc32c",
+        metadata: { contentType: contentTypeFor(name, {}) ?? "application/octet-stream" },
+        preconditionOpts: overwrite ? undefined : { ifGenerationMatch: 0 }
+    });
+    await pipeline(content, output, { signal: options.signal });
+}
+
+// Random access reads of a zip object, used to read its central directory and entries
+class ObjectReader extends yauzl.RandomAccessReader {
+    constructor(private file: File) {
+        super();
+    }
+
+    _readStreamForRange(start: number, end: number): Readable {
+        if (end <= start) return Readable.from([]);
+        // yauzl ranges exclude the end; Cloud Storage ranges include it
+        return this.file.createReadStream({ start, end: end - 1, decompress: false });
+    }
+}
+
+function openZip(file: File, size: number): Promise<yauzl.ZipFile> {
+    return new Promise((resolve, reject) => {
+        yauzl.fromRandomAccessReader(new ObjectReader(file), size, { lazyEntries: true, autoClose: false }, (error, zip) => {
+            if (error) reject(error);
+            else resolve(zip);
+        });
+    });
+}
+
+// Read every entry in a zip's central directory
+function readZipEntries(zip: yauzl.ZipFile): Promise<yauzl.Entry[]> {
+    return new Promise((resolve, reject) => {
+        const entries: yauzl.Entry[] = [];
+        zip.on("entry", (entry: yauzl.Entry) => {
+            entries.push(entry);
+            zip.readEntry();
+        });
+        zip.once("end", () => resolve(entries));
+        zip.once("error", reject);
+        zip.readEntry();
+    });
+}
+
+function openZipEntry(zip: yauzl.ZipFile, entry: yauzl.Entry): Promise<Readable> {
+    return new Promise((resolve, reject) => {
+        zip.openReadStream(entry, (error, stream) => {
+            if (error) reject(error);
+            else resolve(stream);
+        });
+    });
+}
+
+export interface ExtractOptions {
+    format: ArchiveFormat;
+    targetPrefix: string;
+    limits: ArchiveLimits;
+    overwrite: boolean;
+    trash?: TrashHook;
+    // Once aborted, the upload in flight is stopped and no further entries are read
+    signal?: AbortSignal;
+    progress?: ReportProgress;
+}
+
+export interface ExtractResult {
+    extracted: { name: string, size: number }[];
+    skipped: SkippedEntry[];
+    failed: { name: string, error: string }[];
+    bytes: number;
+    // Entries that pass the checks, for progress reporting
+    planned: number;
+    cancelled: boolean;
+}
+
+async function extractZip(archive: File, size: number, target: Bucket, options: ExtractOptions, result: ExtractResult) {
+    const zip = await openZip(archive, size);
+    try {
+        // The central directory lists every entry and its size, so limits are checked before any reads
+        const planned: { entry: yauzl.Entry, name: string }[] = [];
+        let totalBytes = 0;
+        for (const entry of await readZipEntries(zip)) {
+            if (entry.fileName.endsWith("/")) continue;
+            const name = safeEntryName(entry.fileName);
+            if (!name) {
+                result.skipped.push({ entry: entry.fileName, reason: "unsafe path" });
+            } else if (((entry.externalFileAttributes >>> 16) & UNIX_TYPE_MASK) === UNIX_SYMLINK) {
+                result.skipped.push({ entry: entry.fileName, reason: "symbolic link" });
+            } else if (entry.isEncrypted()) {
+                result.skipped.push({ entry: entry.fileName, reason: "encrypted" });
+            } else if (!entry.canDecodeFileData()) {
+                result.skipped.push({ entry: entry.fileName, reason: `unsupported compression method ${entry.compressionMethod}` });
+            } else {
+                planned.push({ entry, name });
+                totalBytes += entry.uncompressedSize;
+            }
+        }
+        const exceeded = limitError(options.limits, planned.length, totalBytes);
+        if (exceeded) throw exceeded;
+        result.planned = planned.length;
+
+        // yauzl checks each entry's actual size against the central directory while reading
+        for (const { entry, name } of planned) {
+            if (options.signal?.aborted) break;
+            await extractEntry(target, options, result, name, entry.uncompressedSize, await openZipEntry(zip, entry));
+        }
+    } finally {
+        zip.close();
+    }
+}
+
+// Walk a tar.gz object's entries, handing each to a callback that must consume
+// or drain it. The walk stops early once the signal is aborted.
+async function walkTar(archive: File, onEntry: (header: tar.Header, entry: TarEntry) => Promise<void>, signal?: AbortSignal) {
+    const extract = tar.extract();
+    const reading = pipeline(archive.createReadStream({ decompress: false }), zlib.createGunzip(), extract);
+    try {
+        for await (const entry of extract) {
+            if (signal?.aborted) break;
+            await onEntry(entry.header, entry);
+        }
+    } finally {
+        extract.destroy();
+        await reading.catch(() => {});
+    }
+}
+
+type TarEntry = AsyncIterable<unknown> & { resume(): unknown };
+
+// Expose a tar entry as a Node stream. Destroying a tar entry destroys the
+// whole archive stream, so a failed upload only stops reading from this
+// wrapper and `drain` then skips whatever the upload did not read.
+function tarEntryContent(entry: TarEntry) {
+    const iterator = entry[Symbol.asyncIterator]();
+    let pending: Promise<void> = Promise.resolve();
+    const content = new Readable({
+        read() {
+            pending = iterator.next().then(
+                ({ value, done }) => { this.push(done ? null : value); },
+                error => { this.destroy(error); }
+            );
+        }
+    });
+    const drain = async () => {
+        await pending;
+        while (!(await iterator.next()).done) {
+            // Skip the rest of the entry
+        }
+    };
+    return { content, drain };
+}
+
+// Why a tar entry is not extracted, if it is not
+function tarSkipReason(header: tar.Header): string | undefined {
+    if (header.type !== "file" && header.type !== "contiguous-file") return `${header.type} entry`;
+    if (!safeEntryName(header.name)) return "unsafe path";
+    return undefined;
+}
+
+async function extractTar(archive: File, target: Bucket, options: ExtractOptions, result: ExtractResult) {
+    // A tar has no index, so the first pass reads headers only to check the limits
+    let entries = 0;
+    let totalBytes = 0;
+    await walkTar(archive, async (header, entry) => {
+        entry.resume();
+        if (header.type === "directory" || tarSkipReason(header)) return;
+        entries++;
+        totalBytes += header.size;
+        const exceeded = limitError(options.limits, entries, totalBytes);
+        if (exceeded) throw exceeded;
+    }, options.signal);
+    result.planned = entries;
+
+    await walkTar(archive, async (header, entry) => {
+        const reason = tarSkipReason(header);
+        if (reason) {
+            entry.resume();
+            if (header.type !== "directory") result.skipped.push({ entry: header.name, reason });
+            return;
+        }
+        const { content, drain } = tarEntryContent(entry);
+        await extractEntry(target, options, result, safeEntryName(header.name)!, header.size, content);
+        if (options.signal?.aborted) return;
+        await drain();
+    }, options.signal);
+}
+
+// Upload one entry under the target prefix, recording the outcome
+async function extractEntry(target: Bucket, options: ExtractOptions, result: ExtractResult, name: string, size: number, content: Readable) {
+    const objectName = options.targetPrefix + name;
+    try {
+        await writeEntry(target, objectName, content, size, options);
+        result.extracted.push({ name: objectName, size });
+        result.bytes += size;
+        options.progress?.(result.extracted.length, result.planned, `Extracted ${objectName}`);
+    } catch (error) {
+        if (options.signal?.aborted) {
+            result.skipped.push({ entry: name, reason: "cancelled" });
+        } else if ((error as { code?: number }).code === 412) {
+            result.skipped.push({ entry: name, reason: `${objectName} already exists` });
+        } else {
+            result.failed.push({ name: objectName, error: (error as Error).message });
+        }
+    }
+}
+
+// Stream a zip or tar.gz object and write its entries under a prefix
+export async function extractArchive(archive: File, metadata: FileMetadata, target: Bucket, options: ExtractOptions): Promise<ExtractResult> {
+    const result: ExtractResult = { extracted: [], skipped: [], failed: [], bytes: 0, planned: 0, cancelled: false };
+    if (options.format === "zip") {
+        if (metadata.contentEncoding === "gzip") {
+            throw new ToolError("INVALID_ARGUMENT", "Zip archives stored with gzip content encoding cannot be read by range");
+        }
+        await extractZip(archive, Number(metadata.size ?? 0), target, options, result);
+    } else {
+        await extractTar(archive, target, options, result);
+    }
+    result.cancelled = Boolean(options.signal?.aborted);
+    return result;
+}
@@ -0,0 +1,111 @@
+/**
+ * Append-only audit log of tool calls that change data.
+ *
+ * Each call is written as one JSON line with the tool, its arguments, the
+ * project and bucket it touched, the outcome, the resulting object generation
+ * when the tool reports one, and any objects copied to the trash.
+ */
+
+import fs from "fs";
+import path from "path";
+
+// Longest string argument recorded in full; longer ones, such as upload content, are summarized
+const MAX_LOGGED_STRING_LENGTH = 1024;
+
+export interface AuditEntry {
+    timestamp: string;
+    tool: string;
+    // Name of the HTTP client's token; calls over stdio have none
+    client?: string;
+    project?: string;
+    bucket?: string;
+    arguments: unknown;
+    outcome: "success" | "error";
+    error?: string;
+    errorCode?: string;
+    generation?: string | number;
+    trashed?: unknown[];
+    durationMs: number;
+}
+
+// Replace long strings so uploaded content is not copied into the log
+function summarizeArguments(value: unknown): unknown {
+    if (typeof value === "string") {
+        return value.length > MAX_LOGGED_STRING_LENGTH ? `[${value.length} characters omitted]` : value;
+    }
+    if (Array.isArray(value)) return value.map(summarizeArguments);
+    if (value !== null && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, summarizeArguments(item)]));
+    }
+    return value;
+}
+
+// Result of a tool call as far as the audit log is concerned
+interface RecordedResult {
+    content?: { type: string, text?: string }[];
+    isError?: boolean;
+    structuredContent?: Record<string, unknown>;
+}
+
+// Pull the outcome, generation and trashed objects out of a tool's result,
+// preferring its structured content over the JSON text
+function summarizeResult(result: RecordedResult) {
+    let parsed: Record<string, unknown> = result.structuredContent ?? {};
+    if (!result.structuredContent) {
+        const text = result.content?.find(item => item.type === "text")?.text;
+        try {
+            const value = text ? JSON.parse(text) : {};
+            if (value !== null && typeof value === "object" && !Array.isArray(value)) parsed = value;
+        } catch {
+            // Results that are not JSON carry no details to record
+        }
+    }
+
+    const metadata = parsed.metadata as { generation?: string | number } | undefined;
+    const error = typeof parsed.error === "string" ?
+        [parsed.error, parsed.message ?? parsed.details].filter(part => typeof part === "string").join(": ") :
+        undefined;
+    return {
+        outcome: result.isError || error || parsed.success === false ? "error" as const : "success" as const,
+        error,
+        errorCode: typeof parsed.code === "string" ? parsed.code : undefined,
+        generation: (parsed.generation ?? metadata?.generation) as string | number | undefined,
+        trashed: Array.isArray(parsed.trashed) && parsed.trashed.length > 0 ? parsed.trashed : undefined
+    };
+}
+
+export interface AuditLog {
+    record(
+        call: { tool: string, client?: string, project?: string, bucket?: string, arguments: unknown, startedAt: number },
+        result: RecordedResult
+    ): Promise<void>;
+}
+
+// Open an audit log file for appending, creating its directory if needed
+export function openAuditLog(logPath: string): AuditLog {
+    const resolved = path.resolve(logPath);
+    fs.mkdirSync(path.dirname(resolved), { recursive: true });
+
+    // Writes are chained so concurrent calls never interleave within a line
+    let pending: Promise<void> = Promise.resolve();
+
+    return {
+        record(call, result) {
+            const entry: AuditEntry = {
+                timestamp: new Date(call.startedAt).toISOString(),
+                tool: call.tool,
+                client: call.client,
+                project: call.project,
+                bucket: call.bucket,
+                arguments: summarizeArguments(call.arguments),
+                ...summarizeResult(result),
+                durationMs: Date.now() - call.startedAt
+            };
+            const line = `${JSON.stringify(entry)}\n`;
+            pending = pending
+                .then(() => fs.promises.appendFile(resolved, line, { mode: 0o600 }))
+                .catch(error => console.error(`Error writing audit log ${resolved}:`, error));
+            return pending;
+        }
+    };
+}
@@ -0,0 +1,510 @@
+/**
+ * Storage backends that stand in for Cloud Storage.
+ *
+ * A backend only stores buckets and object generations. The object store
+ * built on top of it applies the Cloud Storage rules for generation numbers,
+ * preconditions, checksums, versioning and prefix/delimiter listings, and
+ * the emulator in emulator.ts serves it over the JSON API, so every tool runs
+ * unchanged against a local directory or memory.
+ */
+
+import { CRC32C } from "@google-cloud/storage";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { ToolError } from "./errors.js";
+import { globToRegExp } from "./glob.js";
+
+export const BackendConfigSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("memory")
+    }).strict(),
+    z.object({
+        type: z.literal("local"),
+        // Directory whose subdirectories are served as buckets
+        root: z.string().min(1)
+    }).strict()
+]);
+
+export type BackendConfig = z.infer<typeof BackendConfigSchema>;
+
+// Object resource fields kept for every stored generation, named as in the JSON API
+export interface ObjectRecord {
+    bucket: string;
+    name: string;
+    generation: string;
+    metageneration: string;
+    size: string;
+    contentType?: string;
+    contentEncoding?: string;
+    contentDisposition?: string;
+    contentLanguage?: string;
+    cacheControl?: string;
+    customTime?: string;
+    storageClass: string;
+    // Composite objects carry a CRC32C but no MD5, as in Cloud Storage
+    md5Hash?: string;
+    crc32c: string;
+    componentCount?: number;
+    metadata?: Record<string, string>;
+    temporaryHold?: boolean;
+    eventBasedHold?: boolean;
+    timeCreated: string;
+    updated: string;
+    // Set on noncurrent generations kept by a versioned bucket
+    timeDeleted?: string;
+}
+
+export type BucketResource = { name: string } & Record<string, unknown>;
+
+export interface BucketRecord {
+    // Bucket resource fields named as in the JSON API, such as versioning, labels and lifecycle
+    metadata: BucketResource;
+    // Bindings of the bucket's IAM policy
+    bindings: unknown[];
+}
+
+export interface StorageBackend {
+    listBuckets(): Promise<BucketRecord[]>;
+    getBucket(name: string): Promise<BucketRecord | undefined>;
+    // Create a bucket or replace its record
+    putBucket(bucket: BucketRecord): Promise<void>;
+    deleteBucket(name: string): Promise<void>;
+    // Every stored generation, live and noncurrent, of the objects whose names start with the prefix
+    listObjects(bucket: string, prefix: string): Promise<ObjectRecord[]>;
+    // A stored generation, or the live one when no generation is given
+    getObject(bucket: string, name: string, generation?: string): Promise<ObjectRecord | undefined>;
+    readContent(object: ObjectRecord): Promise<Buffer>;
+    // Store a new live generation; any previous live generation has already been removed or made noncurrent
+    putObject(object: ObjectRecord, content: Buffer): Promise<void>;
+    // Replace the metadata of a stored generation, including turning the live generation noncurrent
+    updateObject(object: ObjectRecord): Promise<void>;
+    deleteObject(object: ObjectRecord): Promise<void>;
+}
+
+// Conditions on the generation and metageneration of the live object
+export interface Preconditions {
+    ifGenerationMatch?: string;
+    ifGenerationNotMatch?: string;
+    ifMetagenerationMatch?: string;
+    ifMetagenerationNotMatch?: string;
+}
+
+// Content headers and custom metadata that can be set on an object
+export type ObjectFields = Partial<Pick<ObjectRecord,
+    | "contentType"
+    | "contentEncoding"
+    | "contentDisposition"
+    | "contentLanguage"
+    | "cacheControl"
+    | "customTime"
+    | "storageClass"
+    | "temporaryHold"
+    | "eventBasedHold"
+>> & { metadata?: Record<string, string | null> };
+
+const OBJECT_FIELDS = [
+    "contentType",
+    "contentEncoding",
+    "contentDisposition",
+    "contentLanguage",
+    "cacheControl",
+    "customTime",
+    "storageClass",
+    "temporaryHold",
+    "eventBasedHold"
+] as const;
+
+export interface ListQuery {
+    prefix?: string;
+    delimiter?: string;
+    maxResults?: number;
+    pageToken?: string;
+    versions?: boolean;
+    matchGlob?: string;
+    startOffset?: string;
+    endOffset?: string;
+    includeTrailingDelimiter?: boolean;
+}
+
+export interface ListResult {
+    items: ObjectRecord[];
+    prefixes: string[];
+    nextPageToken?: string;
+}
+
+// Default and largest page sizes of object and bucket listings, as in Cloud Storage
+const DEFAULT_LIST_PAGE_SIZE = 1000;
+
+// Cloud Storage composes at most 32 source objects per request
+const MAX_COMPOSE_SOURCES = 32;
+
+const BUCKET_NAME_PATTERN = /^[a-z0-9][a-z0-9._-]{1,220}[a-z0-9]$/;
+
+// Generations are microsecond timestamps, kept strictly increasing
+let lastGeneration = 0n;
+
+export function nextGeneration(): string {
+    const now = BigInt(Date.now()) * 1000n;
+    lastGeneration = now > lastGeneration ? now : lastGeneration + 1n;
+    return String(lastGeneration);
+}
+
+// Base64 MD5 and CRC32C of object content, as Cloud Storage reports them
+export function checksums(content: Buffer): { md5Hash: string, crc32c: string } {
+    const crc32c = new CRC32C();
+    crc32c.update(content);
+    return { md5Hash: createHash("md5").update(content).digest("base64"), crc32c: crc32c.toString() };
+}
+
+export function notFound(message: string): ToolError {
+    return new ToolError("NOT_FOUND", message, 404);
+}
+
+function preconditionFailed(): ToolError {
+    return new ToolError("PRECONDITION_FAILED", "At least one of the pre-conditions you specified did not hold.", 412);
+}
+
+function invalid(message: string): ToolError {
+    return new ToolError("INVALID_ARGUMENT", message, 400);
+}
+
+function compareGenerations(a: string, b: string): number {
+    const difference = BigInt(a) - BigInt(b);
+    return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+}
+
+// Throw unless the live object (if any) satisfies the preconditions. A generation
+// of 0 stands for "no live object".
+function checkPreconditions(object: ObjectRecord | undefined, conditions: Preconditions) {
+    const generation = object?.generation ?? "0";
+    if (conditions.ifGenerationMatch !== undefined && compareGenerations(generation, conditions.ifGenerationMatch) !== 0) {
+        throw preconditionFailed();
+    }
+    if (conditions.ifGenerationNotMatch !== undefined && compareGenerations(generation, conditions.ifGenerationNotMatch) === 0) {
+        throw preconditionFailed();
+    }
+    if (conditions.ifMetagenerationMatch !== undefined && object?.metageneration !== String(conditions.ifMetagenerationMatch)) {
+        throw preconditionFailed();
+    }
+    if (conditions.ifMetagenerationNotMatch !== undefined && object?.metageneration === String(conditions.ifMetagenerationNotMatch)) {
+        throw preconditionFailed();
+    }
+}
+
+// Apply content headers and merge custom metadata; a null metadata value removes the key
+function applyFields(object: ObjectRecord, fields: ObjectFields): ObjectRecord {
+    const updated: ObjectRecord = { ...object };
+    for (const field of OBJECT_FIELDS) {
+        if (fields[field] !== undefined) (updated as unknown as Record<string, unknown>)[field] = fields[field];
+    }
+    if (fields.metadata) {
+        const metadata = { ...object.metadata };
+        for (const [key, value] of Object.entries(fields.metadata)) {
+            if (value === null) {
+                delete metadata[key];
+            } else {
+                metadata[key] = String(value);
+            }
+        }
+        updated.metadata = Object.keys(metadata).length > 0 ? metadata : undefined;
+    }
+    return updated;
+}
+
+// Position after the last entry of a listing page
+interface PageToken {
+    name: string;
+    generation?: string;
+    // The last entry was a prefix, so every name under it has been covered
+    prefix?: boolean;
+}
+
+function encodePageToken(token: PageToken): string {
+    return Buffer.from(JSON.stringify(token)).toString("base64url");
+}
+
+function decodePageToken(token: string | undefined): PageToken | undefined {
+    if (!token) return undefined;
+    try {
+        return JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    } catch {
+        throw invalid("Invalid page token");
+    }
+}
+
+function afterToken(token: PageToken | undefined, object: ObjectRecord): boolean {
+    if (!token) return true;
+    if (token.prefix && object.name.startsWith(token.name)) return false;
+    if (object.name !== token.name) return object.name > token.name;
+    return token.generation !== undefined && compareGenerations(object.generation, token.generation) > 0;
+}
+
+export type ObjectStore = ReturnType<typeof createObjectStore>;
+
+// Cloud Storage semantics on top of a backend
+export function createObjectStore(backend: StorageBackend) {
+    const requireBucket = async (name: string): Promise<BucketRecord> => {
+        const bucket = await backend.getBucket(name);
+        if (!bucket) throw notFound("The specified bucket does not exist.");
+        return bucket;
+    };
+
+    const isVersioned = (bucket: BucketRecord) =>
+        (bucket.metadata.versioning as { enabled?: boolean } | undefined)?.enabled === true;
+
+    // Remove the live generation, keeping it as noncurrent in a versioned bucket
+    const retireLive = async (bucket: BucketRecord, live: ObjectRecord) => {
+        if (isVersioned(bucket)) {
+            await backend.updateObject({ ...live, timeDeleted: new Date().toISOString() });
+        } else {
+            await backend.deleteObject(live);
+        }
+    };
+
+    const getObject = async (bucketName: string, name: string, generation?: string, conditions: Preconditions = {}) => {
+        await requireBucket(bucketName);
+        const object = await backend.getObject(bucketName, name, generation);
+        if (!object) throw notFound(`No such object: ${bucketName}/${name}`);
+        checkPreconditions(object, conditions);
+        return object;
+    };
+
+    // Write a new live generation with the given content and fields
+    const insertObject = async (
+        bucketName: string,
+        name: string,
+        content: Buffer,
+        fields: ObjectFields,
+        conditions: Preconditions = {},
+        composite?: { componentCount: number }
+    ): Promise<ObjectRecord> => {
+        const bucket = await requireBucket(bucketName);
+        if (!name || Buffer.byteLength(name) > 1024 || name.includes("\r") || name.includes("\n")) {
+            throw invalid(`Invalid object name: ${name}`);
+        }
+
+        const live = await backend.getObject(bucketName, name);
+        checkPreconditions(live, conditions);
+
+        const now = new Date().toISOString();
+        const sums = checksums(content);
+        const object = applyFields({
+            bucket: bucketName,
+            name,
+            generation: nextGeneration(),
+            metageneration: "1",
+            size: String(content.length),
+            storageClass: String(bucket.metadata.storageClass ?? "STANDARD"),
+            crc32c: sums.crc32c,
+            md5Hash: composite ? undefined : sums.md5Hash,
+            componentCount: composite?.componentCount,
+            timeCreated: now,
+            updated: now
+        }, fields);
+
+        if (live) await retireLive(bucket, live);
+        await backend.putObject(object, content);
+        return object;
+    };
+
+    return {
+        async listBuckets(query: { prefix?: string, maxResults?: number, pageToken?: string }) {
+            const buckets = (await backend.listBuckets())
+                .filter(bucket => bucket.metadata.name.startsWith(query.prefix ?? ""))
+                .filter(bucket => !query.pageToken || bucket.metadata.name > query.pageToken)
+                .sort((a, b) => a.metadata.name.localeCompare(b.metadata.name));
+            const page = buckets.slice(0, query.maxResults ?? DEFAULT_LIST_PAGE_SIZE);
+            return {
+                items: page,
+                nextPageToken: page.length < buckets.length ? page[page.length - 1].metadata.name : undefined
+            };
+        },
+
+        getBucket: requireBucket,
+
+        async createBucket(resource: BucketResource): Promise<BucketRecord> {
+            if (!BUCKET_NAME_PATTERN.test(resource.name)) {
+                throw invalid(`Invalid bucket name: ${resource.name}`);
+            }
+            if (await backend.getBucket(resource.name)) {
+                throw new ToolError("CONFLICT", "Your previous request to create the named bucket succeeded and you already own it.", 409);
+            }
+            const now = new Date().toISOString();
+            const bucket: BucketRecord = {
+                metadata: {
+                    location: "US",
+                    locationType: "multi-region",
+                    storageClass: "STANDARD",
+                    iamConfiguration: {
+                        uniformBucketLevelAccess: { enabled: false },
+                        publicAccessPrevention: "inherited"
+                    },
+                    ...resource,
+                    id: resource.name,
+                    timeCreated: now,
+                    updated: now,
+                    metageneration: "1"
+                },
+                bindings: []
+            };
+            await backend.putBucket(bucket);
+            return bucket;
+        },
+
+        // Merge top-level bucket fields; labels are merged key by key and a null label is removed
+        async patchBucket(name: string, patch: Record<string, unknown>, conditions: { ifMetagenerationMatch?: string } = {}) {
+            const bucket = await requireBucket(name);
+            if (conditions.ifMetagenerationMatch !== undefined && bucket.metadata.metageneration !== String(conditions.ifMetagenerationMatch)) {
+                throw preconditionFailed();
+            }
+            const metadata: BucketResource = { ...bucket.metadata };
+            for (const [field, value] of Object.entries(patch)) {
+                if (field === "name" || field === "id") continue;
+                if (field === "labels" && value !== null && typeof value === "object") {
+                    const labels: Record<string, unknown> = { ...(metadata.labels as Record<string, unknown> | undefined) };
+                    for (const [key, label] of Object.entries(value)) {
+                        if (label === null) delete labels[key]; else labels[key] = label;
+                    }
+                    metadata.labels = labels;
+                } else if (value === null) {
+                    delete metadata[field];
+                } else {
+                    metadata[field] = value;
+                }
+            }
+            metadata.metageneration = String(Number(bucket.metadata.metageneration ?? 1) + 1);
+            metadata.updated = new Date().toISOString();
+            const updated = { ...bucket, metadata };
+            await backend.putBucket(updated);
+            return updated;
+        },
+
+        async deleteBucket(name: string) {
+            await requireBucket(name);
+            if ((await backend.listObjects(name, "")).length > 0) {
+                throw new ToolError("CONFLICT", "The bucket you tried to delete is not empty.", 409);
+            }
+            await backend.deleteBucket(name);
+        },
+
+        async setBindings(name: string, bindings: unknown[]) {
+            const bucket = await requireBucket(name);
+            const updated = { ...bucket, bindings };
+            await backend.putBucket(updated);
+            return updated;
+        },
+
+        async listObjects(bucketName: string, query: ListQuery): Promise<ListResult> {
+            await requireBucket(bucketName);
+            const prefix = query.prefix ?? "";
+            const maxResults = query.maxResults ?? DEFAULT_LIST_PAGE_SIZE;
+            const token = decodePageToken(query.pageToken);
+            const glob = query.matchGlob ? globToRegExp(query.matchGlob) : undefined;
+
+            const objects = (await backend.listObjects(bucketName, prefix))
+                .filter(object => query.versions || !object.timeDeleted)
+                .filter(object => query.startOffset === undefined || object.name >= query.startOffset)
+                .filter(object => query.endOffset === undefined || object.name < query.endOffset)
+                .filter(object => !glob || glob.test(object.name))
+                .sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : compareGenerations(a.generation, b.generation));
+
+            const result: ListResult = { items: [], prefixes: [] };
+            let last: PageToken | undefined = token;
+            for (const object of objects) {
+                if (!afterToken(last, object)) continue;
+                if (result.items.length + result.prefixes.length >= maxResults) {
+                    result.nextPageToken = last && encodePageToken(last);
+                    break;
+                }
+
+                const rest = object.name.slice(prefix.length);
+                const index = query.delimiter ? rest.indexOf(query.delimiter) : -1;
+                if (index >= 0) {
+                    const folder = prefix + rest.slice(0, index + query.delimiter!.length);
+                    result.prefixes.push(folder);
+                    if (query.includeTrailingDelimiter && object.name === folder) result.items.push(object);
+                    last = { name: folder, prefix: true };
+                } else {
+                    result.items.push(object);
+                    last = { name: object.name, generation: query.versions ? object.generation : undefined };
+                }
+            }
+            return result;
+        },
+
+        getObject,
+
+        async readObject(bucketName: string, name: string, generation?: string, conditions: Preconditions = {}) {
+            const object = await getObject(bucketName, name, generation, conditions);
+            return { object, content: await backend.readContent(object) };
+        },
+
+        insertObject,
+
+        async patchObject(bucketName: string, name: string, generation: string | undefined, fields: ObjectFields, conditions: Preconditions = {}) {
+            const object = await getObject(bucketName, name, generation, conditions);
+            const updated = applyFields(object, fields);
+            updated.metageneration = String(Number(object.metageneration) + 1);
+            updated.updated = new Date().toISOString();
+            await backend.updateObject(updated);
+            return updated;
+        },
+
+        // Delete the live object, or permanently delete one generation when it is given
+        async deleteObject(bucketName: string, name: string, generation: string | undefined, conditions: Preconditions = {}) {
+            const bucket = await requireBucket(bucketName);
+            const object = await getObject(bucketName, name, generation, conditions);
+            if (object.temporaryHold || object.eventBasedHold) {
+                throw new ToolError("PERMISSION_DENIED", `Object ${bucketName}/${name} is under active hold and cannot be deleted.`, 403);
+            }
+            if (generation === undefined && !object.timeDeleted) {
+                await retireLive(bucket, object);
+            } else {
+                await backend.deleteObject(object);
+            }
+        },
+
+        // Copy a generation to a new object; fields given for the destination override the source's
+        async rewriteObject(
+            source: { bucket: string, name: string, generation?: string },
+            destination: { bucket: string, name: string },
+            fields: ObjectFields,
+            conditions: Preconditions = {}
+        ) {
+            const object = await getObject(source.bucket, source.name, source.generation);
+            const content = await backend.readContent(object);
+            const carried: ObjectFields = {};
+            for (const field of OBJECT_FIELDS) {
+                if (object[field] !== undefined && field !== "temporaryHold" && field !== "eventBasedHold") {
+                    (carried as Record<string, unknown>)[field] = object[field];
+                }
+            }
+            return insertObject(destination.bucket, destination.name, content, {
+                ...carried,
+                ...fields,
+                metadata: fields.metadata ?? object.metadata
+            }, conditions, object.componentCount !== undefined ? { componentCount: object.componentCount } : undefined);
+        },
+
+        // Concatenate up to 32 source objects of a bucket into a composite object
+        async composeObject(
+            bucketName: string,
+            name: string,
+            sources: { name: string, generation?: string }[],
+            fields: ObjectFields,
+            conditions: Preconditions = {}
+        ) {
+            if (sources.length === 0 || sources.length > MAX_COMPOSE_SOURCES) {
+                throw invalid(`A compose request needs between 1 and ${MAX_COMPOSE_SOURCES} source objects`);
+            }
+            const parts: Buffer[] = [];
+            let componentCount = 0;
+            for (const source of sources) {
+                const object = await getObject(bucketName, source.name, source.generation);
+                parts.push(await backend.readContent(object));
+                componentCount += object.componentCount ?? 1;
+            }
+            return insertObject(bucketName, name, Buffer.concat(parts), fields, conditions, { componentCount });
+        }
+    };
+}
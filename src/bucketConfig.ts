@@ -0,0 +1,134 @@
+/**
+ * Structured views of bucket configuration and the patches that edit it.
+ */
+
+import { BucketMetadata } from "@google-cloud/storage";
+import { z } from "zod";
+
+export const LifecycleRuleSchema = z.object({
+    action: z.object({
+        type: z.enum(["Delete", "SetStorageClass", "AbortIncompleteMultipartUpload"]),
+        storageClass: z.string().min(1).optional()
+    }).strict(),
+    condition: z.object({
+        age: z.number().int().min(0).optional(),
+        createdBefore: z.string().optional(),
+        customTimeBefore: z.string().optional(),
+        daysSinceCustomTime: z.number().int().min(0).optional(),
+        daysSinceNoncurrentTime: z.number().int().min(0).optional(),
+        isLive: z.boolean().optional(),
+        matchesPrefix: z.array(z.string()).optional(),
+        matchesStorageClass: z.array(z.string()).optional(),
+        matchesSuffix: z.array(z.string()).optional(),
+        noncurrentTimeBefore: z.string().optional(),
+        numNewerVersions: z.number().int().min(0).optional()
+    }).strict()
+}).strict().refine(rule => rule.action.type !== "SetStorageClass" || !!rule.action.storageClass, {
+    message: "SetStorageClass actions require a storageClass",
+    path: ["action", "storageClass"]
+});
+
+export const CorsRuleSchema = z.object({
+    origin: z.array(z.string().min(1)).min(1),
+    method: z.array(z.string().min(1)).min(1),
+    responseHeader: z.array(z.string().min(1)).optional(),
+    maxAgeSeconds: z.number().int().min(0).optional()
+}).strict();
+
+// Edits accepted by updateBucketConfig. Omitted fields are left unchanged.
+export interface BucketConfigEdits {
+    versioning?: boolean;
+    lifecycleRules?: z.infer<typeof LifecycleRuleSchema>[];
+    cors?: z.infer<typeof CorsRuleSchema>[];
+    labels?: Record<string, string | null>;
+    defaultStorageClass?: string;
+    defaultEventBasedHold?: boolean;
+    defaultKmsKeyName?: string | null;
+    retentionPeriodSeconds?: number | null;
+}
+
+// The reviewable subset of a bucket's configuration
+export function summarizeBucketConfig(metadata: BucketMetadata) {
+    return {
+        name: metadata.name,
+        location: metadata.location,
+        locationType: metadata.locationType,
+        uniformBucketLevelAccess: metadata.iamConfiguration?.uniformBucketLevelAccess?.enabled ?? false,
+        publicAccessPrevention: metadata.iamConfiguration?.publicAccessPrevention ?? "inherited",
+        versioning: metadata.versioning?.enabled ?? false,
+        lifecycleRules: metadata.lifecycle?.rule ?? [],
+        cors: metadata.cors ?? [],
+        labels: metadata.labels ?? {},
+        defaultObjectMetadata: {
+            storageClass: metadata.storageClass,
+            eventBasedHold: metadata.defaultEventBasedHold ?? false,
+            kmsKeyName: metadata.encryption?.defaultKmsKeyName ?? null
+        },
+        retentionPolicy: metadata.retentionPolicy ? {
+            retentionPeriodSeconds: Number(metadata.retentionPolicy.retentionPeriod),
+            isLocked: metadata.retentionPolicy.isLocked ?? false,
+            effectiveTime: metadata.retentionPolicy.effectiveTime
+        } : null,
+        softDeleteRetentionSeconds: metadata.softDeletePolicy?.retentionDurationSeconds !== undefined ?
+            Number(metadata.softDeletePolicy.retentionDurationSeconds) :
+            null,
+        metageneration: metadata.metageneration
+    };
+}
+
+export type BucketConfigSummary = ReturnType<typeof summarizeBucketConfig>;
+
+// Build the metadata patch for a set of edits
+export function buildBucketPatch(edits: BucketConfigEdits): BucketMetadata {
+    const patch: Record<string, unknown> = {};
+    if (edits.versioning !== undefined) patch.versioning = { enabled: edits.versioning };
+    if (edits.lifecycleRules !== undefined) patch.lifecycle = { rule: edits.lifecycleRules };
+    if (edits.cors !== undefined) patch.cors = edits.cors;
+    // Labels are merged by the API; null values remove a label
+    if (edits.labels !== undefined) patch.labels = edits.labels;
+    if (edits.defaultStorageClass !== undefined) patch.storageClass = edits.defaultStorageClass;
+    if (edits.defaultEventBasedHold !== undefined) patch.defaultEventBasedHold = edits.defaultEventBasedHold;
+    if (edits.defaultKmsKeyName !== undefined) {
+        patch.encryption = edits.defaultKmsKeyName === null ? null : { defaultKmsKeyName: edits.defaultKmsKeyName };
+    }
+    if (edits.retentionPeriodSeconds !== undefined) {
+        patch.retentionPolicy = edits.retentionPeriodSeconds === null ?
+            null :
+            { retentionPeriod: String(edits.retentionPeriodSeconds) };
+    }
+    return patch as BucketMetadata;
+}
+
+// Predict the metadata after a patch is applied, for dry runs
+export function applyBucketPatch(metadata: BucketMetadata, patch: BucketMetadata): BucketMetadata {
+    const result: Record<string, unknown> = { ...metadata };
+    for (const [key, value] of Object.entries(patch)) {
+        if (value === null) {
+            delete result[key];
+        } else if (key === "labels") {
+            const labels: Record<string, string> = { ...(metadata.labels as Record<string, string> ?? {}) };
+            for (const [label, labelValue] of Object.entries(value as Record<string, string | null>)) {
+                if (labelValue === null) delete labels[label];
+                else labels[label] = labelValue;
+            }
+            result.labels = labels;
+        } else if (key === "retentionPolicy") {
+            result.retentionPolicy = { ...(metadata.retentionPolicy ?? {}), ...(value as object) };
+        } else {
+            result[key] = value;
+        }
+    }
+    return result as BucketMetadata;
+}
+
+// Field-by-field differences between two configuration summaries
+export function diffBucketConfig(before: BucketConfigSummary, after: BucketConfigSummary) {
+    const changes: Record<string, { before: unknown, after: unknown }> = {};
+    for (const key of Object.keys(before) as Array<keyof BucketConfigSummary>) {
+        if (key === "metageneration") continue;
+        if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+            changes[key] = { before: before[key], after: after[key] };
+        }
+    }
+    return changes;
+}
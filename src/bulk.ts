@@ -0,0 +1,167 @@
+/**
+ * Planned bulk operations over every object matching a prefix or glob.
+ *
+ * A plan records the exact object generations selected during a dry run.
+ * Confirming the plan applies the operation to those generations only, so
+ * objects written after the dry run are never touched.
+ */
+
+import { Bucket, FileMetadata } from "@google-cloud/storage";
+import { randomUUID } from "crypto";
+import { mapWithConcurrency } from "./concurrency.js";
+import { ToolError } from "./errors.js";
+import { iterateFiles } from "./listing.js";
+import { ReportProgress } from "./progress.js";
+import { TrashHook } from "./trash.js";
+
+// How long a dry-run plan can be confirmed
+const PLAN_TTL_MS = 15 * 60 * 1000;
+
+export type BulkOperation =
+    | { type: "delete" }
+    | { type: "setMetadata", metadata: FileMetadata }
+    | { type: "setStorageClass", storageClass: string };
+
+export interface BulkPlanObject {
+    name: string;
+    size: number;
+    generation: string;
+    storageClass?: string;
+}
+
+export interface BulkPlan {
+    id: string;
+    project: string;
+    bucket: string;
+    prefix?: string;
+    matchGlob?: string;
+    operation: BulkOperation;
+    objects: BulkPlanObject[];
+    totalBytes: number;
+    expiresAt: number;
+}
+
+// Plans awaiting confirmation, keyed by plan ID
+const plans = new Map<string, BulkPlan>();
+
+// Forget plans that can no longer be confirmed
+function pruneExpiredPlans() {
+    const now = Date.now();
+    for (const [id, plan] of plans) {
+        if (plan.expiresAt <= now) plans.delete(id);
+    }
+}
+
+// Select the objects a bulk operation would affect and store them as a plan
+export async function createBulkPlan(
+    bucket: Bucket,
+    selection: { project: string, prefix?: string, matchGlob?: string, maxObjects: number },
+    operation: BulkOperation
+): Promise<BulkPlan> {
+    pruneExpiredPlans();
+
+    const objects: BulkPlanObject[] = [];
+    for await (const file of iterateFiles(bucket, { prefix: selection.prefix, matchGlob: selection.matchGlob })) {
+        if (objects.length >= selection.maxObjects) {
+            throw new ToolError("LIMIT_EXCEEDED", `More than ${selection.maxObjects} objects match. Narrow the prefix or glob, or raise maxObjects.`);
+        }
+        // Objects already in the target storage class need no rewrite
+        if (operation.type === "setStorageClass" && file.metadata.storageClass === operation.storageClass) {
+            continue;
+        }
+        objects.push({
+            name: file.name,
+            size: Number(file.metadata.size ?? 0),
+            generation: String(file.metadata.generation),
+            storageClass: file.metadata.storageClass
+        });
+    }
+
+    const plan: BulkPlan = {
+        id: randomUUID(),
+        project: selection.project,
+        bucket: bucket.name,
+        prefix: selection.prefix,
+        matchGlob: selection.matchGlob,
+        operation,
+        objects,
+        totalBytes: objects.reduce((total, object) => total + object.size, 0),
+        expiresAt: Date.now() + PLAN_TTL_MS
+    };
+    if (objects.length > 0) {
+        plans.set(plan.id, plan);
+    }
+    return plan;
+}
+
+// Look up a pending plan without consuming it
+export function findBulkPlan(planId: string): BulkPlan | undefined {
+    pruneExpiredPlans();
+    return plans.get(planId);
+}
+
+// Remove and return a plan so it can be executed at most once
+export function takeBulkPlan(planId: string): BulkPlan {
+    pruneExpiredPlans();
+
+    const plan = plans.get(planId);
+    if (!plan) {
+        throw new ToolError("NOT_FOUND", `Plan ${planId} does not exist or has expired. Run the bulk tool again to create a new plan.`);
+    }
+    plans.delete(planId);
+    return plan;
+}
+
+// Apply a plan's operation to each planned object generation. Deleted
+// generations are first copied to the trash when a trash hook is given.
+// Once the signal is aborted no further objects are started, and the
+// summary covers the objects handled until then.
+export async function executeBulkPlan(
+    bucket: Bucket,
+    plan: BulkPlan,
+    concurrency: number,
+    trash?: TrashHook,
+    execution: { signal?: AbortSignal, progress?: ReportProgress } = {}
+) {
+    const { operation } = plan;
+
+    const results = await mapWithConcurrency(plan.objects, concurrency, async (object) => {
+        const file = bucket.file(object.name);
+        if (operation.type === "delete") {
+            await trash?.(bucket, object.name, object.generation);
+            await file.delete({ ifGenerationMatch: object.generation });
+        } else if (operation.type === "setMetadata") {
+            await file.setMetadata(operation.metadata, { ifGenerationMatch: object.generation });
+        } else {
+            await file.setStorageClass(operation.storageClass, {
+                preconditionOpts: { ifGenerationMatch: object.generation }
+            });
+        }
+        return object;
+    }, {
+        signal: execution.signal,
+        onSettled: settled => execution.progress?.(settled, plan.objects.length, `Processed ${settled} of ${plan.objects.length} objects`)
+    });
+
+    const succeeded = results.filter(result => result.ok).map(result => result.item);
+    const failed = results.filter(result => !result.ok).map(result => ({
+        name: result.item.name,
+        generation: result.item.generation,
+        message: result.error.message
+    }));
+
+    const notStarted = plan.objects.length - results.length;
+
+    return {
+        success: failed.length === 0 && notStarted === 0,
+        planId: plan.id,
+        operation: operation.type,
+        cancelled: Boolean(execution.signal?.aborted),
+        notStarted,
+        succeeded: succeeded.length,
+        failed: failed.length,
+        bytesAffected: succeeded.reduce((total, object) => total + object.size, 0),
+        succeededObjects: succeeded.map(object => object.name),
+        failures: failed
+    };
+}
@@ -0,0 +1,45 @@
+/**
+ * Bounded-concurrency helpers for operations that touch many objects.
+ */
+
+export type SettledResult<T, R> =
+    | { item: T, ok: true, value: R }
+    | { item: T, ok: false, error: Error };
+
+export interface ConcurrencyOptions {
+    // Once aborted, no further tasks are started
+    signal?: AbortSignal;
+    // Called with the number of settled tasks each time one settles
+    onSettled?: (settled: number) => void;
+}
+
+// Run an async task for every item with at most `limit` tasks in flight.
+// Results are returned in input order and failures do not stop other tasks.
+// Items that were never started because the signal was aborted are left out.
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    task: (item: T, index: number) => Promise<R>,
+    options: ConcurrencyOptions = {}
+): Promise<SettledResult<T, R>[]> {
+    const results: SettledResult<T, R>[] = new Array(items.length);
+    let next = 0;
+    let settled = 0;
+
+    const worker = async () => {
+        while (next < items.length && !options.signal?.aborted) {
+            const index = next++;
+            const item = items[index];
+            try {
+                results[index] = { item, ok: true, value: await task(item, index) };
+            } catch (error) {
+                results[index] = { item, ok: false, error: error as Error };
+            }
+            options.onSettled?.(++settled);
+        }
+    };
+
+    const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, () => worker());
+    await Promise.all(workers);
+    return next < items.length ? results.filter(result => result !== undefined) : results;
+}
@@ -0,0 +1,268 @@
+/**
+ * Server configuration.
+ *
+ * Projects are either read from an optional JSON or YAML config file, or, in
+ * the simple case, from GOOGLE_CLOUD_PROJECTS with a key file per project in
+ * the keys directory.
+ */
+
+import path from "path";
+import fs from "fs";
+import { z } from "zod";
+import YAML from "yaml";
+import { Storage, StorageOptions } from "@google-cloud/storage";
+import { GoogleAuth, Impersonated } from "google-auth-library";
+import { ProjectPolicySchema } from "./policy.js";
+import { TrashConfigSchema } from "./trash.js";
+import { RetryConfig, RetryConfigSchema, storageRetryOptions } from "./errors.js";
+import { HttpConfigSchema } from "./http.js";
+import { BackendConfig, BackendConfigSchema } from "./backend.js";
+import { createMemoryBackend } from "./memoryBackend.js";
+import { createLocalBackend } from "./localBackend.js";
+import { Emulator, startEmulator } from "./emulator.js";
+
+// Options of a request made by a Storage client, as seen by its interceptors
+type StorageRequestOptions = ReturnType<Storage["interceptors"][number]["request"]>;
+
+// OAuth scope requested for impersonated and ADC credentials
+const STORAGE_SCOPE = "https://www.googleapis.com/auth/devstorage.full_control";
+
+const CredentialsSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("keyFile"),
+        keyFile: z.string().min(1)
+    }).strict(),
+    z.object({
+        type: z.literal("adc")
+    }).strict(),
+    z.object({
+        type: z.literal("impersonate"),
+        targetServiceAccount: z.string().email(),
+        delegates: z.array(z.string().email()).optional(),
+        lifetimeSeconds: z.number().int().min(1).max(43200).optional().default(3600),
+        sourceKeyFile: z.string().min(1).optional()
+    }).strict(),
+    z.object({
+        type: z.literal("none")
+    }).strict()
+]);
+
+// Settings of a project, also accepted by the addProject tool
+export const ProjectSettingsSchema = z.object({
+    projectId: z.string().min(1).optional(),
+    credentials: CredentialsSchema.optional(),
+    apiEndpoint: z.string().url().optional(),
+    // Serve the project from a local directory or from memory instead of Cloud Storage
+    backend: BackendConfigSchema.optional(),
+    defaultBucket: z.string().min(1).optional(),
+    aliases: z.array(z.string().min(1)).optional().default([]),
+    policy: ProjectPolicySchema.optional(),
+    trash: TrashConfigSchema.optional()
+}).strict();
+
+type BackendFields = Pick<z.output<typeof ProjectSettingsSchema>, "backend" | "credentials" | "apiEndpoint">;
+
+// Reject project settings that combine a backend with credentials or an API endpoint
+export function refineBackend<T extends z.ZodType<BackendFields, z.ZodTypeDef, unknown>>(schema: T): z.ZodEffects<T> {
+    return schema.refine(project => !project.backend || (!project.credentials && !project.apiEndpoint), {
+        message: "backend cannot be combined with credentials or apiEndpoint",
+        path: ["backend"]
+    });
+}
+
+const ProjectConfigSchema = refineBackend(ProjectSettingsSchema);
+
+export const ConfigFileSchema = z.object({
+    defaultProject: z.string().min(1).optional(),
+    defaultPolicy: ProjectPolicySchema.optional(),
+    // Trash settings for projects without their own
+    defaultTrash: TrashConfigSchema.optional(),
+    // Path of the JSONL audit log of calls to tools that change data
+    auditLog: z.string().min(1).optional(),
+    // Exponential backoff for Cloud Storage requests that fail with a retryable error
+    retry: RetryConfigSchema.optional(),
+    // Storage prices per GiB-month by storage class, used by storageReport
+    storagePrices: z.record(z.number().min(0)).optional(),
+    // Serve MCP over stdio (the default) or over HTTP with the settings in http
+    transport: z.enum(["stdio", "http"]).optional(),
+    http: HttpConfigSchema.optional(),
+    projects: z.record(ProjectConfigSchema).refine(projects => Object.keys(projects).length > 0, {
+        message: "At least one project must be configured"
+    })
+}).strict().superRefine((config, ctx) => {
+    const names = new Set(Object.keys(config.projects));
+    for (const [name, project] of Object.entries(config.projects)) {
+        for (const alias of project.aliases) {
+            if (names.has(alias)) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: `Alias ${alias} of project ${name} is already used by another project or alias`,
+                    path: ["projects", name, "aliases"]
+                });
+            }
+            names.add(alias);
+        }
+    }
+    if (config.defaultProject && !names.has(config.defaultProject)) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `Default project ${config.defaultProject} is not configured`,
+            path: ["defaultProject"]
+        });
+    }
+    const tokenNames = new Set<string>();
+    config.http?.tokens.forEach((token, index) => {
+        if (tokenNames.has(token.name)) {
+            ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `Token name ${token.name} is used more than once`,
+                path: ["http", "tokens", index, "name"]
+            });
+        }
+        tokenNames.add(token.name);
+        for (const project of [...(token.projects ?? []), ...(token.defaultProject ? [token.defaultProject] : [])]) {
+            if (!names.has(project)) {
+                ctx.addIssue({
+                    code: z.ZodIssueCode.custom,
+                    message: `Project ${project} of token ${token.name} is not configured`,
+                    path: ["http", "tokens", index]
+                });
+            }
+        }
+    });
+});
+
+export type CredentialsConfig = z.infer<typeof CredentialsSchema>;
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+export type ServerConfig = z.infer<typeof ConfigFileSchema>;
+
+// Read and validate a JSON or YAML config file. Relative key file, backend
+// root and audit log paths are resolved against the directory containing the config file.
+export function loadConfigFile(configPath: string): ServerConfig {
+    const text = fs.readFileSync(configPath, "utf8");
+    const extension = path.extname(configPath).toLowerCase();
+    const raw = extension === ".yaml" || extension === ".yml" ? YAML.parse(text) : JSON.parse(text);
+    const config = ConfigFileSchema.parse(raw);
+
+    const baseDir = path.dirname(path.resolve(configPath));
+    if (config.auditLog) {
+        config.auditLog = path.resolve(baseDir, config.auditLog);
+    }
+    for (const project of Object.values(config.projects)) {
+        const credentials = project.credentials;
+        if (credentials?.type === "keyFile") {
+            credentials.keyFile = path.resolve(baseDir, credentials.keyFile);
+        } else if (credentials?.type === "impersonate" && credentials.sourceKeyFile) {
+            credentials.sourceKeyFile = path.resolve(baseDir, credentials.sourceKeyFile);
+        }
+        if (project.backend?.type === "local") {
+            project.backend.root = path.resolve(baseDir, project.backend.root);
+        }
+    }
+    return config;
+}
+
+// Build the equivalent configuration for GOOGLE_CLOUD_PROJECTS and keys/<project>.json.
+// With a backend, projects are served from it instead; local backends get a
+// directory per project under the given root.
+export function configFromEnv(projects: string[], keysDir: string, backend?: BackendConfig): ServerConfig {
+    const config: ServerConfig = { projects: {} };
+    for (const project of projects) {
+        if (backend?.type === "local") {
+            config.projects[project] = { backend: { type: "local", root: path.resolve(backend.root, project) }, aliases: [] };
+        } else if (backend) {
+            config.projects[project] = { backend, aliases: [] };
+        } else {
+            config.projects[project] = {
+                credentials: { type: "keyFile", keyFile: path.resolve(keysDir, `${project}.json`) },
+                aliases: []
+            };
+        }
+    }
+    return config;
+}
+
+// Parse STORAGE_BACKEND, either "memory" or "local:<directory>"
+export function parseBackendSetting(value: string): BackendConfig {
+    if (value === "memory") return { type: "memory" };
+    if (value.startsWith("local:") && value.length > "local:".length) {
+        return { type: "local", root: path.resolve(value.slice("local:".length)) };
+    }
+    throw new Error(`Invalid storage backend ${value}; expected "memory" or "local:<directory>"`);
+}
+
+// Emulators serving backend projects, by the client that uses them
+const emulators = new WeakMap<Storage, Emulator>();
+
+// Create a Storage client for a configured project
+export async function createStorageClient(name: string, project: ProjectConfig, retry: RetryConfig): Promise<Storage> {
+    const options: StorageOptions = {
+        projectId: project.projectId ?? name,
+        retryOptions: storageRetryOptions(retry)
+    };
+    if (project.apiEndpoint) {
+        options.apiEndpoint = project.apiEndpoint;
+    }
+
+    // Backends are served through a JSON API emulator on a loopback port and used unauthenticated
+    if (project.backend) {
+        const backend = project.backend.type === "local"
+            ? createLocalBackend(project.backend.root)
+            : createMemoryBackend();
+        const emulator = await startEmulator(backend);
+        options.apiEndpoint = emulator.url;
+        const storage = new Storage(options);
+        // Interceptors also apply to resumable uploads, which bypass the auth client on custom endpoints
+        storage.interceptors.push({
+            request: (reqOpts: StorageRequestOptions) => {
+                reqOpts.headers = { ...reqOpts.headers, Authorization: `Bearer ${emulator.secret}` };
+                return reqOpts;
+            }
+        });
+        emulators.set(storage, emulator);
+        return storage;
+    }
+
+    // Without explicit credentials, emulator endpoints are used unauthenticated
+    // and everything else falls back to Application Default Credentials
+    const credentials: CredentialsConfig = project.credentials ??
+        (project.apiEndpoint ? { type: "none" } : { type: "adc" });
+
+    if (credentials.type === "keyFile") {
+        if (!fs.existsSync(credentials.keyFile)) {
+            throw new Error(`No credentials file found for project ${name} at ${credentials.keyFile}`);
+        }
+        // Read and parse the service account key file
+        options.credentials = JSON.parse(fs.readFileSync(credentials.keyFile, "utf8"));
+    } else if (credentials.type === "impersonate") {
+        const sourceAuth = new GoogleAuth({
+            keyFilename: credentials.sourceKeyFile,
+            scopes: ["https://www.googleapis.com/auth/cloud-platform"]
+        });
+        options.authClient = new Impersonated({
+            sourceClient: await sourceAuth.getClient(),
+            targetPrincipal: credentials.targetServiceAccount,
+            delegates: credentials.delegates ?? [],
+            targetScopes: [STORAGE_SCOPE],
+            lifetime: credentials.lifetimeSeconds
+        });
+    } else if (credentials.type === "adc") {
+        options.scopes = [STORAGE_SCOPE];
+    }
+
+    if (project.apiEndpoint && credentials.type !== "none") {
+        options.useAuthWithCustomEndpoint = true;
+    }
+
+    return new Storage(options);
+}
+
+// Release what a Storage client holds once its project is removed, which
+// stops the emulator serving a backend project
+export async function closeStorageClient(storage: Storage) {
+    const emulator = emulators.get(storage);
+    if (emulator) {
+        emulators.delete(storage);
+        await emulator.close();
+    }
+}
@@ -0,0 +1,297 @@
+/**
+ * Helpers for reading object content with byte ranges, line modes,
+ * size caps and transparent gzip decompression.
+ */
+
+import { File, FileMetadata } from "@google-cloud/storage";
+import { Readable, addAbortSignal, pipeline } from "stream";
+import zlib from "zlib";
+
+// Number of leading bytes inspected when sniffing whether content is text
+const SNIFF_BYTES = 8192;
+
+export interface ReadObjectOptions {
+    start?: number;
+    end?: number;
+    lines?: number;
+    mode?: "head" | "tail";
+    maxBytes: number;
+    decompress: boolean;
+    // Destroys the download when aborted
+    signal?: AbortSignal;
+    // Called with the number of bytes read so far
+    onProgress?: (bytes: number) => void;
+}
+
+export interface ReadObjectResult {
+    content: Buffer;
+    truncated: boolean;
+    decompressed: boolean;
+    range?: { start: number, end: number };
+}
+
+// Content types for common file extensions, used when an object has none
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+    ".txt": "text/plain",
+    ".log": "text/plain",
+    ".md": "text/markdown",
+    ".csv": "text/csv",
+    ".tsv": "text/tab-separated-values",
+    ".html": "text/html",
+    ".htm": "text/html",
+    ".css": "text/css",
+    ".js": "text/javascript",
+    ".json": "application/json",
+    ".ndjson": "application/x-ndjson",
+    ".jsonl": "application/x-ndjson",
+    ".xml": "application/xml",
+    ".yaml": "application/yaml",
+    ".yml": "application/yaml",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".svg": "image/svg+xml",
+    ".pdf": "application/pdf",
+    ".zip": "application/zip",
+    ".gz": "application/gzip",
+    ".tar": "application/x-tar",
+    ".parquet": "application/vnd.apache.parquet"
+};
+
+// The declared content type of an object, or a guess from its file extension
+export function contentTypeFor(name: string, metadata: FileMetadata): string | undefined {
+    if (metadata.contentType && metadata.contentType !== "application/octet-stream") {
+        return metadata.contentType;
+    }
+    const extension = name.slice(name.lastIndexOf(".")).toLowerCase();
+    return EXTENSION_CONTENT_TYPES[extension] ?? metadata.contentType;
+}
+
+// Whether the stored bytes of an object are gzip compressed
+export function isGzipped(metadata: FileMetadata): boolean {
+    const contentType = (metadata.contentType || "").toLowerCase();
+    return metadata.contentEncoding === "gzip" ||
+        contentType === "application/gzip" ||
+        contentType === "application/x-gzip";
+}
+
+// Whether a content type is known to describe text
+function isTextContentType(contentType: string): boolean {
+    return contentType.startsWith("text/") ||
+        contentType.includes("json") ||
+        contentType.includes("xml") ||
+        contentType.includes("javascript") ||
+        contentType.includes("html") ||
+        contentType.includes("csv") ||
+        contentType.includes("yaml");
+}
+
+// Whether a content type is known to describe binary data
+function isBinaryContentType(contentType: string): boolean {
+    return contentType.startsWith("image/") ||
+        contentType.startsWith("video/") ||
+        contentType.startsWith("audio/") ||
+        contentType.startsWith("font/") ||
+        contentType === "application/pdf" ||
+        contentType === "application/zip" ||
+        contentType.includes("protobuf");
+}
+
+// Decide whether content is text using the declared content type and, when
+// that is missing or generic, by sniffing the leading bytes
+export function isTextContent(contentType: string | undefined, sample: Buffer): boolean {
+    const type = (contentType || "").toLowerCase();
+    if (isTextContentType(type)) return true;
+    if (isBinaryContentType(type)) return false;
+
+    const head = sample.subarray(0, SNIFF_BYTES);
+    if (head.length === 0) return true;
+    if (head.includes(0)) return false;
+
+    // Allow a multi-byte character to be cut off at the end of the sample
+    let valid = false;
+    for (let trim = 0; trim < 4 && trim < head.length && !valid; trim++) {
+        try {
+            new TextDecoder("utf-8", { fatal: true }).decode(head.subarray(0, head.length - trim));
+            valid = true;
+        } catch {
+            // Try again with a shorter sample
+        }
+    }
+    if (!valid) return false;
+
+    let control = 0;
+    for (const byte of head) {
+        if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c && byte !== 0x1b) {
+            control++;
+        }
+    }
+    return control / head.length < 0.05;
+}
+
+// Split text into lines, ignoring the empty line after a trailing newline
+function splitLines(text: string): string[] {
+    const lines = text.split("\n");
+    if (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+    return lines;
+}
+
+// Open a readable stream for the object, decompressing gzip content if requested.
+// The stream is destroyed when the signal, if any, is aborted.
+export function openObjectStream(
+    file: File,
+    metadata: FileMetadata,
+    options: { start?: number, end?: number, decompress: boolean, signal?: AbortSignal }
+): { stream: Readable, decompressed: boolean } {
+    if (options.decompress && isGzipped(metadata)) {
+        // Ranges apply to the stored (compressed) bytes, so always read the whole object
+        const gunzip = zlib.createGunzip();
+        pipeline(file.createReadStream({ decompress: false }), gunzip, () => {});
+        return { stream: options.signal ? addAbortSignal(options.signal, gunzip) : gunzip, decompressed: true };
+    }
+    const stream = file.createReadStream({ start: options.start, end: options.end, decompress: false });
+    return {
+        stream: options.signal ? addAbortSignal(options.signal, stream) : stream,
+        decompressed: false
+    };
+}
+
+// Read object content honouring byte ranges, head/tail line modes and a byte cap
+export async function readObject(file: File, metadata: FileMetadata, options: ReadObjectOptions): Promise<ReadObjectResult> {
+    const totalSize = Number(metadata.size ?? 0);
+    const { maxBytes, lines, mode } = options;
+    const gzipped = options.decompress && isGzipped(metadata);
+
+    let start = options.start;
+    let end = options.end;
+    let skipped = false;
+
+    // Without decompression, tail reads only the last window of the object
+    if (!gzipped && mode === "tail") {
+        const windowEnd = end ?? totalSize - 1;
+        const windowStart = Math.max(start ?? 0, windowEnd - maxBytes + 1);
+        skipped = windowStart > (start ?? 0);
+        start = windowStart;
+        end = windowEnd;
+    }
+
+    // An empty object has no bytes to address, so a range from 0 reads it whole
+    if (!gzipped && totalSize === 0 && (start ?? 0) === 0) {
+        start = undefined;
+        end = undefined;
+    }
+
+    const { stream, decompressed } = openObjectStream(file, metadata, {
+        start: gzipped ? undefined : start,
+        end: gzipped ? undefined : end,
+        decompress: options.decompress,
+        signal: options.signal
+    });
+
+    const chunks: Buffer[] = [];
+    let collected = 0;
+    let offset = 0;
+    let truncated = false;
+    let newlines = 0;
+    let bytesRead = 0;
+
+    try {
+        for await (const data of stream) {
+            let chunk = data as Buffer;
+            bytesRead += chunk.length;
+            options.onProgress?.(bytesRead);
+
+            // Decompressed streams are sliced to the requested range here
+            if (gzipped) {
+                const chunkStart = offset;
+                offset += chunk.length;
+                const from = Math.max(0, (start ?? 0) - chunkStart);
+                const to = end !== undefined ? Math.min(chunk.length, end + 1 - chunkStart) : chunk.length;
+                if (to <= from) {
+                    if (end !== undefined && chunkStart > end) break;
+                    continue;
+                }
+                chunk = chunk.subarray(from, to);
+            }
+
+            if (mode === "tail") {
+                chunks.push(chunk);
+                collected += chunk.length;
+                // Keep a rolling window of at most maxBytes
+                while (collected - chunks[0].length >= maxBytes) {
+                    collected -= chunks.shift()!.length;
+                    skipped = true;
+                }
+                continue;
+            }
+
+            if (mode === "head" && lines !== undefined) {
+                let cut = -1;
+                for (let i = 0; i < chunk.length; i++) {
+                    if (chunk[i] === 0x0a && ++newlines >= lines) {
+                        cut = i + 1;
+                        break;
+                    }
+                }
+                if (cut >= 0) {
+                    chunk = chunk.subarray(0, cut);
+                }
+                if (collected + chunk.length > maxBytes) {
+                    chunks.push(chunk.subarray(0, maxBytes - collected));
+                    collected = maxBytes;
+                    truncated = true;
+                    break;
+                }
+                chunks.push(chunk);
+                collected += chunk.length;
+                if (cut >= 0) break;
+                continue;
+            }
+
+            if (collected + chunk.length > maxBytes) {
+                chunks.push(chunk.subarray(0, maxBytes - collected));
+                collected = maxBytes;
+                truncated = true;
+                break;
+            }
+            chunks.push(chunk);
+            collected += chunk.length;
+        }
+    } finally {
+        stream.destroy();
+    }
+
+    let content = Buffer.concat(chunks);
+
+    if (mode === "tail") {
+        if (content.length > maxBytes) {
+            content = content.subarray(content.length - maxBytes);
+            skipped = true;
+        }
+        let text = content.toString("utf-8");
+        // Drop the partial first line when the window does not start at the beginning
+        if (skipped) {
+            const firstNewline = text.indexOf("\n");
+            text = firstNewline >= 0 ? text.slice(firstNewline + 1) : "";
+        }
+        let tailLines = splitLines(text);
+        if (lines !== undefined && tailLines.length > lines) {
+            tailLines = tailLines.slice(tailLines.length - lines);
+        } else if (skipped) {
+            truncated = true;
+        }
+        const trailingNewline = text.endsWith("\n");
+        content = Buffer.from(tailLines.join("\n") + (trailingNewline && tailLines.length > 0 ? "\n" : ""), "utf-8");
+        return { content, truncated, decompressed };
+    }
+
+    const rangeStart = start ?? 0;
+    return {
+        content,
+        truncated,
+        decompressed,
+        range: content.length > 0 ? { start: rangeStart, end: rangeStart + content.length - 1 } : undefined
+    };
+}
@@ -0,0 +1,207 @@
+/**
+ * Credential health checks.
+ *
+ * For each project, checkCredentials reports the service account its
+ * credentials belong to, the ID and age of the key, whether the credentials
+ * still authenticate and which Cloud Storage permissions they hold, so a
+ * deleted, expired or under-privileged key is found before tools start failing.
+ */
+
+import fs from "fs";
+import { X509Certificate } from "crypto";
+import { Storage } from "@google-cloud/storage";
+import { CredentialsConfig, ProjectConfig } from "./config.js";
+import { toToolError } from "./errors.js";
+import { DEFAULT_TEST_PERMISSIONS } from "./iam.js";
+
+// Public certificates of a service account's keys, as a map from key ID to PEM
+const CERTIFICATES_URL = "https://www.googleapis.com/service_accounts/v1/metadata/x509/";
+
+// How long to wait for the certificates before leaving the key age unknown
+const CERTIFICATES_TIMEOUT_MS = 10000;
+
+// Permissions checked on the project when it has no default bucket to check them on
+export const PROJECT_TEST_PERMISSIONS = [
+    "storage.buckets.list",
+    "storage.buckets.create",
+    "storage.buckets.delete",
+    ...DEFAULT_TEST_PERMISSIONS
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PermissionCheck {
+    // Checked on the project's default bucket, or on the project itself
+    scope: "bucket" | "project";
+    resource: string;
+    granted: string[];
+    missing: string[];
+}
+
+export interface CredentialCheck {
+    project: string;
+    projectId: string;
+    credentials: string;
+    // Service account the credentials belong to or impersonate, when known
+    serviceAccount: string | null;
+    // ID of the service account key and the validity of its public certificate
+    keyId: string | null;
+    keyCreated: string | null;
+    keyExpires: string | null;
+    keyAgeDays: number | null;
+    // Whether an access token could be obtained; null when no authentication is used
+    authenticated: boolean | null;
+    authError: string | null;
+    permissions: PermissionCheck | null;
+    permissionsError: string | null;
+    warnings: string[];
+}
+
+interface KeyFile {
+    type?: string;
+    client_email?: string;
+    private_key_id?: string;
+}
+
+// Read the identity fields of a key file, or nothing when it cannot be read
+function readKeyFile(keyFile: string | undefined): KeyFile {
+    if (!keyFile) return {};
+    try {
+        return JSON.parse(fs.readFileSync(keyFile, "utf8")) as KeyFile;
+    } catch {
+        return {};
+    }
+}
+
+// Validity of the public certificate of a service account key, or undefined
+// when the key is not among the account's public keys
+async function keyCertificate(serviceAccount: string, keyId: string, signal: AbortSignal): Promise<X509Certificate | undefined> {
+    const response = await fetch(CERTIFICATES_URL + encodeURIComponent(serviceAccount), {
+        signal: AbortSignal.any([signal, AbortSignal.timeout(CERTIFICATES_TIMEOUT_MS)])
+    });
+    if (!response.ok) {
+        throw new Error(`Fetching the public keys of ${serviceAccount} failed with status ${response.status}`);
+    }
+    const certificates = await response.json() as Record<string, string>;
+    return certificates[keyId] ? new X509Certificate(certificates[keyId]) : undefined;
+}
+
+// Test permissions on the default bucket, or through Resource Manager on the project
+async function testPermissions(storage: Storage, projectId: string, bucket: string | undefined): Promise<PermissionCheck> {
+    if (bucket) {
+        const [results] = await storage.bucket(bucket).iam.testPermissions(DEFAULT_TEST_PERMISSIONS);
+        return {
+            scope: "bucket",
+            resource: bucket,
+            granted: Object.keys(results).filter(permission => results[permission]),
+            missing: Object.keys(results).filter(permission => !results[permission])
+        };
+    }
+
+    const response = await storage.authClient.request<{ permissions?: string[] }>({
+        url: `https://cloudresourcemanager.googleapis.com/v1/projects/${encodeURIComponent(projectId)}:testIamPermissions`,
+        method: "POST",
+        data: { permissions: PROJECT_TEST_PERMISSIONS }
+    });
+    const granted = response.data.permissions ?? [];
+    return {
+        scope: "project",
+        resource: projectId,
+        granted,
+        missing: PROJECT_TEST_PERMISSIONS.filter(permission => !granted.includes(permission))
+    };
+}
+
+// Check a project's credentials. Failures are reported in the result rather
+// than thrown, so one broken project does not hide the state of the others.
+export async function checkCredentials(
+    name: string,
+    project: ProjectConfig,
+    storage: Storage | undefined,
+    options: { signal: AbortSignal, clientError?: string }
+): Promise<CredentialCheck> {
+    // Backends and emulator endpoints are used unauthenticated unless credentials are given
+    const credentials: CredentialsConfig = project.backend ? { type: "none" } :
+        project.credentials ?? (project.apiEndpoint ? { type: "none" } : { type: "adc" });
+    const check: CredentialCheck = {
+        project: name,
+        projectId: project.projectId ?? name,
+        credentials: credentials.type,
+        serviceAccount: null,
+        keyId: null,
+        keyCreated: null,
+        keyExpires: null,
+        keyAgeDays: null,
+        authenticated: null,
+        authError: null,
+        permissions: null,
+        permissionsError: null,
+        warnings: []
+    };
+
+    // Identity from the key file; impersonated credentials use short-lived tokens without a key
+    if (credentials.type === "keyFile" || credentials.type === "adc") {
+        const key = readKeyFile(credentials.type === "keyFile" ? credentials.keyFile : process.env.GOOGLE_APPLICATION_CREDENTIALS);
+        if (key.type === "service_account") {
+            check.serviceAccount = key.client_email ?? null;
+            check.keyId = key.private_key_id ?? null;
+        }
+    } else if (credentials.type === "impersonate") {
+        check.serviceAccount = credentials.targetServiceAccount;
+    }
+
+    if (!storage) {
+        check.authenticated = credentials.type === "none" ? null : false;
+        check.authError = options.clientError ?? "No Storage client is initialized for the project";
+        return check;
+    }
+
+    if (credentials.type !== "none") {
+        try {
+            await storage.authClient.getAccessToken();
+            check.authenticated = true;
+            if (!check.serviceAccount) {
+                const { client_email } = await storage.authClient.getCredentials().catch(() => ({ client_email: undefined }));
+                check.serviceAccount = client_email ?? null;
+            }
+        } catch (error) {
+            check.authenticated = false;
+            check.authError = toToolError(error).message;
+        }
+    }
+
+    if (check.serviceAccount && check.keyId) {
+        try {
+            const certificate = await keyCertificate(check.serviceAccount, check.keyId, options.signal);
+            if (certificate) {
+                const created = new Date(certificate.validFrom);
+                const expires = new Date(certificate.validTo);
+                check.keyCreated = created.toISOString();
+                check.keyExpires = expires.toISOString();
+                check.keyAgeDays = Math.floor((Date.now() - created.getTime()) / DAY_MS);
+                if (expires.getTime() <= Date.now()) {
+                    check.warnings.push(`Key ${check.keyId} expired on ${check.keyExpires}`);
+                }
+            } else {
+                check.warnings.push(`Key ${check.keyId} is not among the public keys of ${check.serviceAccount}; it may have been deleted`);
+            }
+        } catch (error) {
+            check.warnings.push(`The age of key ${check.keyId} could not be determined: ${toToolError(error).message}`);
+        }
+    }
+
+    // Resource Manager is only reachable with real Cloud Storage credentials
+    const canTestProject = check.authenticated === true && !project.apiEndpoint;
+    if (check.authenticated !== false && (project.defaultBucket || canTestProject)) {
+        try {
+            check.permissions = await testPermissions(storage, check.projectId, project.defaultBucket);
+        } catch (error) {
+            check.permissionsError = toToolError(error).message;
+        }
+    }
+    if (check.permissions && check.permissions.granted.length === 0) {
+        check.warnings.push(`The credentials hold none of the checked permissions on ${check.permissions.scope} ${check.permissions.resource}`);
+    }
+
+    return check;
+}
@@ -0,0 +1,552 @@
+/**
+ * Cloud Storage JSON API emulator.
+ *
+ * Serves an object store on a loopback port, covering the part of the JSON
+ * API the client library uses for the tools: buckets and their IAM policies,
+ * object listings and metadata, media downloads with ranges and gzip
+ * transcoding, simple, multipart and resumable uploads, rewrites and
+ * composition. Storage clients of projects with a backend are pointed at it
+ * through apiEndpoint, so the tools run unchanged.
+ *
+ * Every request must carry the emulator's secret as a bearer token. The
+ * secret is random per emulator and only known to this process, so other
+ * processes on the machine cannot reach the backend around the access policy.
+ */
+
+import http, { IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { gunzipSync } from "zlib";
+import {
+    BucketRecord,
+    createObjectStore,
+    ObjectFields,
+    ObjectRecord,
+    ObjectStore,
+    Preconditions,
+    StorageBackend
+} from "./backend.js";
+import { toToolError, ToolError } from "./errors.js";
+
+export interface Emulator {
+    url: string;
+    // Bearer token that every request must present
+    secret: string;
+    close(): Promise<void>;
+}
+
+// HTTP statuses of errors raised without one
+const CODE_STATUSES: Record<string, number> = {
+    INVALID_ARGUMENT: 400,
+    UNAUTHENTICATED: 401,
+    PERMISSION_DENIED: 403,
+    NOT_FOUND: 404,
+    CONFLICT: 409,
+    ALREADY_EXISTS: 409,
+    PRECONDITION_FAILED: 412,
+    OUT_OF_RANGE: 416
+};
+
+// Resumable upload sessions expire after a week, as in Cloud Storage
+const UPLOAD_SESSION_MS = 7 * 24 * 60 * 60 * 1000;
+
+const SETTABLE_FIELDS = [
+    "contentType",
+    "contentEncoding",
+    "contentDisposition",
+    "contentLanguage",
+    "cacheControl",
+    "customTime",
+    "storageClass",
+    "temporaryHold",
+    "eventBasedHold",
+    "metadata"
+] as const;
+
+interface UploadSession {
+    bucket: string;
+    name: string;
+    fields: ObjectFields;
+    conditions: Preconditions;
+    chunks: Buffer[];
+    received: number;
+    startedAt: number;
+    // The stored object once the last chunk has arrived
+    result?: ObjectRecord;
+}
+
+function invalid(message: string): ToolError {
+    return new ToolError("INVALID_ARGUMENT", message, 400);
+}
+
+function etag(value: string): string {
+    return createHash("md5").update(value).digest("base64");
+}
+
+function objectResource(object: ObjectRecord) {
+    return {
+        kind: "storage#object",
+        id: `${object.bucket}/${object.name}/${object.generation}`,
+        etag: etag(`${object.generation}/${object.metageneration}`),
+        ...object
+    };
+}
+
+function bucketResource(bucket: BucketRecord) {
+    return {
+        kind: "storage#bucket",
+        etag: etag(`${bucket.metadata.name}/${bucket.metadata.metageneration}`),
+        ...bucket.metadata
+    };
+}
+
+function policyResource(bucket: BucketRecord) {
+    return {
+        kind: "storage#policy",
+        resourceId: `projects/_/buckets/${bucket.metadata.name}`,
+        version: bucket.bindings.some(binding => (binding as { condition?: unknown }).condition) ? 3 : 1,
+        etag: etag(JSON.stringify(bucket.bindings)),
+        bindings: bucket.bindings
+    };
+}
+
+// Content headers and custom metadata given in a request body
+function settableFields(body: unknown): ObjectFields {
+    const fields: Record<string, unknown> = {};
+    if (body && typeof body === "object") {
+        for (const field of SETTABLE_FIELDS) {
+            const value = (body as Record<string, unknown>)[field];
+            if (value !== undefined && value !== null) fields[field] = value;
+        }
+    }
+    return fields as ObjectFields;
+}
+
+function int64Param(query: URLSearchParams, name: string): string | undefined {
+    const value = query.get(name);
+    if (value === null || value === "") return undefined;
+    if (!/^-?\d+$/.test(value)) throw invalid(`Invalid value for ${name}: ${value}`);
+    return value;
+}
+
+function preconditions(query: URLSearchParams): Preconditions {
+    return {
+        ifGenerationMatch: int64Param(query, "ifGenerationMatch"),
+        ifGenerationNotMatch: int64Param(query, "ifGenerationNotMatch"),
+        ifMetagenerationMatch: int64Param(query, "ifMetagenerationMatch"),
+        ifMetagenerationNotMatch: int64Param(query, "ifMetagenerationNotMatch")
+    };
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+    return Buffer.concat(chunks);
+}
+
+function parseJson(body: Buffer): Record<string, unknown> {
+    if (body.length === 0) return {};
+    try {
+        return JSON.parse(body.toString("utf8"));
+    } catch {
+        throw invalid("Request body is not valid JSON");
+    }
+}
+
+// Split a multipart/related upload body into its metadata and media parts
+function parseMultipart(body: Buffer, contentType: string): { metadata: Record<string, unknown>, media: Buffer, mediaType?: string } {
+    const boundary = /boundary="?([^";]+)"?/i.exec(contentType)?.[1];
+    if (!boundary) throw invalid("Multipart upload without a boundary");
+
+    const delimiter = Buffer.from(`--${boundary}`);
+    const parts: { headers: string, content: Buffer }[] = [];
+    let start = body.indexOf(delimiter);
+    while (start >= 0) {
+        const partStart = start + delimiter.length;
+        if (body.subarray(partStart, partStart + 2).toString() === "--") break;
+        const next = body.indexOf(delimiter, partStart);
+        if (next < 0) break;
+        const part = body.subarray(partStart, next);
+        const headerEnd = part.indexOf("\r\n\r\n");
+        if (headerEnd < 0) throw invalid("Malformed multipart upload body");
+        // Each part starts after the delimiter's line break and ends before the next one
+        const content = part.subarray(headerEnd + 4, part.length - 2);
+        parts.push({ headers: part.subarray(0, headerEnd).toString("utf8"), content });
+        start = next;
+    }
+    if (parts.length !== 2) throw invalid("A multipart upload needs a metadata part and a media part");
+    return {
+        metadata: parseJson(parts[0].content),
+        media: parts[1].content,
+        mediaType: /content-type:\s*([^\r\n]+)/i.exec(parts[1].headers)?.[1].trim()
+    };
+}
+
+// Byte range of a Range header, or nothing to return the whole content
+function parseRange(header: string | undefined, size: number): { start: number, end: number } | undefined {
+    const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+    if (!match || (match[1] === "" && match[2] === "")) return undefined;
+    if (match[1] === "") {
+        const length = Math.min(Number(match[2]), size);
+        return { start: size - length, end: size - 1 };
+    }
+    const start = Number(match[1]);
+    if (start >= size && size > 0) {
+        throw new ToolError("OUT_OF_RANGE", "The requested range cannot be satisfied.", 416);
+    }
+    const end = match[2] === "" ? size - 1 : Math.min(Number(match[2]), size - 1);
+    return { start, end };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { "Content-Type": "application/json; charset=UTF-8", ...headers });
+    res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: unknown) {
+    const toolError = toToolError(error);
+    const status = toolError.status ?? CODE_STATUSES[toolError.code] ?? 500;
+    if (status >= 500) console.error("Storage emulator error:", error);
+    sendJson(res, status, {
+        error: {
+            code: status,
+            message: toolError.message,
+            errors: [{ message: toolError.message, domain: "global", reason: toolError.code.toLowerCase() }]
+        }
+    });
+}
+
+// Serve a media download, decompressing gzip-encoded objects for clients that do not accept gzip
+async function sendMedia(req: IncomingMessage, res: ServerResponse, store: ObjectStore, object: ObjectRecord) {
+    let content = (await store.readObject(object.bucket, object.name, object.generation)).content;
+    const storedGzip = object.contentEncoding === "gzip";
+    const servedGzip = storedGzip && /\bgzip\b/.test(String(req.headers["accept-encoding"] ?? ""));
+    if (storedGzip && !servedGzip) content = gunzipSync(content);
+
+    const headers: Record<string, string> = {
+        "Content-Type": object.contentType ?? "application/octet-stream",
+        "ETag": etag(`${object.generation}/${object.metageneration}`),
+        "Last-Modified": new Date(object.updated).toUTCString(),
+        "x-goog-generation": object.generation,
+        "x-goog-metageneration": object.metageneration,
+        "x-goog-stored-content-length": object.size,
+        "x-goog-stored-content-encoding": object.contentEncoding ?? "identity",
+        "x-goog-hash": [`crc32c=${object.crc32c}`, ...(object.md5Hash ? [`md5=${object.md5Hash}`] : [])].join(",")
+    };
+    if (servedGzip) headers["Content-Encoding"] = "gzip";
+    if (object.cacheControl) headers["Cache-Control"] = object.cacheControl;
+    if (object.contentDisposition) headers["Content-Disposition"] = object.contentDisposition;
+    if (object.contentLanguage) headers["Content-Language"] = object.contentLanguage;
+
+    // Ranges do not apply to content that is decompressed on the way out
+    const range = storedGzip && !servedGzip ? undefined : parseRange(req.headers.range, content.length);
+    if (range) {
+        const part = content.subarray(range.start, range.end + 1);
+        res.writeHead(206, { ...headers, "Content-Range": `bytes ${range.start}-${range.end}/${content.length}`, "Content-Length": String(part.length) });
+        res.end(part);
+        return;
+    }
+    res.writeHead(200, { ...headers, "Content-Length": String(content.length) });
+    res.end(content);
+}
+
+// Whether a request presents the emulator's secret as its bearer token
+function isAuthorized(req: IncomingMessage, secret: string): boolean {
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const actual = Buffer.from(req.headers.authorization ?? "");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Start the emulator for a backend on a loopback port
+export async function startEmulator(backend: StorageBackend): Promise<Emulator> {
+    const store = createObjectStore(backend);
+    const secret = randomBytes(32).toString("base64url");
+    const uploads = new Map<string, UploadSession>();
+    let baseUrl = "";
+
+    const handleBuckets = async (req: IncomingMessage, res: ServerResponse, query: URLSearchParams) => {
+        if (req.method === "GET") {
+            const maxResults = int64Param(query, "maxResults");
+            const page = await store.listBuckets({
+                prefix: query.get("prefix") ?? undefined,
+                maxResults: maxResults !== undefined ? Number(maxResults) : undefined,
+                pageToken: query.get("pageToken") ?? undefined
+            });
+            sendJson(res, 200, { kind: "storage#buckets", items: page.items.map(bucketResource), nextPageToken: page.nextPageToken });
+        } else if (req.method === "POST") {
+            const body = parseJson(await readBody(req));
+            if (typeof body.name !== "string") throw invalid("A bucket name is required");
+            sendJson(res, 200, bucketResource(await store.createBucket(body as BucketRecord["metadata"])));
+        } else {
+            throw invalid(`Unsupported method ${req.method}`);
+        }
+    };
+
+    const handleBucket = async (req: IncomingMessage, res: ServerResponse, bucket: string, rest: string[], query: URLSearchParams) => {
+        const route = rest.join("/");
+        if (route === "") {
+            if (req.method === "GET") {
+                sendJson(res, 200, bucketResource(await store.getBucket(bucket)));
+            } else if (req.method === "PATCH" || req.method === "PUT") {
+                const updated = await store.patchBucket(bucket, parseJson(await readBody(req)), {
+                    ifMetagenerationMatch: int64Param(query, "ifMetagenerationMatch")
+                });
+                sendJson(res, 200, bucketResource(updated));
+            } else if (req.method === "DELETE") {
+                await store.deleteBucket(bucket);
+                res.writeHead(204).end();
+            } else {
+                throw invalid(`Unsupported method ${req.method}`);
+            }
+        } else if (route === "iam") {
+            if (req.method === "PUT") {
+                const body = parseJson(await readBody(req));
+                const current = await store.getBucket(bucket);
+                if (typeof body.etag === "string" && body.etag !== policyResource(current).etag) {
+                    throw new ToolError("PRECONDITION_FAILED", "The IAM policy was changed concurrently.", 412);
+                }
+                sendJson(res, 200, policyResource(await store.setBindings(bucket, Array.isArray(body.bindings) ? body.bindings : [])));
+            } else {
+                sendJson(res, 200, policyResource(await store.getBucket(bucket)));
+            }
+        } else if (route === "iam/testPermissions") {
+            await store.getBucket(bucket);
+            // Everything is permitted; the backend has no principals
+            sendJson(res, 200, { kind: "storage#testIamPermissionsResponse", permissions: query.getAll("permissions") });
+        } else if (route === "acl" || route === "defaultObjectAcl") {
+            await store.getBucket(bucket);
+            sendJson(res, 200, { kind: "storage#bucketAccessControls", items: [] });
+        } else if (route === "o") {
+            if (req.method !== "GET") throw invalid(`Unsupported method ${req.method}`);
+            const maxResults = int64Param(query, "maxResults");
+            const page = await store.listObjects(bucket, {
+                prefix: query.get("prefix") ?? undefined,
+                delimiter: query.get("delimiter") || undefined,
+                maxResults: maxResults !== undefined ? Number(maxResults) : undefined,
+                pageToken: query.get("pageToken") ?? undefined,
+                versions: query.get("versions") === "true",
+                matchGlob: query.get("matchGlob") ?? undefined,
+                startOffset: query.get("startOffset") ?? undefined,
+                endOffset: query.get("endOffset") ?? undefined,
+                includeTrailingDelimiter: query.get("includeTrailingDelimiter") === "true"
+            });
+            sendJson(res, 200, {
+                kind: "storage#objects",
+                items: page.items.length > 0 ? page.items.map(objectResource) : undefined,
+                prefixes: page.prefixes.length > 0 ? page.prefixes : undefined,
+                nextPageToken: page.nextPageToken
+            });
+        } else if (rest[0] === "o" && rest.length >= 2) {
+            await handleObject(req, res, bucket, rest[1], rest.slice(2), query);
+        } else {
+            sendJson(res, 404, { error: { code: 404, message: `Not found: ${route}` } });
+        }
+    };
+
+    const handleObject = async (
+        req: IncomingMessage,
+        res: ServerResponse,
+        bucket: string,
+        name: string,
+        rest: string[],
+        query: URLSearchParams
+    ) => {
+        const generation = int64Param(query, "generation");
+        if (rest.length === 0) {
+            if (req.method === "GET") {
+                const conditions = preconditions(query);
+                const object = await store.getObject(bucket, name, generation, conditions);
+                if (query.get("alt") === "media") {
+                    await sendMedia(req, res, store, object);
+                } else {
+                    sendJson(res, 200, objectResource(object));
+                }
+            } else if (req.method === "PATCH" || req.method === "PUT") {
+                const body = parseJson(await readBody(req));
+                sendJson(res, 200, objectResource(await store.patchObject(bucket, name, generation, settableFields(body), preconditions(query))));
+            } else if (req.method === "DELETE") {
+                await store.deleteObject(bucket, name, generation, preconditions(query));
+                res.writeHead(204).end();
+            } else {
+                throw invalid(`Unsupported method ${req.method}`);
+            }
+        } else if (rest[0] === "acl" && rest.length === 1) {
+            await store.getObject(bucket, name, generation);
+            sendJson(res, 200, { kind: "storage#objectAccessControls", items: [] });
+        } else if ((rest[0] === "rewriteTo" || rest[0] === "copyTo") && rest[1] === "b" && rest[3] === "o" && rest.length === 5) {
+            const body = parseJson(await readBody(req));
+            const object = await store.rewriteObject(
+                { bucket, name, generation: int64Param(query, "sourceGeneration") },
+                { bucket: rest[2], name: rest[4] },
+                settableFields(body),
+                preconditions(query)
+            );
+            if (rest[0] === "copyTo") {
+                sendJson(res, 200, objectResource(object));
+            } else {
+                sendJson(res, 200, {
+                    kind: "storage#rewriteResponse",
+                    totalBytesRewritten: object.size,
+                    objectSize: object.size,
+                    done: true,
+                    resource: objectResource(object)
+                });
+            }
+        } else if (rest[0] === "compose" && rest.length === 1) {
+            const body = parseJson(await readBody(req));
+            const sources = Array.isArray(body.sourceObjects) ? body.sourceObjects as { name?: unknown, generation?: unknown }[] : [];
+            const object = await store.composeObject(
+                bucket,
+                name,
+                sources.map(source => ({
+                    name: String(source.name),
+                    generation: source.generation !== undefined ? String(source.generation) : undefined
+                })),
+                settableFields(body.destination),
+                preconditions(query)
+            );
+            sendJson(res, 200, objectResource(object));
+        } else {
+            sendJson(res, 404, { error: { code: 404, message: `Not found: ${rest.join("/")}` } });
+        }
+    };
+
+    // Simple, multipart and resumable uploads
+    const handleUpload = async (req: IncomingMessage, res: ServerResponse, bucket: string, query: URLSearchParams) => {
+        const uploadId = query.get("upload_id");
+        if (uploadId) {
+            await continueUpload(req, res, uploadId);
+            return;
+        }
+
+        const uploadType = query.get("uploadType") ?? "media";
+        const body = await readBody(req);
+        const contentType = req.headers["content-type"];
+        if (uploadType === "resumable") {
+            const metadata = parseJson(body);
+            const name = query.get("name") ?? (typeof metadata.name === "string" ? metadata.name : undefined);
+            if (!name) throw invalid("An object name is required");
+            const uploadContentType = req.headers["x-upload-content-type"];
+            const fields = settableFields(metadata);
+            if (!fields.contentType && typeof uploadContentType === "string") fields.contentType = uploadContentType;
+
+            // Check the destination bucket and preconditions before the content is sent
+            await store.getBucket(bucket);
+            for (const [id, session] of uploads) {
+                if (Date.now() - session.startedAt > UPLOAD_SESSION_MS) uploads.delete(id);
+            }
+            const id = randomUUID();
+            uploads.set(id, { bucket, name, fields, conditions: preconditions(query), chunks: [], received: 0, startedAt: Date.now() });
+            const location = `${baseUrl}/upload/storage/v1/b/${encodeURIComponent(bucket)}/o?uploadType=resumable&upload_id=${id}`;
+            res.writeHead(200, { Location: location, "Content-Length": "0" }).end();
+        } else if (uploadType === "multipart") {
+            const { metadata, media, mediaType } = parseMultipart(body, String(contentType ?? ""));
+            const name = query.get("name") ?? (typeof metadata.name === "string" ? metadata.name : undefined);
+            if (!name) throw invalid("An object name is required");
+            const fields = settableFields(metadata);
+            if (!fields.contentType && mediaType) fields.contentType = mediaType;
+            sendJson(res, 200, objectResource(await store.insertObject(bucket, name, media, fields, preconditions(query))));
+        } else if (uploadType === "media") {
+            const name = query.get("name");
+            if (!name) throw invalid("An object name is required");
+            const fields: ObjectFields = contentType ? { contentType } : {};
+            sendJson(res, 200, objectResource(await store.insertObject(bucket, name, body, fields, preconditions(query))));
+        } else {
+            throw invalid(`Unsupported uploadType ${uploadType}`);
+        }
+    };
+
+    // A chunk or status query of a resumable upload. Incomplete uploads are
+    // answered with 308 and the range received so far.
+    const continueUpload = async (req: IncomingMessage, res: ServerResponse, id: string) => {
+        const session = uploads.get(id);
+        if (!session) throw new ToolError("NOT_FOUND", "No such upload session.", 404);
+
+        if (req.method === "DELETE") {
+            uploads.delete(id);
+            res.writeHead(499, { "Content-Length": "0" }).end();
+            return;
+        }
+
+        const body = await readBody(req);
+        if (session.result) {
+            sendJson(res, 200, objectResource(session.result));
+            return;
+        }
+
+        const header = req.headers["content-range"];
+        const range = header ? /^bytes (?:(\d+)-(\d+|\*)|\*)\/(\d+|\*)$/.exec(header.trim()) : null;
+        if (header && !range) throw invalid(`Invalid Content-Range: ${header}`);
+
+        if (range?.[1] !== undefined) {
+            const offset = Number(range[1]);
+            if (offset <= session.received) {
+                // Bytes sent again after a lost response are dropped
+                const fresh = body.subarray(session.received - offset);
+                session.chunks.push(fresh);
+                session.received += fresh.length;
+            }
+        } else if (!header) {
+            session.chunks.push(body);
+            session.received += body.length;
+        }
+
+        const total = range?.[3];
+        const complete = !header ||
+            (total !== undefined && total !== "*" && session.received >= Number(total)) ||
+            (range?.[2] === "*" && total === "*");
+        if (!complete) {
+            const headers: Record<string, string> = { "Content-Length": "0" };
+            if (session.received > 0) headers.Range = `bytes=0-${session.received - 1}`;
+            res.writeHead(308, headers).end();
+            return;
+        }
+
+        const content = Buffer.concat(session.chunks);
+        session.result = await store.insertObject(session.bucket, session.name, content, session.fields, session.conditions);
+        session.chunks = [];
+        sendJson(res, 200, objectResource(session.result));
+    };
+
+    const handle = async (req: IncomingMessage, res: ServerResponse) => {
+        if (!isAuthorized(req, secret)) {
+            throw new ToolError("UNAUTHENTICATED", "The request does not carry the emulator's secret");
+        }
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const segments = url.pathname.split("/").slice(1).map(segment => decodeURIComponent(segment));
+        const query = url.searchParams;
+
+        if (segments[0] === "upload" && segments[1] === "storage" && segments[3] === "b" && segments[5] === "o" && segments.length === 6) {
+            await handleUpload(req, res, segments[4], query);
+        } else if (segments[0] === "storage" && segments[2] === "b" && segments.length === 3) {
+            await handleBuckets(req, res, query);
+        } else if (segments[0] === "storage" && segments[2] === "b" && segments.length > 3) {
+            await handleBucket(req, res, segments[3], segments.slice(4), query);
+        } else {
+            sendJson(res, 404, { error: { code: 404, message: `Not found: ${url.pathname}` } });
+        }
+    };
+
+    const server = http.createServer((req, res) => {
+        handle(req, res).catch(error => {
+            if (res.headersSent) {
+                res.end();
+            } else {
+                sendError(res, error);
+            }
+        });
+    });
+    await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(0, "127.0.0.1", () => resolve());
+    });
+    // The emulator never keeps the process alive on its own
+    server.unref();
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        url: baseUrl,
+        secret,
+        close: () => new Promise<void>((resolve, reject) => server.close(error => error ? reject(error) : resolve()))
+    };
+}
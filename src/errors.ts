@@ -0,0 +1,166 @@
+/**
+ * Typed tool errors and retry settings.
+ *
+ * Failures carry a stable code so callers can tell a missing object from a
+ * permission problem, a failed precondition or a transient outage. Cloud
+ * Storage errors are classified by their HTTP status, and the same
+ * classification decides which requests the client library retries.
+ */
+
+import { IdempotencyStrategy, StorageOptions } from "@google-cloud/storage";
+import { z } from "zod";
+
+export type ErrorCode =
+    | "INVALID_ARGUMENT"
+    | "UNAUTHENTICATED"
+    | "PERMISSION_DENIED"
+    | "POLICY_DENIED"
+    | "NOT_FOUND"
+    | "ALREADY_EXISTS"
+    | "CONFLICT"
+    | "PRECONDITION_FAILED"
+    | "OUT_OF_RANGE"
+    | "LIMIT_EXCEEDED"
+    | "CHECKSUM_MISMATCH"
+    | "NOT_CONFIGURED"
+    | "RATE_LIMITED"
+    | "DEADLINE_EXCEEDED"
+    | "UNAVAILABLE"
+    | "CANCELLED"
+    | "UNKNOWN_TOOL"
+    | "INTERNAL";
+
+// Codes of failures that may succeed when the call is repeated later
+const RETRYABLE_CODES = new Set<ErrorCode>(["RATE_LIMITED", "DEADLINE_EXCEEDED", "UNAVAILABLE"]);
+
+// Cloud Storage HTTP statuses and the codes they are reported as
+const STATUS_CODES: Record<number, ErrorCode> = {
+    400: "INVALID_ARGUMENT",
+    401: "UNAUTHENTICATED",
+    403: "PERMISSION_DENIED",
+    404: "NOT_FOUND",
+    408: "DEADLINE_EXCEEDED",
+    409: "CONFLICT",
+    412: "PRECONDITION_FAILED",
+    416: "OUT_OF_RANGE",
+    429: "RATE_LIMITED",
+    500: "UNAVAILABLE",
+    502: "UNAVAILABLE",
+    503: "UNAVAILABLE",
+    504: "UNAVAILABLE"
+};
+
+// Node.js system error codes from network and local file operations, the
+// client library's codes for transfers that failed checksum validation, and
+// the code of streams destroyed by a cancelled request's abort signal
+const NAMED_CODES: Record<string, ErrorCode> = {
+    ECONNRESET: "UNAVAILABLE",
+    ECONNREFUSED: "UNAVAILABLE",
+    EPIPE: "UNAVAILABLE",
+    EAI_AGAIN: "UNAVAILABLE",
+    ETIMEDOUT: "DEADLINE_EXCEEDED",
+    ESOCKETTIMEDOUT: "DEADLINE_EXCEEDED",
+    ENOENT: "NOT_FOUND",
+    EEXIST: "ALREADY_EXISTS",
+    EACCES: "PERMISSION_DENIED",
+    EPERM: "PERMISSION_DENIED",
+    ENOTDIR: "INVALID_ARGUMENT",
+    EISDIR: "INVALID_ARGUMENT",
+    CONTENT_DOWNLOAD_MISMATCH: "CHECKSUM_MISMATCH",
+    FILE_NO_UPLOAD: "CHECKSUM_MISMATCH",
+    FILE_NO_UPLOAD_DELETE: "CHECKSUM_MISMATCH",
+    ABORT_ERR: "CANCELLED"
+};
+
+// A failure with a stable code, and the HTTP status it came from if any
+export class ToolError extends Error {
+    readonly code: ErrorCode;
+    readonly status?: number;
+
+    constructor(code: ErrorCode, message: string, status?: number) {
+        super(message);
+        this.name = "ToolError";
+        this.code = code;
+        this.status = status;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_CODES.has(this.code);
+    }
+}
+
+// HTTP status of a Cloud Storage or auth error, which may be a number or a numeric string
+function httpStatus(error: { code?: unknown, status?: unknown, response?: { status?: unknown } }): number | undefined {
+    for (const value of [error.code, error.status, error.response?.status]) {
+        if (typeof value === "number") return value;
+        if (typeof value === "string" && /^\d{3}$/.test(value)) return Number(value);
+    }
+    return undefined;
+}
+
+// Classify any error thrown while running a tool
+export function toToolError(error: unknown): ToolError {
+    if (error instanceof ToolError) return error;
+
+    if (error instanceof z.ZodError) {
+        return new ToolError("INVALID_ARGUMENT", error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", "));
+    }
+
+    const details = (error !== null && typeof error === "object" ? error : {}) as {
+        code?: unknown, status?: unknown, response?: { status?: unknown }, message?: unknown
+    };
+    const message = typeof details.message === "string" ? details.message : String(error);
+
+    const status = httpStatus(details);
+    if (status !== undefined) {
+        return new ToolError(STATUS_CODES[status] ?? (status >= 500 ? "UNAVAILABLE" : "INTERNAL"), message, status);
+    }
+    if (typeof details.code === "string" && NAMED_CODES[details.code]) {
+        return new ToolError(NAMED_CODES[details.code], message);
+    }
+    return new ToolError("INTERNAL", message);
+}
+
+// Whether a failed request is worth retrying
+export function isRetryable(error: unknown): boolean {
+    return toToolError(error).retryable;
+}
+
+// The fields of an error result that describe the failure
+export function describeError(error: ToolError) {
+    return {
+        code: error.code,
+        status: error.status,
+        retryable: error.retryable,
+        message: error.message
+    };
+}
+
+export const RetryConfigSchema = z.object({
+    // Retries after the first attempt; 0 turns retrying off
+    maxRetries: z.number().int().min(0).max(20).optional().default(3),
+    // Each delay is this many times longer than the one before, starting at about one second
+    delayMultiplier: z.number().min(1).optional().default(2),
+    // Longest delay between two attempts
+    maxDelaySeconds: z.number().min(1).optional().default(64),
+    // Stop retrying once this long has passed since the first attempt
+    totalTimeoutSeconds: z.number().min(1).optional().default(600),
+    // Also retry requests that are not idempotent, such as writes without a generation precondition
+    retryNonIdempotent: z.boolean().optional().default(false)
+}).strict();
+
+export type RetryConfig = z.infer<typeof RetryConfigSchema>;
+
+// Retry options for the Cloud Storage client. Requests that fail with a
+// retryable code are repeated with exponential backoff and jitter.
+export function storageRetryOptions(config: RetryConfig): NonNullable<StorageOptions["retryOptions"]> {
+    return {
+        autoRetry: config.maxRetries > 0,
+        maxRetries: config.maxRetries,
+        retryDelayMultiplier: config.delayMultiplier,
+        maxRetryDelay: config.maxDelaySeconds,
+        totalTimeout: config.totalTimeoutSeconds,
+        idempotencyStrategy: config.retryNonIdempotent ? IdempotencyStrategy.RetryAlways : IdempotencyStrategy.RetryConditional,
+        retryableErrorFn: isRetryable
+    };
+}
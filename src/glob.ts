@@ -0,0 +1,53 @@
+/**
+ * Minimal glob matching for bucket and object names.
+ *
+ * Supported syntax: `**` matches any characters including `/` (and with a
+ * slash after it, zero or more directories), `*` matches any characters except
+ * `/`, `?` matches one character except `/`, and `[...]` matches a character class.
+ */
+
+// Convert a glob pattern to a regular expression. With `prefix` set, the
+// pattern only has to match the beginning of the name.
+export function globToRegExp(pattern: string, options: { prefix?: boolean } = {}): RegExp {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "*") {
+            if (pattern[i + 1] === "*" && pattern[i + 2] === "/") {
+                source += "(?:.*/)?";
+                i += 2;
+            } else if (pattern[i + 1] === "*") {
+                source += ".*";
+                i++;
+            } else {
+                source += "[^/]*";
+            }
+        } else if (char === "?") {
+            source += "[^/]";
+        } else if (char === "[") {
+            const close = pattern.indexOf("]", i + 1);
+            if (close < 0) {
+                source += "\\[";
+            } else {
+                let body = pattern.slice(i + 1, close);
+                if (body.startsWith("!")) body = "^" + body.slice(1);
+                source += `[${body.replace(/\\/g, "\\\\")}]`;
+                i = close;
+            }
+        } else {
+            source += char.replace(/[.+^${}()|\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}${options.prefix ? "" : "$"}`);
+}
+
+// Whether a name matches a glob pattern
+export function matchesGlob(name: string, pattern: string): boolean {
+    return globToRegExp(pattern).test(name);
+}
+
+// The literal leading part of a glob, before its first wildcard
+export function literalPrefix(pattern: string): string {
+    const index = pattern.search(/[*?[]/);
+    return index < 0 ? pattern : pattern.slice(0, index);
+}
@@ -0,0 +1,294 @@
+/**
+ * HTTP transports.
+ *
+ * Instead of stdio, the server can listen on HTTP so a team can share one
+ * instance that holds the credentials. Clients connect over Streamable HTTP
+ * at the MCP endpoint, or over the legacy SSE transport, and authenticate
+ * with a bearer token or API key. Every session gets its own MCP server,
+ * built for the token that opened it.
+ */
+
+import http, { IncomingMessage, ServerResponse } from "http";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ProjectPolicySchema } from "./policy.js";
+
+export const HttpTokenSchema = z.object({
+    // Name of the client, recorded in the audit log
+    name: z.string().min(1),
+    // The secret itself, or the environment variable that holds it
+    token: z.string().min(16).optional(),
+    tokenEnv: z.string().min(1).optional(),
+    // Projects (names or aliases) the token may use; all projects by default
+    projects: z.array(z.string().min(1)).optional(),
+    // Project used when a call names none; defaults to the server's default project if
+    // the token may use it, and to its first project otherwise
+    defaultProject: z.string().min(1).optional(),
+    // Policy applied to the token's calls on top of the server's own policy
+    policy: ProjectPolicySchema.optional()
+}).strict().refine(token => (token.token === undefined) !== (token.tokenEnv === undefined), {
+    message: "Exactly one of token and tokenEnv must be set"
+});
+
+export const HttpConfigSchema = z.object({
+    host: z.string().min(1).optional().default("127.0.0.1"),
+    port: z.number().int().min(0).max(65535).optional().default(8080),
+    // Path of the Streamable HTTP endpoint
+    path: z.string().startsWith("/").optional().default("/mcp"),
+    // Also serve the legacy SSE transport at /sse, with messages posted to /messages
+    legacySse: z.boolean().optional().default(true),
+    // Sessions without requests for this long are closed
+    sessionIdleSeconds: z.number().int().min(1).optional().default(1800),
+    tokens: z.array(HttpTokenSchema).optional().default([])
+}).strict();
+
+export type HttpToken = z.infer<typeof HttpTokenSchema>;
+export type HttpConfig = z.infer<typeof HttpConfigSchema>;
+
+// A token with its secret resolved
+export interface HttpClient extends HttpToken {
+    secret: string;
+}
+
+export interface HttpServerOptions {
+    config: HttpConfig;
+    clients: HttpClient[];
+    // Build the MCP server for a new session of an authenticated client
+    createServer: (client: HttpClient) => Server;
+    // Details reported by the health endpoint besides the status and session count
+    health: () => Record<string, unknown>;
+}
+
+interface Session {
+    client: string;
+    server: Server;
+    transport: StreamableHTTPServerTransport | SSEServerTransport;
+    lastSeen: number;
+}
+
+// Paths of the legacy SSE transport
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+const HEALTH_PATH = "/healthz";
+
+// Largest request body accepted; uploadFile and appendUploadChunk carry content inline
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+// How often idle sessions are looked for
+const SESSION_SWEEP_MS = 60 * 1000;
+
+// Resolve the secret of every configured token
+export function resolveClients(tokens: HttpToken[]): HttpClient[] {
+    return tokens.map(token => {
+        const secret = token.token ?? process.env[token.tokenEnv!];
+        if (!secret) {
+            throw new Error(`Environment variable ${token.tokenEnv} of token ${token.name} is not set`);
+        }
+        return { ...token, secret };
+    });
+}
+
+function digest(value: string): Buffer {
+    return createHash("sha256").update(value).digest();
+}
+
+// Secret presented as "Authorization: Bearer <token>" or "X-API-Key: <key>"
+function presentedSecret(req: IncomingMessage): string | undefined {
+    const authorization = req.headers.authorization;
+    if (authorization?.toLowerCase().startsWith("bearer ")) {
+        return authorization.slice("bearer ".length).trim();
+    }
+    const apiKey = req.headers["x-api-key"];
+    return typeof apiKey === "string" ? apiKey.trim() : undefined;
+}
+
+// Find the client whose secret was presented, comparing digests in constant time
+function authenticate(req: IncomingMessage, clients: HttpClient[]): HttpClient | undefined {
+    const secret = presentedSecret(req);
+    if (!secret) return undefined;
+    const presented = digest(secret);
+    let match: HttpClient | undefined;
+    for (const client of clients) {
+        if (timingSafeEqual(presented, digest(client.secret))) match = client;
+    }
+    return match;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+}
+
+// Reply with a JSON-RPC error that is not tied to a request
+function sendRpcError(res: ServerResponse, status: number, code: number, message: string, headers?: Record<string, string>) {
+    sendJson(res, status, { jsonrpc: "2.0", error: { code, message }, id: null }, headers);
+}
+
+// Read and parse a JSON request body, or reply with an error and return nothing
+async function readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<{ body: unknown } | undefined> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            sendRpcError(res, 413, -32600, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+            return undefined;
+        }
+        chunks.push(chunk);
+    }
+    try {
+        return { body: JSON.parse(Buffer.concat(chunks).toString("utf8")) };
+    } catch {
+        sendRpcError(res, 400, -32700, "Parse error: request body is not valid JSON");
+        return undefined;
+    }
+}
+
+// Listen on HTTP, serving Streamable HTTP, the legacy SSE transport and a health endpoint
+export async function startHttpServer(options: HttpServerOptions): Promise<http.Server> {
+    const { config, clients } = options;
+    const sessions = new Map<string, Session>();
+
+    const closeSession = async (sessionId: string) => {
+        const session = sessions.get(sessionId);
+        if (!session) return;
+        sessions.delete(sessionId);
+        await session.server.close().catch(error => console.error(`Error closing session ${sessionId}:`, error));
+    };
+
+    // The session a request belongs to, if it exists and was opened by the same client
+    const sessionFor = (sessionId: string | undefined, client: HttpClient): Session | undefined => {
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+        if (!session || session.client !== client.name) return undefined;
+        session.lastSeen = Date.now();
+        return session;
+    };
+
+    const handleStreamable = async (req: IncomingMessage, res: ServerResponse, client: HttpClient) => {
+        let body: unknown;
+        if (req.method === "POST") {
+            const parsed = await readJsonBody(req, res);
+            if (!parsed) return;
+            body = parsed.body;
+        }
+
+        const sessionId = req.headers["mcp-session-id"];
+        if (typeof sessionId === "string") {
+            const session = sessionFor(sessionId, client);
+            if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+                sendRpcError(res, 404, -32001, "Session not found");
+                return;
+            }
+            await session.transport.handleRequest(req, res, body);
+            return;
+        }
+
+        if (req.method !== "POST" || !isInitializeRequest(body)) {
+            sendRpcError(res, 400, -32000, "Bad Request: no valid session ID provided");
+            return;
+        }
+
+        const server = options.createServer(client);
+        const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: (id) => {
+                sessions.set(id, { client: client.name, server, transport, lastSeen: Date.now() });
+            }
+        });
+        transport.onclose = () => {
+            if (transport.sessionId) sessions.delete(transport.sessionId);
+        };
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+    };
+
+    const handleSseStream = async (res: ServerResponse, client: HttpClient) => {
+        const server = options.createServer(client);
+        const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+        sessions.set(transport.sessionId, { client: client.name, server, transport, lastSeen: Date.now() });
+        res.on("close", () => { void closeSession(transport.sessionId); });
+        await server.connect(transport);
+    };
+
+    const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL, client: HttpClient) => {
+        const session = sessionFor(url.searchParams.get("sessionId") ?? undefined, client);
+        if (!session || !(session.transport instanceof SSEServerTransport)) {
+            sendRpcError(res, 404, -32001, "Session not found");
+            return;
+        }
+        const parsed = await readJsonBody(req, res);
+        if (!parsed) return;
+        await session.transport.handlePostMessage(req, res, parsed.body);
+    };
+
+    const handle = async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+
+        if (url.pathname === HEALTH_PATH && req.method === "GET") {
+            sendJson(res, 200, { status: "ok", sessions: sessions.size, ...options.health() });
+            return;
+        }
+
+        const isStreamable = url.pathname === config.path;
+        const isSse = config.legacySse && (url.pathname === SSE_PATH || url.pathname === SSE_MESSAGES_PATH);
+        if (!isStreamable && !isSse) {
+            sendJson(res, 404, { error: "Not found" });
+            return;
+        }
+
+        const client = authenticate(req, clients);
+        if (!client) {
+            sendRpcError(res, 401, -32001, "Unauthorized: a valid bearer token or API key is required", {
+                "WWW-Authenticate": "Bearer"
+            });
+            return;
+        }
+
+        if (isStreamable) {
+            await handleStreamable(req, res, client);
+        } else if (url.pathname === SSE_PATH && req.method === "GET") {
+            await handleSseStream(res, client);
+        } else if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+            await handleSseMessage(req, res, url, client);
+        } else {
+            sendJson(res, 405, { error: "Method not allowed" }, { Allow: url.pathname === SSE_PATH ? "GET" : "POST" });
+        }
+    };
+
+    const httpServer = http.createServer((req, res) => {
+        handle(req, res).catch(error => {
+            console.error("Error handling HTTP request:", error);
+            if (!res.headersSent) {
+                sendRpcError(res, 500, -32603, "Internal server error");
+            } else {
+                res.end();
+            }
+        });
+    });
+
+    // Close sessions whose client has gone quiet
+    const sweep = setInterval(() => {
+        const cutoff = Date.now() - config.sessionIdleSeconds * 1000;
+        for (const [sessionId, session] of sessions) {
+            if (session.lastSeen < cutoff) void closeSession(sessionId);
+        }
+    }, SESSION_SWEEP_MS);
+    sweep.unref();
+    httpServer.on("close", () => {
+        clearInterval(sweep);
+        for (const sessionId of [...sessions.keys()]) void closeSession(sessionId);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(config.port, config.host, () => {
+            httpServer.off("error", reject);
+            resolve();
+        });
+    });
+    return httpServer;
+}
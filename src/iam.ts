@@ -0,0 +1,169 @@
+/**
+ * Helpers for bucket IAM policies, object ACLs and public exposure checks.
+ */
+
+import { Bucket, BucketMetadata, Policy } from "@google-cloud/storage";
+
+type PolicyBinding = Policy["bindings"][number];
+
+// An entry of a bucket, default object or object ACL
+export interface AclEntry {
+    entity: string;
+    role: string;
+}
+
+// IAM members and ACL entities that grant access to anyone on the internet or any Google account
+export const PUBLIC_MEMBERS = ["allUsers", "allAuthenticatedUsers"];
+
+// Permissions checked by testBucketPermissions when none are given
+export const DEFAULT_TEST_PERMISSIONS = [
+    "storage.buckets.get",
+    "storage.buckets.update",
+    "storage.buckets.getIamPolicy",
+    "storage.buckets.setIamPolicy",
+    "storage.objects.list",
+    "storage.objects.get",
+    "storage.objects.create",
+    "storage.objects.delete",
+    "storage.objects.update"
+];
+
+// IAM policy version that includes conditional bindings
+export const IAM_POLICY_VERSION = 3;
+
+export interface BindingChange {
+    action: "add" | "remove";
+    role: string;
+    members: string[];
+}
+
+// Read a bucket's IAM policy including conditional bindings
+export async function getBucketPolicy(bucket: Bucket): Promise<Policy> {
+    const [policy] = await bucket.iam.getPolicy({ requestedPolicyVersion: IAM_POLICY_VERSION });
+    return policy;
+}
+
+// Apply a binding change to a copy of a policy. Only unconditional bindings
+// are edited; conditional bindings for the same role are left alone.
+export function applyBindingChange(policy: Policy, change: BindingChange): Policy {
+    const bindings: PolicyBinding[] = policy.bindings.map(binding => ({ ...binding, members: [...binding.members] }));
+    let binding = bindings.find(candidate => candidate.role === change.role && !candidate.condition);
+
+    if (change.action === "add") {
+        if (!binding) {
+            binding = { role: change.role, members: [] };
+            bindings.push(binding);
+        }
+        for (const member of change.members) {
+            if (!binding.members.includes(member)) binding.members.push(member);
+        }
+    } else if (binding) {
+        binding.members = binding.members.filter(member => !change.members.includes(member));
+    }
+
+    return {
+        ...policy,
+        version: IAM_POLICY_VERSION,
+        bindings: bindings.filter(candidate => candidate.members.length > 0)
+    };
+}
+
+// Members gained and lost per role between two policies
+export function diffPolicies(before: Policy, after: Policy) {
+    const membersByRole = (policy: Policy) => {
+        const roles = new Map<string, Set<string>>();
+        for (const binding of policy.bindings) {
+            const key = binding.condition ? `${binding.role} (condition: ${binding.condition.title ?? binding.condition.expression})` : binding.role;
+            const members = roles.get(key) ?? new Set<string>();
+            binding.members.forEach(member => members.add(member));
+            roles.set(key, members);
+        }
+        return roles;
+    };
+
+    const beforeRoles = membersByRole(before);
+    const afterRoles = membersByRole(after);
+    const changes: Record<string, { added: string[], removed: string[] }> = {};
+    for (const role of new Set([...beforeRoles.keys(), ...afterRoles.keys()])) {
+        const beforeMembers = beforeRoles.get(role) ?? new Set<string>();
+        const afterMembers = afterRoles.get(role) ?? new Set<string>();
+        const added = [...afterMembers].filter(member => !beforeMembers.has(member));
+        const removed = [...beforeMembers].filter(member => !afterMembers.has(member));
+        if (added.length > 0 || removed.length > 0) {
+            changes[role] = { added, removed };
+        }
+    }
+    return changes;
+}
+
+// Read a bucket's ACL and default object ACL. Buckets with uniform
+// bucket-level access have no ACLs, so both are empty.
+export async function getBucketAcls(bucket: Bucket, metadata: BucketMetadata): Promise<{ bucket: AclEntry[], defaultObject: AclEntry[] }> {
+    if (metadata.iamConfiguration?.uniformBucketLevelAccess?.enabled) {
+        return { bucket: [], defaultObject: [] };
+    }
+    const [bucketAcl] = await bucket.acl.get();
+    const [defaultObjectAcl] = await bucket.acl.default.get();
+    return {
+        bucket: ([] as AclEntry[]).concat(bucketAcl as AclEntry | AclEntry[]),
+        defaultObject: ([] as AclEntry[]).concat(defaultObjectAcl as AclEntry | AclEntry[])
+    };
+}
+
+// Findings for a single bucket, in the order they are most likely to matter
+export function bucketExposureFindings(
+    metadata: BucketMetadata,
+    policy: Policy | undefined,
+    acls: { bucket: AclEntry[], defaultObject: AclEntry[] }
+) {
+    const findings: { severity: "high" | "medium" | "low", issue: string, detail: string }[] = [];
+
+    for (const binding of policy?.bindings ?? []) {
+        const publicMembers = binding.members.filter(member => PUBLIC_MEMBERS.includes(member));
+        if (publicMembers.length > 0) {
+            findings.push({
+                severity: "high",
+                issue: "publicIamBinding",
+                detail: `${binding.role} is granted to ${publicMembers.join(", ")}${binding.condition ? " (conditional)" : ""}`
+            });
+        }
+    }
+
+    for (const entry of acls.defaultObject) {
+        if (PUBLIC_MEMBERS.includes(entry.entity)) {
+            findings.push({
+                severity: "high",
+                issue: "publicDefaultObjectAcl",
+                detail: `New objects grant ${entry.role} to ${entry.entity} by default`
+            });
+        }
+    }
+
+    for (const entry of acls.bucket) {
+        if (PUBLIC_MEMBERS.includes(entry.entity)) {
+            findings.push({
+                severity: "high",
+                issue: "publicBucketAcl",
+                detail: `The bucket ACL grants ${entry.role} to ${entry.entity}`
+            });
+        }
+    }
+
+    if (metadata.iamConfiguration?.publicAccessPrevention !== "enforced") {
+        findings.push({
+            severity: "medium",
+            issue: "publicAccessPreventionNotEnforced",
+            detail: `Public access prevention is ${metadata.iamConfiguration?.publicAccessPrevention ?? "inherited"}`
+        });
+    }
+
+    if (!metadata.iamConfiguration?.uniformBucketLevelAccess?.enabled) {
+        findings.push({
+            severity: "low",
+            issue: "fineGrainedAccess",
+            detail: "Uniform bucket-level access is disabled, so object ACLs can grant access independently of IAM"
+        });
+    }
+
+    return findings;
+}
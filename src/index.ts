@@ -5,629 +5,3434 @@
  * 
  * This server provides a Model Context Protocol interface for Google Cloud Storage.
  * 
+ * Configuration is read from a JSON or YAML file given by --config <path> or
+ * CLOUDSTORAGE_MCP_CONFIG. Without a config file, projects come from
+ * GOOGLE_CLOUD_PROJECTS with a key file per project in the keys directory.
+ * 
  * Environment variables:
+ * - CLOUDSTORAGE_MCP_CONFIG: Path to the config file
  * - GOOGLE_CLOUD_PROJECTS: Comma-separated list of project-ids
  *   Example: "google-project-id1,google-project-id2"
+ * - MAX_INLINE_BYTES: Maximum number of bytes downloadFile returns inline (default 1048576)
+ * - MAX_SIGNED_URL_SECONDS: Maximum lifetime of signed URLs in seconds (default 86400, max 604800)
+ * - ACCESS_POLICY_FILE: Path to a JSON file with per-project access policies
+ * - RESOURCE_POLL_SECONDS: How often subscribed resources are checked for changes (default 30)
+ * - ALLOWED_LOCAL_ROOTS: Directories (separated by the platform path delimiter, ':' on
+ *   Linux/macOS) that uploadFromPath, downloadToPath and the sync tools may read from and write to
+ * - MCP_TRANSPORT: stdio (default) or http; also set with --transport
+ * - HTTP_HOST, HTTP_PORT: Address the HTTP transport listens on (default 127.0.0.1:8080)
+ * - HTTP_AUTH_TOKENS: Comma-separated tokens accepted by the HTTP transport for every project
+ * - STORAGE_BACKEND: Serve the GOOGLE_CLOUD_PROJECTS projects from "memory" or from
+ *   "local:<directory>" (a subdirectory per project) instead of Cloud Storage
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
     CallToolRequestSchema,
+    CallToolResult,
     ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
-import { Storage } from "@google-cloud/storage";
+import { Storage, CombineOptions, CreateWriteStreamOptions, File, FileMetadata, GetFilesOptions, GetSignedUrlConfig } from "@google-cloud/storage";
 import path from "path";
 import { fileURLToPath } from "url";
 import fs from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { AddressInfo } from "net";
+import { contentTypeFor, isGzipped, isTextContent, readObject } from "./content.js";
+import { parseAllowedRoots, resolveLocalPath } from "./localPaths.js";
+import { mapWithConcurrency } from "./concurrency.js";
+import { iterateFiles } from "./listing.js";
+import {
+    detectDelimiter,
+    detectPreviewFormat,
+    estimateRecordCount,
+    previewDelimited,
+    previewNdjson,
+    renderImagePreview,
+    summarizeJson,
+    TablePreview
+} from "./preview.js";
+import { buildSearchPattern, ObjectSearchResult, SearchBudget, searchObject } from "./search.js";
+import { copyObject, CopyObjectResult } from "./transfer.js";
+import { BulkOperation, BulkPlan, createBulkPlan, executeBulkPlan, findBulkPlan, takeBulkPlan } from "./bulk.js";
+import { buildStorageReport, DEFAULT_STORAGE_PRICES } from "./report.js";
+import { createArchive, detectArchiveFormat, extractArchive } from "./archive.js";
+import { openAuditLog } from "./audit.js";
+import {
+    discardTrashed,
+    isInTrash,
+    listTrash,
+    moveToTrash,
+    originalNameOf,
+    restoreFromTrash,
+    TrashConfig,
+    TrashConfigSchema,
+    TrashedObject,
+    TrashHook,
+    trashLocation
+} from "./trash.js";
+import {
+    abortUploadSession,
+    appendUploadChunk,
+    describeUploadSession,
+    findUploadSession,
+    finishUploadSession,
+    startUploadSession
+} from "./uploads.js";
+import { createSyncPlan, executeSyncPlan, findSyncPlan, normalizeSyncPrefix, SyncPlan, takeSyncPlan } from "./sync.js";
+import { AccessPolicy, AccessTarget, enforceAccessPolicy, isBucketAllowed, isPermissionAllowed, isToolVisible, loadAccessPolicy, PolicyError } from "./policy.js";
+import { HttpClient, HttpConfig, HttpConfigSchema, resolveClients, startHttpServer } from "./http.js";
+import { literalPrefix } from "./glob.js";
+import {
+    closeStorageClient,
+    configFromEnv,
+    createStorageClient,
+    loadConfigFile,
+    parseBackendSetting,
+    ProjectConfig,
+    ProjectSettingsSchema,
+    refineBackend,
+    ServerConfig
+} from "./config.js";
+import { BackendConfig } from "./backend.js";
+import { checkCredentials } from "./credentials.js";
+import { registerResourceHandlers } from "./resources.js";
+import {
+    applyBucketPatch,
+    buildBucketPatch,
+    CorsRuleSchema,
+    diffBucketConfig,
+    LifecycleRuleSchema,
+    summarizeBucketConfig
+} from "./bucketConfig.js";
+import {
+    applyBindingChange,
+    bucketExposureFindings,
+    DEFAULT_TEST_PERMISSIONS,
+    diffPolicies,
+    getBucketAcls,
+    getBucketPolicy
+} from "./iam.js";
+import { RetryConfig, RetryConfigSchema, toToolError, ToolError } from "./errors.js";
+import { defineTool, errorResult, listedTool, runTool, ToolContext, ToolDefinition } from "./tools.js";
+import { checkCancelled, countBytes, progressReporter } from "./progress.js";
+import {
+    AbortUploadResultSchema,
+    AddProjectResultSchema,
+    AppendUploadChunkResultSchema,
+    BulkPlanResultSchema,
+    CheckCredentialsResultSchema,
+    ComposeFilesResultSchema,
+    ConfirmBulkOperationResultSchema,
+    ConfirmSyncResultSchema,
+    CreateArchiveResultSchema,
+    CreateBucketResultSchema,
+    DeleteBucketResultSchema,
+    DeleteFileResultSchema,
+    DownloadFileResultSchema,
+    DownloadToPathResultSchema,
+    ExtractArchiveResultSchema,
+    FindPublicExposureResultSchema,
+    FinishUploadResultSchema,
+    GenerateSignedUrlResultSchema,
+    GetBucketConfigResultSchema,
+    GetBucketIamPolicyResultSchema,
+    GetBucketResultSchema,
+    GetFileAclResultSchema,
+    GetFileResultSchema,
+    ListBucketsResultSchema,
+    ListFileVersionsResultSchema,
+    ListFilesResultSchema,
+    ListProjectsResultSchema,
+    ListTrashResultSchema,
+    PreviewFileResultSchema,
+    RelocateResultSchema,
+    ReloadCredentialsResultSchema,
+    RemoveProjectResultSchema,
+    RestoreFileVersionResultSchema,
+    RestoreFromTrashResultSchema,
+    SearchFilesResultSchema,
+    SetFileMetadataResultSchema,
+    StartUploadResultSchema,
+    StorageReportResultSchema,
+    SyncPlanResultSchema,
+    TestBucketPermissionsResultSchema,
+    UpdateBucketConfigResultSchema,
+    UpdateBucketIamBindingResultSchema,
+    UploadFileResultSchema,
+    UploadFromPathResultSchema
+} from "./results.js";
 
 // Get the directory name
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const keysDir = path.resolve(__dirname, "..", "keys");
 
+// Path of the optional config file, from --config <path> or CLOUDSTORAGE_MCP_CONFIG
+const configFlagIndex = process.argv.indexOf("--config");
+const configPath = configFlagIndex >= 0 ?
+    process.argv[configFlagIndex + 1] :
+    process.env.CLOUDSTORAGE_MCP_CONFIG;
+
 // Parse project IDs from GOOGLE_CLOUD_PROJECTS environment variable
-const projects: string[] = process.env.GOOGLE_CLOUD_PROJECTS ? 
+const envProjects: string[] = process.env.GOOGLE_CLOUD_PROJECTS ? 
     process.env.GOOGLE_CLOUD_PROJECTS.split(',')
         .map(project => project.trim())
         .filter(project => project) : 
     [];
 
-// Default project is the first one in the list (if any)
-const DEFAULT_PROJECT = projects.length > 0 ? projects[0] : '';
+// Load the config file, or derive the configuration from the environment
+let config: ServerConfig;
+// Backend from STORAGE_BACKEND serving the projects when there is no config file
+let envBackend: BackendConfig | undefined;
+if (configPath) {
+    try {
+        config = loadConfigFile(configPath);
+    } catch (error) {
+        const details = error instanceof z.ZodError ?
+            error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ") :
+            (error as Error).message;
+        console.error(`Error: Invalid config file ${configPath}: ${details}. Exiting.`);
+        process.exit(1);
+    }
+} else {
+    if (envProjects.length === 0) {
+        console.error("Warning: GOOGLE_CLOUD_PROJECTS environment variable is not set");
+    }
+    try {
+        envBackend = process.env.STORAGE_BACKEND ? parseBackendSetting(process.env.STORAGE_BACKEND) : undefined;
+        config = configFromEnv(envProjects, keysDir, envBackend);
+    } catch (error) {
+        console.error(`Error: ${(error as Error).message}. Exiting.`);
+        process.exit(1);
+    }
+}
+
+const projects: string[] = Object.keys(config.projects);
+
+// Map each project alias to the configured project name
+const projectAliases: Record<string, string> = {};
+for (const [project, projectConfig] of Object.entries(config.projects)) {
+    for (const alias of projectConfig.aliases) {
+        projectAliases[alias] = project;
+    }
+}
+
+// Resolve a project name or alias to the configured project name
+function resolveProjectName(name: string): string {
+    return projectAliases[name] ?? name;
+}
+
+// Default project is the configured default, or the first one in the list (if any)
+const DEFAULT_PROJECT = config.defaultProject ?
+    resolveProjectName(config.defaultProject) :
+    (projects.length > 0 ? projects[0] : '');
 
-if (projects.length === 0) {
-    console.error("Warning: GOOGLE_CLOUD_PROJECTS environment variable is not set");
+// Retry settings for Cloud Storage requests from the config file.
+// MAX_RETRIES and RETRY_TIMEOUT_SECONDS take precedence.
+let retryConfig: RetryConfig;
+try {
+    retryConfig = RetryConfigSchema.parse({
+        ...config.retry,
+        maxRetries: process.env.MAX_RETRIES ? Number(process.env.MAX_RETRIES) : config.retry?.maxRetries,
+        totalTimeoutSeconds: process.env.RETRY_TIMEOUT_SECONDS ?
+            Number(process.env.RETRY_TIMEOUT_SECONDS) :
+            config.retry?.totalTimeoutSeconds
+    });
+} catch (error) {
+    const details = error instanceof z.ZodError ?
+        error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ") :
+        (error as Error).message;
+    console.error(`Error: Invalid retry settings: ${details}. Exiting.`);
+    process.exit(1);
 }
 
 // Initialize a map to store Storage clients for each project
 const storageClients: Record<string, Storage> = {};
 
+// Why the Storage client of a project could not be created, for projects without one
+const clientErrors: Record<string, string> = {};
+
 // Function to get Storage client for a specific project
 function getStorageClientForProject(projectId: string): Storage {
-    if (!storageClients[projectId]) {
-        throw new Error(`No Storage client initialized for project: ${projectId}`);
+    const project = resolveProjectName(projectId);
+    if (!storageClients[project]) {
+        throw new ToolError("NOT_CONFIGURED", `No Storage client initialized for project: ${projectId}`);
     }
-    return storageClients[projectId];
+    return storageClients[project];
 }
 
 // Initialize Storage client for each project
-for (const project of projects) {
-    try {
-        // Construct key path based on project ID
-        const keyPath = path.resolve(keysDir, `${project}.json`);
-        
-        if (!fs.existsSync(keyPath)) {
-            console.error(`Warning: No credentials file found for project ${project} at ${keyPath}`);
-            continue;
+async function initializeStorageClients() {
+    for (const project of projects) {
+        try {
+            storageClients[project] = await createStorageClient(project, config.projects[project], retryConfig);
+            console.error(`Google Cloud Storage client initialized successfully for project: ${project}`);
+        } catch (error) {
+            clientErrors[project] = (error as Error).message;
+            console.error(`Error initializing Google Cloud Storage client for project ${project}:`, error);
         }
-        
-        // Read and parse the service account key file
-        const serviceAccount = JSON.parse(fs.readFileSync(keyPath, 'utf8'));
-        
-        // Initialize Storage client
-        storageClients[project] = new Storage({
-            projectId: project,
-            credentials: serviceAccount
+    }
+    
+    // Check if at least one project was successfully initialized
+    if (Object.keys(storageClients).length === 0) {
+        console.error("Error: Failed to initialize any Google Cloud Storage clients. Exiting.");
+        process.exit(1);
+    }
+}
+
+// Fill in project aliases, the client's default project and default buckets from the configuration
+function applyProjectDefaults(rawArgs: unknown, defaultProject: string): unknown {
+    if (!rawArgs || typeof rawArgs !== "object") return rawArgs;
+    
+    const args = { ...(rawArgs as Record<string, unknown>) };
+    if (typeof args.project === "string") args.project = resolveProjectName(args.project);
+    if (typeof args.destinationProject === "string") args.destinationProject = resolveProjectName(args.destinationProject);
+    
+    if (args.project === undefined) args.project = defaultProject;
+    
+    const project = typeof args.project === "string" ? args.project : defaultProject;
+    const defaultBucket = config.projects[project]?.defaultBucket;
+    if (args.bucket === undefined && defaultBucket) args.bucket = defaultBucket;
+    
+    return args;
+}
+
+// Load the access policy that restricts what tools may do in each project.
+// Policies in the config file are combined with ACCESS_POLICY_FILE, which takes precedence.
+let accessPolicy: AccessPolicy;
+// Projects with a policy in ACCESS_POLICY_FILE, which stays in force when they are removed and added again
+let filePolicyProjects: Set<string>;
+try {
+    const filePolicy = loadAccessPolicy(process.env.ACCESS_POLICY_FILE);
+    filePolicyProjects = new Set(Object.keys(filePolicy.projects));
+    const configPolicies: AccessPolicy["projects"] = {};
+    for (const [project, projectConfig] of Object.entries(config.projects)) {
+        if (projectConfig.policy) configPolicies[project] = projectConfig.policy;
+    }
+    accessPolicy = {
+        default: filePolicy.default ?? config.defaultPolicy,
+        projects: { ...configPolicies, ...filePolicy.projects }
+    };
+} catch (error) {
+    const details = error instanceof z.ZodError ?
+        error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ") :
+        (error as Error).message;
+    console.error(`Error: Invalid access policy file ${process.env.ACCESS_POLICY_FILE}: ${details}. Exiting.`);
+    process.exit(1);
+}
+
+// Trash settings apply per project. TRASH_BUCKET and TRASH_PREFIX turn trash
+// mode on for projects without trash settings in the config file.
+let envTrash: TrashConfig | undefined;
+try {
+    if (process.env.TRASH_BUCKET || process.env.TRASH_PREFIX) {
+        envTrash = TrashConfigSchema.parse({
+            bucket: process.env.TRASH_BUCKET || undefined,
+            prefix: process.env.TRASH_PREFIX || undefined
         });
-        
-        console.error(`Google Cloud Storage client initialized successfully for project: ${project}`);
+    }
+} catch (error) {
+    const details = error instanceof z.ZodError ?
+        error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ") :
+        (error as Error).message;
+    console.error(`Error: Invalid trash settings: ${details}. Exiting.`);
+    process.exit(1);
+}
+
+// Trash settings for a project, or nothing when trash mode is off
+function trashConfigFor(project: string): TrashConfig | undefined {
+    return config.projects[resolveProjectName(project)]?.trash ?? config.defaultTrash ?? envTrash;
+}
+
+// Backend serving a project, or nothing when it uses Cloud Storage
+function backendFor(project: string): BackendConfig | undefined {
+    return config.projects[resolveProjectName(project)]?.backend;
+}
+
+// Hook that copies objects about to be deleted or overwritten to the project's
+// trash, collecting what was trashed for the tool response
+function trashHookFor(project: string, tool: string, trashed: TrashedObject[]): TrashHook | undefined {
+    const trashConfig = trashConfigFor(project);
+    if (!trashConfig) return undefined;
+    return async (bucket, name, generation) => {
+        const entry = await moveToTrash(bucket.storage, trashConfig, bucket.name, name, { tool, generation });
+        if (entry) trashed.push(entry);
+        return entry;
+    };
+}
+
+// Run a write whose target was copied to the trash beforehand. When the write
+// fails nothing was lost, so the copies are deleted again and any left behind
+// are named in the error. A checksum mismatch is the exception: the new
+// object was stored and then removed, so the copies hold the only content.
+async function writeAfterTrashing<T>(client: Storage, trashed: TrashedObject[], write: () => Promise<T>): Promise<T> {
+    try {
+        return await write();
     } catch (error) {
-        console.error(`Error initializing Google Cloud Storage client for project ${project}:`, error);
+        const toolError = toToolError(error);
+        if (trashed.length === 0 || toolError.code === "CHECKSUM_MISMATCH") throw error;
+        const remaining = await discardTrashed(client, trashed.splice(0));
+        if (remaining.length === 0) throw error;
+        const names = remaining.map(entry => `${entry.trashBucket}/${entry.trashObject}`).join(", ");
+        throw new ToolError(toolError.code, `${toolError.message} (trash copies taken before the write were left behind: ${names})`, toolError.status);
     }
 }
 
-// Check if at least one project was successfully initialized
-if (Object.keys(storageClients).length === 0) {
-    console.error("Error: Failed to initialize any Google Cloud Storage clients. Exiting.");
+// Generation of an object's live version, or 0 when it has none
+async function liveGeneration(file: File): Promise<string | number> {
+    const [exists] = await file.exists();
+    return exists ? (await file.getMetadata())[0].generation! : 0;
+}
+
+// Audit log of calls to tools that change data, from AUDIT_LOG_FILE or the config file
+const auditLogPath = process.env.AUDIT_LOG_FILE || config.auditLog;
+let auditLog: ReturnType<typeof openAuditLog> | undefined;
+try {
+    auditLog = auditLogPath ? openAuditLog(auditLogPath) : undefined;
+} catch (error) {
+    console.error(`Error: Cannot open audit log ${auditLogPath}: ${(error as Error).message}. Exiting.`);
     process.exit(1);
 }
 
-// Create MCP server
-const server = new Server(
-    {
-        name: "cloudstorage",
-        version: "1.0.0"
-    },
-    {
-        capabilities: {
-            tools: {
-                listChanged: false
-            }
+// Transport from --transport, MCP_TRANSPORT or the config file; stdio unless set to http
+const transportFlagIndex = process.argv.indexOf("--transport");
+const transportMode = (transportFlagIndex >= 0 ? process.argv[transportFlagIndex + 1] : undefined) ??
+    process.env.MCP_TRANSPORT ?? config.transport ?? "stdio";
+if (transportMode !== "stdio" && transportMode !== "http") {
+    console.error(`Error: Unknown transport ${transportMode}; expected stdio or http. Exiting.`);
+    process.exit(1);
+}
+
+// HTTP settings from the config file, with --port, HTTP_PORT and HTTP_HOST taking
+// precedence. HTTP_AUTH_TOKENS adds comma-separated tokens that may use every project.
+let httpSettings: { config: HttpConfig, clients: HttpClient[] } | undefined;
+if (transportMode === "http") {
+    try {
+        const portFlagIndex = process.argv.indexOf("--port");
+        const port = portFlagIndex >= 0 ? process.argv[portFlagIndex + 1] : process.env.HTTP_PORT;
+        const httpConfig = HttpConfigSchema.parse({
+            ...config.http,
+            host: process.env.HTTP_HOST || config.http?.host,
+            port: port ? Number(port) : config.http?.port
+        });
+        const envTokens = (process.env.HTTP_AUTH_TOKENS ?? "").split(",")
+            .map(token => token.trim())
+            .filter(token => token);
+        if (envTokens.some(token => token.length < 16)) {
+            throw new Error("HTTP_AUTH_TOKENS entries must be at least 16 characters long");
+        }
+        httpSettings = {
+            config: httpConfig,
+            clients: [
+                ...resolveClients(httpConfig.tokens),
+                ...envTokens.map((secret, index) => ({ name: `env-token-${index + 1}`, secret }))
+            ]
+        };
+    } catch (error) {
+        const details = error instanceof z.ZodError ?
+            error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ") :
+            (error as Error).message;
+        console.error(`Error: Invalid HTTP settings: ${details}. Exiting.`);
+        process.exit(1);
+    }
+    if (httpSettings.clients.length === 0) {
+        console.error("Error: The HTTP transport requires at least one token in http.tokens or HTTP_AUTH_TOKENS. Exiting.");
+        process.exit(1);
+    }
+}
+
+// What a connected client may use. The stdio client may use every project,
+// while HTTP clients are limited to the projects and policy of their token.
+interface ClientScope {
+    // Name of the token the client authenticated with
+    client?: string;
+    // Projects the client may use, or every project when not set
+    projects?: string[];
+    defaultProject: string;
+    // Policy of the token, checked on top of the server's access policy
+    policy?: AccessPolicy;
+}
+
+const STDIO_SCOPE: ClientScope = { defaultProject: DEFAULT_PROJECT };
+
+// Tools that change which projects the server serves, only available to
+// clients that may use every project
+const PROJECT_MANAGEMENT_TOOLS = new Set(["addProject", "removeProject"]);
+
+// Scope of an HTTP client. Calls default to the token's default project, or
+// the server's default project when the token may use it.
+function scopeForClient(client: HttpClient): ClientScope {
+    const allowed = client.projects?.map(resolveProjectName);
+    return {
+        client: client.name,
+        projects: allowed,
+        defaultProject: client.defaultProject ? resolveProjectName(client.defaultProject) :
+            !allowed || allowed.includes(DEFAULT_PROJECT) ? DEFAULT_PROJECT : allowed[0],
+        policy: client.policy ? { default: client.policy, projects: {} } : undefined
+    };
+}
+
+// Configured projects a client may use
+function scopedProjects(scope: ClientScope): string[] {
+    return projects.filter(project => !scope.projects || scope.projects.includes(project));
+}
+
+// Throw a PolicyError unless the access policy and the client's scope permit the tool call
+function enforceClientScope(scope: ClientScope, tool: string, targets: AccessTarget[]) {
+    if (scope.projects && PROJECT_MANAGEMENT_TOOLS.has(tool)) {
+        throw new PolicyError(`${tool} is not available to client ${scope.client}, which is limited to some projects`);
+    }
+    enforceAccessPolicy(accessPolicy, tool, targets);
+    for (const target of targets) {
+        if (scope.projects && !scope.projects.includes(target.project)) {
+            throw new PolicyError(`Project ${target.project} is not available to client ${scope.client}`);
         }
     }
+    if (scope.policy) {
+        enforceAccessPolicy(scope.policy, tool, targets);
+    }
+}
+
+// Whether the access policy and the client's policy both allow a bucket
+function isBucketAllowedForClient(scope: ClientScope, project: string, bucket: string): boolean {
+    return [accessPolicy, scope.policy].every(policy => !policy || isBucketAllowed(policy, project, bucket));
+}
+
+// Whether the access policy and the client's policy both allow a Cloud Storage permission
+function isPermissionAllowedForClient(scope: ClientScope, project: string, permission: string): boolean {
+    return [accessPolicy, scope.policy].every(policy => !policy || isPermissionAllowed(policy, project, permission));
+}
+
+// Page size limits for listFiles
+const DEFAULT_LIST_PAGE_SIZE = 100;
+const MAX_LIST_PAGE_SIZE = 1000;
+
+// Read a positive integer setting from the environment, exiting on invalid values
+function positiveIntFromEnv(name: string, defaultValue: number): number {
+    const raw = process.env[name];
+    if (!raw) return defaultValue;
+    
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value <= 0) {
+        console.error(`Error: ${name} must be a positive integer. Exiting.`);
+        process.exit(1);
+    }
+    return value;
+}
+
+// Maximum number of bytes returned inline by downloadFile
+const MAX_INLINE_BYTES = positiveIntFromEnv("MAX_INLINE_BYTES", 1024 * 1024);
+
+// V4 signed URLs cannot be valid for more than 7 days
+const V4_SIGNED_URL_MAX_SECONDS = 7 * 24 * 60 * 60;
+
+// Maximum lifetime of generated signed URLs, capped at the V4 limit
+const MAX_SIGNED_URL_SECONDS = Math.min(
+    positiveIntFromEnv("MAX_SIGNED_URL_SECONDS", 24 * 60 * 60),
+    V4_SIGNED_URL_MAX_SECONDS
 );
 
+// Limits for copying, moving and renaming whole prefixes
+const DEFAULT_PREFIX_OBJECT_LIMIT = 1000;
+const MAX_PREFIX_OBJECT_LIMIT = 10000;
+// Defaults and limits for previewFile
+const DEFAULT_PREVIEW_ROWS = 20;
+const MAX_PREVIEW_ROWS = 500;
+const DEFAULT_PREVIEW_SAMPLE_BYTES = 1024 * 1024;
+const MAX_PREVIEW_SAMPLE_BYTES = 64 * 1024 * 1024;
+const MAX_IMAGE_PREVIEW_BYTES = 32 * 1024 * 1024;
+const DEFAULT_IMAGE_PREVIEW_DIMENSION = 1024;
+
+// Defaults and limits for storageReport; reports stream the listing, so they can cover far more objects
+const DEFAULT_REPORT_MAX_OBJECTS = 1000000;
+const MAX_REPORT_MAX_OBJECTS = 100000000;
+
+// Storage prices used by storageReport, with config file overrides
+const STORAGE_PRICES: Record<string, number> = { ...DEFAULT_STORAGE_PRICES, ...config.storagePrices };
+
+// Defaults and limits for searchFiles
+const DEFAULT_SEARCH_MAX_MATCHES = 100;
+const MAX_SEARCH_MAX_MATCHES = 1000;
+const DEFAULT_SEARCH_MAX_BYTES = 100 * 1024 * 1024;
+const MAX_SEARCH_MAX_BYTES = 1024 * 1024 * 1024;
+const MAX_SEARCH_CONTEXT_LINES = 10;
+
+// Largest decoded chunk accepted by appendUploadChunk
+const MAX_UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024;
+
+// Cloud Storage composes at most 32 source objects per request
+const MAX_COMPOSE_SOURCES = 32;
+
+// Defaults and limits for the entries in archives created or extracted
+const DEFAULT_ARCHIVE_MAX_ENTRIES = 10000;
+const MAX_ARCHIVE_MAX_ENTRIES = 1000000;
+const DEFAULT_ARCHIVE_MAX_BYTES = 1024 * 1024 * 1024;
+const MAX_ARCHIVE_MAX_BYTES = 100 * 1024 * 1024 * 1024;
+
+const DEFAULT_CONCURRENCY = 8;
+const MAX_CONCURRENCY = 32;
+
+// Local directories that file transfer tools may access
+const ALLOWED_LOCAL_ROOTS = parseAllowedRoots(process.env.ALLOWED_LOCAL_ROOTS);
+
 // Define empty schema for tools that don't require arguments
 const EmptySchema = z.object({});
 
 // Schema definitions
+const ProjectIdSchema = z.string().min(1).optional().default(DEFAULT_PROJECT)
+    .describe("Google Cloud project ID (defaults to first project from GOOGLE_CLOUD_PROJECTS env var)");
+
 const ProjectSchema = z.object({
-    project: z.string().min(1).optional().default(DEFAULT_PROJECT)
+    project: ProjectIdSchema
 }).refine(data => !!data.project, {
     message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
     path: ["project"]
 });
 
 const BucketSchema = z.object({
-    project: z.string().min(1).optional().default(DEFAULT_PROJECT),
-    bucket: z.string().min(1)
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket")
 }).refine(data => !!data.project, {
     message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
     path: ["project"]
 });
 
+// Object generations and metagenerations are int64 values, passed as strings or numbers
+const GenerationSchema = z.union([z.string().regex(/^\d+$/), z.number().int().min(0)]);
+
 const FileSchema = z.object({
-    project: z.string().min(1).optional().default(DEFAULT_PROJECT),
-    bucket: z.string().min(1),
-    file: z.string().min(1)
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).describe("Path to the file in the bucket")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const GetFileSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).describe("Path to the file in the bucket"),
+    generation: GenerationSchema.optional().describe("Specific object generation (defaults to the live version)")
 }).refine(data => !!data.project, {
     message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
     path: ["project"]
 });
 
 const UploadFileSchema = z.object({
-    project: z.string().min(1).optional().default(DEFAULT_PROJECT),
-    bucket: z.string().min(1),
-    destination: z.string().min(1),
-    content: z.string().min(1),
-    contentType: z.string().optional()
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    destination: z.string().min(1).describe("Destination path/filename in the bucket"),
+    content: z.string().min(1).describe("Content to upload (base64 encoded for binary files)"),
+    contentType: z.string().optional().describe("MIME type of the content"),
+    ifGenerationMatch: GenerationSchema.optional()
+        .describe("Only overwrite if the live version has this generation (0 means the file must not exist)"),
+    ifNotExists: z.boolean().optional().default(false).describe("Only create the file if it does not already exist (default false)")
 }).refine(data => !!data.project, {
     message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
     path: ["project"]
+}).refine(data => !(data.ifNotExists && data.ifGenerationMatch !== undefined), {
+    message: "Use either ifNotExists or ifGenerationMatch, not both",
+    path: ["ifNotExists"]
 });
 
-const ListFilesSchema = z.object({
-    project: z.string().min(1).optional().default(DEFAULT_PROJECT),
-    bucket: z.string().min(1),
-    prefix: z.string().optional(),
-    delimiter: z.string().optional()
+const StartUploadSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    destination: z.string().min(1).describe("Destination path/filename in the bucket"),
+    contentType: z.string().optional().describe("MIME type of the content"),
+    metadata: z.record(z.string()).optional().describe("Custom metadata key/value pairs for the object"),
+    ifGenerationMatch: GenerationSchema.optional()
+        .describe("Only overwrite if the live version has this generation (0 means the file must not exist)"),
+    ifNotExists: z.boolean().optional().default(false).describe("Only create the file if it does not already exist (default false)")
 }).refine(data => !!data.project, {
     message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
     path: ["project"]
+}).refine(data => !(data.ifNotExists && data.ifGenerationMatch !== undefined), {
+    message: "Use either ifNotExists or ifGenerationMatch, not both",
+    path: ["ifNotExists"]
 });
 
-// Register list tools handler
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-        tools: [
-            {
-                name: "listBuckets",
-                description: "List all Cloud Storage buckets in a project",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        project: {
-                            type: "string",
-                            description: "Google Cloud project ID (defaults to first project from GOOGLE_CLOUD_PROJECTS env var)"
-                        }
-                    }
-                }
-            },
-            {
-                name: "getBucket",
-                description: "Get details of a specific Cloud Storage bucket",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        project: {
-                            type: "string",
-                            description: "Google Cloud project ID (defaults to first project from GOOGLE_CLOUD_PROJECTS env var)"
-                        },
-                        bucket: {
-                            type: "string",
-                            description: "Name of the bucket"
-                        }
-                    },
-                    required: ["bucket"]
-                }
-            },
-            {
-                name: "listFiles",
-                description: "List files in a Cloud Storage bucket",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        project: {
-                            type: "string",
-                            description: "Google Cloud project ID (defaults to first project from GOOGLE_CLOUD_PROJECTS env var)"
-                        },
-                        bucket: {
-                            type: "string",
-                            description: "Name of the bucket"
-                        },
-                        prefix: {
-                            type: "string",
-                            description: "Filter files by prefix (folder path)"
-                        },
-                        delimiter: {
-                            type: "string",
-                            description: "Delimiter to use (e.g., '/' to get files in a specific folder)"
-                        }
-                    },
-                    required: ["bucket"]
-                }
-            },
-            {
-                name: "getFile",
-                description: "Get details of a specific file in a Cloud Storage bucket",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        project: {
-                            type: "string",
-                            description: "Google Cloud project ID (defaults to first project from GOOGLE_CLOUD_PROJECTS env var)"
-                        },
-                        bucket: {
-                            type: "string",
-                            description: "Name of the bucket"
-                        },
-                        file: {
-                            type: "string",
-                            description: "Path to the file in the bucket"
-                        }
-                    },
-                    required: ["bucket", "file"]
-                }
-            },
-            {
-                name: "uploadFile",
-                description: "Upload a file to a Cloud Storage bucket",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        project: {
-                            type: "string",
-                            description: "Google Cloud project ID (defaults to first project from GOOGLE_CLOUD_PROJECTS env var)"
-                        },
-                        bucket: {
-                            type: "string",
-                            description: "Name of the bucket"
-                        },
-                        destination: {
-                            type: "string",
-                            description: "Destination path/filename in the bucket"
-                        },
-                        content: {
-                            type: "string",
-                            description: "Content to upload (base64 encoded for binary files)"
-                        },
-                        contentType: {
-                            type: "string",
-                            description: "MIME type of the content"
-                        }
-                    },
-                    required: ["bucket", "destination", "content"]
-                }
-            },
-            {
-                name: "downloadFile",
-                description: "Download a file from a Cloud Storage bucket",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        project: {
-                            type: "string",
-                            description: "Google Cloud project ID (defaults to first project from GOOGLE_CLOUD_PROJECTS env var)"
-                        },
-                        bucket: {
-                            type: "string",
-                            description: "Name of the bucket"
-                        },
-                        file: {
-                            type: "string",
-                            description: "Path to the file in the bucket"
-                        }
-                    },
-                    required: ["bucket", "file"]
-                }
-            },
-            {
-                name: "deleteFile",
-                description: "Delete a file from a Cloud Storage bucket",
-                inputSchema: {
-                    type: "object",
-                    properties: {
-                        project: {
-                            type: "string",
-                            description: "Google Cloud project ID (defaults to first project from GOOGLE_CLOUD_PROJECTS env var)"
-                        },
-                        bucket: {
-                            type: "string",
-                            description: "Name of the bucket"
-                        },
-                        file: {
-                            type: "string",
-                            description: "Path to the file in the bucket to delete"
-                        }
-                    },
-                    required: ["bucket", "file"]
-                }
-            },
-            {
-                name: "listProjects",
-                description: "List all available projects that have been configured",
-                inputSchema: {
-                    type: "object",
-                    properties: {}
-                }
-            }
-        ],
-    };
+const AppendUploadChunkSchema = z.object({
+    uploadId: z.string().min(1).describe("Upload ID returned by startUpload"),
+    sequence: z.number().int().min(0).describe("Position of this chunk, starting at 0"),
+    data: z.string().describe("Chunk content"),
+    encoding: z.enum(["base64", "utf-8"]).optional().default("base64").describe("Encoding of data (default base64)")
 });
 
-// Register call tool handler
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+const FinishUploadSchema = z.object({
+    uploadId: z.string().min(1).describe("Upload ID returned by startUpload"),
+    crc32c: z.string().min(1).optional().describe("Expected base64 CRC32C of the whole object"),
+    md5Hash: z.string().min(1).optional().describe("Expected base64 MD5 of the whole object")
+});
 
-    try {
-        if (name === "listBuckets") {
-            const { project } = ProjectSchema.parse(args);
-            
-            try {
-                const client = getStorageClientForProject(project);
-                const [buckets] = await client.getBuckets();
-                
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify(buckets.map(bucket => ({
-                            name: bucket.name,
-                            id: bucket.id,
-                            location: bucket.metadata.location,
-                            storageClass: bucket.metadata.storageClass,
-                            created: bucket.metadata.timeCreated
-                        })), null, 2) 
-                    }]
-                };
-            } catch (error) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ 
-                            error: "Failed to list buckets",
-                            message: (error as Error).message
-                        }, null, 2) 
-                    }]
-                };
-            }
-        }
-        else if (name === "getBucket") {
-            const { project, bucket } = BucketSchema.parse(args);
-            
-            try {
-                const client = getStorageClientForProject(project);
-                const [bucketInfo] = await client.bucket(bucket).getMetadata();
-                
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify(bucketInfo, null, 2) 
-                    }]
-                };
-            } catch (error) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ 
-                            error: "Bucket not found or access denied",
-                            message: (error as Error).message
-                        }, null, 2) 
-                    }]
-                };
-            }
-        }
-        else if (name === "listFiles") {
-            const { project, bucket, prefix, delimiter } = ListFilesSchema.parse(args);
-            
-            try {
-                const client = getStorageClientForProject(project);
-                const options: { prefix?: string, delimiter?: string } = {};
-                
-                if (prefix) options.prefix = prefix;
-                if (delimiter) options.delimiter = delimiter;
-                
-                const [files] = await client.bucket(bucket).getFiles(options);
-                
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify(files.map(file => ({
-                            name: file.name,
-                            size: file.metadata.size,
-                            contentType: file.metadata.contentType,
-                            updated: file.metadata.updated,
-                            created: file.metadata.timeCreated
-                        })), null, 2) 
-                    }]
-                };
-            } catch (error) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ 
-                            error: "Failed to list files",
-                            message: (error as Error).message
-                        }, null, 2) 
-                    }]
-                };
-            }
-        }
-        else if (name === "getFile") {
-            const { project, bucket, file } = FileSchema.parse(args);
-            
-            try {
-                const client = getStorageClientForProject(project);
-                const [metadata] = await client.bucket(bucket).file(file).getMetadata();
-                
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify(metadata, null, 2) 
-                    }]
-                };
-            } catch (error) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ 
-                            error: "File not found or access denied",
-                            message: (error as Error).message
-                        }, null, 2) 
-                    }]
-                };
-            }
-        }
-        else if (name === "uploadFile") {
-            const { project, bucket, destination, content, contentType } = UploadFileSchema.parse(args);
-            
-            try {
-                const client = getStorageClientForProject(project);
-                const file = client.bucket(bucket).file(destination);
-                
-                // Check if the content is Base64 encoded
-                let fileContent: Buffer;
-                try {
-                    fileContent = Buffer.from(content, 'base64');
-                } catch (e) {
-                    // If not Base64, treat as plain text
-                    fileContent = Buffer.from(content);
-                }
-                
-                const options: { contentType?: string } = {};
-                if (contentType) options.contentType = contentType;
-                
-                await file.save(fileContent, options);
-                
-                const [metadata] = await file.getMetadata();
-                
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ 
-                            success: true,
-                            message: `File uploaded successfully to ${bucket}/${destination}`,
-                            metadata
-                        }, null, 2) 
-                    }]
-                };
-            } catch (error) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ 
-                            error: "Failed to upload file",
-                            message: (error as Error).message
-                        }, null, 2) 
-                    }]
-                };
-            }
-        }
-        else if (name === "downloadFile") {
-            const { project, bucket, file } = FileSchema.parse(args);
-            
-            try {
-                const client = getStorageClientForProject(project);
-                const fileObj = client.bucket(bucket).file(file);
-                
-                // Check if file exists
-                const [exists] = await fileObj.exists();
-                if (!exists) {
-                    throw new Error(`File ${file} does not exist in bucket ${bucket}`);
-                }
-                
-                // Get the file metadata to determine content type
-                const [metadata] = await fileObj.getMetadata();
-                
-                // Download the file
-                const [content] = await fileObj.download();
-                
-                // For text files, convert to string
-                let fileContent = '';
-                const contentType = metadata.contentType;
-                const isTextFile = contentType && (
-                    contentType.startsWith('text/') || 
-                    contentType.includes('json') || 
-                    contentType.includes('xml') ||
-                    contentType.includes('javascript') ||
-                    contentType.includes('html')
-                );
-                
-                if (isTextFile) {
-                    fileContent = content.toString('utf-8');
-                } else {
-                    // For binary files, return base64 encoded
-                    fileContent = content.toString('base64');
-                }
-                
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({
-                            name: file,
-                            contentType: metadata.contentType,
-                            size: metadata.size,
-                            content: fileContent,
-                            encoding: isTextFile ? 'utf-8' : 'base64'
-                        }, null, 2) 
-                    }]
-                };
-            } catch (error) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ 
-                            error: "Failed to download file",
-                            message: (error as Error).message
-                        }, null, 2) 
-                    }]
-                };
-            }
-        }
-        else if (name === "deleteFile") {
-            const { project, bucket, file } = FileSchema.parse(args);
-            
-            try {
-                const client = getStorageClientForProject(project);
-                
-                // Check if file exists
-                const [exists] = await client.bucket(bucket).file(file).exists();
-                if (!exists) {
-                    throw new Error(`File ${file} does not exist in bucket ${bucket}`);
-                }
-                
-                await client.bucket(bucket).file(file).delete();
-                
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ 
-                            success: true,
-                            message: `File ${file} deleted successfully from bucket ${bucket}`
-                        }, null, 2) 
-                    }]
-                };
-            } catch (error) {
-                return {
-                    content: [{ 
-                        type: "text", 
-                        text: JSON.stringify({ 
-                            error: "Failed to delete file",
-                            message: (error as Error).message
-                        }, null, 2) 
-                    }]
-                };
-            }
-        }
-        else if (name === "listProjects") {
-            EmptySchema.parse(args);
-            
-            // Return information about projects and default settings
-            return {
-                content: [{ 
-                    type: "text", 
-                    text: JSON.stringify({
-                        projects,
-                        defaultProject: DEFAULT_PROJECT,
-                        initializedProjects: Object.keys(storageClients),
-                        currentEnv: process.env.GOOGLE_CLOUD_PROJECTS || "Not set"
-                    }, null, 2) 
-                }]
-            };
-        }
-        else {
-            throw new Error(`Unknown tool: ${name}`);
-        }
-    } catch (error) {
-        if (error instanceof z.ZodError) {
-            return {
-                content: [{ 
-                    type: "text", 
-                    text: JSON.stringify({
-                        error: "Invalid arguments",
-                        details: error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")
-                    }, null, 2)
-                }]
-            };
-        }
-        
-        return {
-            content: [{ 
-                type: "text", 
-                text: JSON.stringify({
-                    error: "Internal server error",
-                    message: (error as Error).message
-                }, null, 2)
-            }]
-        };
-    }
+const AbortUploadSchema = z.object({
+    uploadId: z.string().min(1).describe("Upload ID returned by startUpload")
 });
 
-// Start the server
-async function main() {
-    try {
+const ComposeFilesSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    sources: z.array(z.string().min(1)).min(2).max(MAX_COMPOSE_SOURCES)
+        .describe(`Names of the objects to concatenate, in order (2 to ${MAX_COMPOSE_SOURCES})`),
+    destination: z.string().min(1).describe("Name of the composed object"),
+    contentType: z.string().optional().describe("MIME type of the composed object (defaults to one based on the destination name)"),
+    ifGenerationMatch: GenerationSchema.optional()
+        .describe("Only overwrite if the live destination has this generation (0 means it must not exist)"),
+    ifNotExists: z.boolean().optional().default(false).describe("Only create the destination if it does not already exist (default false)"),
+    deleteSources: z.boolean().optional().default(false).describe("Delete the source objects after composing (default false)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => !(data.ifNotExists && data.ifGenerationMatch !== undefined), {
+    message: "Use either ifNotExists or ifGenerationMatch, not both",
+    path: ["ifNotExists"]
+});
+
+const CreateArchiveSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    prefix: z.string().optional().default("").describe("Archive the objects under this prefix (default: the whole bucket)"),
+    destination: z.string().min(1).describe("Name of the archive object to create"),
+    destinationBucket: z.string().min(1).optional().describe("Bucket for the archive, in the same project (defaults to the source bucket)"),
+    format: z.enum(["zip", "tar.gz"]).optional().default("zip").describe("Archive format (default zip)"),
+    ifGenerationMatch: GenerationSchema.optional()
+        .describe("Only overwrite if the live archive object has this generation (0 means it must not exist)"),
+    ifNotExists: z.boolean().optional().default(false).describe("Only create the archive if it does not already exist (default false)"),
+    maxEntries: z.number().int().min(1).max(MAX_ARCHIVE_MAX_ENTRIES).optional().default(DEFAULT_ARCHIVE_MAX_ENTRIES)
+        .describe(`Maximum number of entries (default ${DEFAULT_ARCHIVE_MAX_ENTRIES}, max ${MAX_ARCHIVE_MAX_ENTRIES})`),
+    maxTotalBytes: z.number().int().min(1).max(MAX_ARCHIVE_MAX_BYTES).optional().default(DEFAULT_ARCHIVE_MAX_BYTES)
+        .describe(`Maximum total uncompressed size of the entries in bytes (default ${DEFAULT_ARCHIVE_MAX_BYTES}, max ${MAX_ARCHIVE_MAX_BYTES})`)
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => !(data.ifNotExists && data.ifGenerationMatch !== undefined), {
+    message: "Use either ifNotExists or ifGenerationMatch, not both",
+    path: ["ifNotExists"]
+});
+
+const ExtractArchiveSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).describe("Name of the archive object"),
+    generation: GenerationSchema.optional().describe("Specific archive generation (defaults to the live version)"),
+    format: z.enum(["auto", "zip", "tar.gz"]).optional().default("auto")
+        .describe("Archive format (default auto, from the object name and content type)"),
+    targetPrefix: z.string().min(1).describe("Prefix the entries are written under"),
+    destinationBucket: z.string().min(1).optional()
+        .describe("Bucket to write the entries to, in the same project (defaults to the archive's bucket)"),
+    overwrite: z.boolean().optional().default(false).describe("Replace objects that already exist (default false)"),
+    maxEntries: z.number().int().min(1).max(MAX_ARCHIVE_MAX_ENTRIES).optional().default(DEFAULT_ARCHIVE_MAX_ENTRIES)
+        .describe(`Maximum number of entries (default ${DEFAULT_ARCHIVE_MAX_ENTRIES}, max ${MAX_ARCHIVE_MAX_ENTRIES})`),
+    maxTotalBytes: z.number().int().min(1).max(MAX_ARCHIVE_MAX_BYTES).optional().default(DEFAULT_ARCHIVE_MAX_BYTES)
+        .describe(`Maximum total uncompressed size of the entries in bytes (default ${DEFAULT_ARCHIVE_MAX_BYTES}, max ${MAX_ARCHIVE_MAX_BYTES})`)
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const ListTrashSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Bucket the objects were trashed from"),
+    prefix: z.string().optional().describe("Only list trashed objects whose original name starts with this prefix"),
+    maxResults: z.number().int().min(1).max(MAX_LIST_PAGE_SIZE).optional().default(DEFAULT_LIST_PAGE_SIZE)
+        .describe(`Maximum number of entries to return (default ${DEFAULT_LIST_PAGE_SIZE}, max ${MAX_LIST_PAGE_SIZE})`)
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const RestoreFromTrashSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Bucket the objects were trashed from"),
+    trashObject: z.string().min(1).describe("Name of the trashed object, as returned by listTrash"),
+    destination: z.string().min(1).optional().describe("Object name to restore to (defaults to the original name)"),
+    overwrite: z.boolean().optional().default(false)
+        .describe("Replace an existing object at the destination, trashing it first (default false)"),
+    keepInTrash: z.boolean().optional().default(false).describe("Keep the trashed copy after restoring it (default false)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const DeleteFileSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).describe("Path to the file in the bucket to delete"),
+    generation: GenerationSchema.optional().describe("Permanently delete this specific generation instead of the live version"),
+    ifGenerationMatch: GenerationSchema.optional().describe("Only delete if the object's generation matches"),
+    ifMetagenerationMatch: GenerationSchema.optional().describe("Only delete if the object's metageneration matches")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const RestoreFileVersionSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).describe("Path to the file in the bucket"),
+    generation: GenerationSchema.describe("Generation to restore"),
+    ifGenerationMatch: GenerationSchema.optional()
+        .describe("Only restore if the live version has this generation (defaults to the live generation read before restoring; 0 if none)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const UploadFromPathSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    localPath: z.string().min(1).describe("Path of the local file to upload (relative paths resolve against the first allowed root)"),
+    destination: z.string().min(1).optional().describe("Destination path/filename in the bucket (defaults to the local file name)"),
+    contentType: z.string().optional().describe("MIME type of the content"),
+    validation: z.enum(["crc32c", "md5"]).optional().default("crc32c").describe("Checksum used to verify the upload (default crc32c)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const DownloadToPathSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).describe("Path to the file in the bucket"),
+    localPath: z.string().min(1).describe("Local destination path (relative paths resolve against the first allowed root)"),
+    overwrite: z.boolean().optional().default(false).describe("Replace the local file if it already exists (default false)"),
+    validation: z.enum(["crc32c", "md5"]).optional().default("crc32c").describe("Checksum used to verify the download (default crc32c)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const DownloadFileSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).describe("Path to the file in the bucket"),
+    generation: GenerationSchema.optional().describe("Specific object generation (defaults to the live version)"),
+    start: z.number().int().min(0).optional().describe("First byte to read (zero-based, inclusive)"),
+    end: z.number().int().min(0).optional().describe("Last byte to read (zero-based, inclusive)"),
+    mode: z.enum(["head", "tail"]).optional().describe("Read lines from the beginning (head) or the end (tail) of a text file"),
+    lines: z.number().int().min(1).optional().describe("Number of lines to return in head or tail mode"),
+    maxBytes: z.number().int().min(1).optional().describe(`Maximum number of bytes to return (capped at ${MAX_INLINE_BYTES})`),
+    decompress: z.boolean().optional().default(true).describe("Decompress gzip-encoded objects (default true)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => data.start === undefined || data.end === undefined || data.end >= data.start, {
+    message: "end must be greater than or equal to start",
+    path: ["end"]
+}).refine(data => data.lines === undefined || data.mode !== undefined, {
+    message: "lines requires mode to be 'head' or 'tail'",
+    path: ["lines"]
+});
+
+const SignedUrlSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).describe("Path to the file in the bucket"),
+    action: z.enum(["read", "write", "resumable"]).optional().default("read").describe("Operation the URL allows (default read)"),
+    expiresInSeconds: z.number().int().min(1).optional().default(15 * 60)
+        .describe(`Lifetime of the URL in seconds (default 900, max ${MAX_SIGNED_URL_SECONDS})`),
+    contentType: z.string().optional().describe("Content-Type the client must send with write or resumable requests"),
+    responseDisposition: z.string().optional()
+        .describe("Content-Disposition to return for read requests (e.g., 'attachment; filename=\"report.pdf\"')"),
+    responseType: z.string().optional().describe("Content-Type to return for read requests")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => data.expiresInSeconds <= MAX_SIGNED_URL_SECONDS, {
+    message: `expiresInSeconds cannot exceed ${MAX_SIGNED_URL_SECONDS} seconds`,
+    path: ["expiresInSeconds"]
+}).refine(data => data.action === "read" || (data.responseDisposition === undefined && data.responseType === undefined), {
+    message: "responseDisposition and responseType only apply to read URLs",
+    path: ["action"]
+});
+
+const RelocateFileSchema = z.object({
+    project: ProjectIdSchema.describe("Google Cloud project ID of the source (defaults to first project from GOOGLE_CLOUD_PROJECTS env var)"),
+    bucket: z.string().min(1).describe("Name of the source bucket"),
+    file: z.string().min(1).optional().describe("Path of the source file (provide file or prefix)"),
+    prefix: z.string().min(1).optional().describe("Source folder prefix; every object under it is processed (provide file or prefix)"),
+    destinationProject: z.string().min(1).optional().describe("Project ID of the destination (defaults to the source project)"),
+    destinationBucket: z.string().min(1).optional().describe("Name of the destination bucket (defaults to the source bucket)"),
+    destination: z.string().min(1).optional()
+        .describe("Destination file path, or destination prefix when a prefix is given (defaults to the source path)"),
+    preserveMetadata: z.boolean().optional().default(true)
+        .describe("Keep content type, caching headers and custom metadata (default true)"),
+    overwrite: z.boolean().optional().default(false).describe("Replace existing destination objects (default false)"),
+    maxObjects: z.number().int().min(1).max(MAX_PREFIX_OBJECT_LIMIT).optional().default(DEFAULT_PREFIX_OBJECT_LIMIT)
+        .describe(`Maximum number of objects processed for a prefix (default ${DEFAULT_PREFIX_OBJECT_LIMIT}, max ${MAX_PREFIX_OBJECT_LIMIT})`),
+    concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).optional().default(DEFAULT_CONCURRENCY)
+        .describe(`Number of objects processed in parallel (default ${DEFAULT_CONCURRENCY}, max ${MAX_CONCURRENCY})`)
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => (data.file === undefined) !== (data.prefix === undefined), {
+    message: "Provide exactly one of file or prefix",
+    path: ["file"]
+});
+
+const RenameFileSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).optional().describe("Current path of the file (provide file or prefix)"),
+    prefix: z.string().min(1).optional().describe("Current folder prefix (provide file or prefix)"),
+    newName: z.string().min(1).describe("New file path, or new prefix when a prefix is given"),
+    overwrite: z.boolean().optional().default(false).describe("Replace existing objects with the new name (default false)"),
+    maxObjects: z.number().int().min(1).max(MAX_PREFIX_OBJECT_LIMIT).optional().default(DEFAULT_PREFIX_OBJECT_LIMIT)
+        .describe(`Maximum number of objects renamed for a prefix (default ${DEFAULT_PREFIX_OBJECT_LIMIT}, max ${MAX_PREFIX_OBJECT_LIMIT})`),
+    concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).optional().default(DEFAULT_CONCURRENCY)
+        .describe(`Number of objects processed in parallel (default ${DEFAULT_CONCURRENCY}, max ${MAX_CONCURRENCY})`)
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => (data.file === undefined) !== (data.prefix === undefined), {
+    message: "Provide exactly one of file or prefix",
+    path: ["file"]
+});
+
+const STORAGE_CLASSES = ["STANDARD", "NEARLINE", "COLDLINE", "ARCHIVE"] as const;
+
+const BulkSelectionSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    prefix: z.string().min(1).optional().describe("Select objects under this prefix"),
+    matchGlob: z.string().min(1).optional().describe("Select objects whose names match this glob (e.g., 'tmp/2024-*')"),
+    maxObjects: z.number().int().min(1).max(MAX_PREFIX_OBJECT_LIMIT).optional().default(DEFAULT_PREFIX_OBJECT_LIMIT)
+        .describe(`Maximum number of objects the plan may include (default ${DEFAULT_PREFIX_OBJECT_LIMIT}, max ${MAX_PREFIX_OBJECT_LIMIT})`)
+});
+
+const BulkDeleteSchema = BulkSelectionSchema.refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => !!data.prefix || !!data.matchGlob, {
+    message: "Provide a prefix, a matchGlob or both",
+    path: ["prefix"]
+});
+
+const BulkSetMetadataSchema = BulkSelectionSchema.extend({
+    contentType: z.string().min(1).optional().describe("New Content-Type"),
+    cacheControl: z.string().min(1).optional().describe("New Cache-Control"),
+    contentDisposition: z.string().min(1).optional().describe("New Content-Disposition"),
+    metadata: z.record(z.string().nullable()).optional().describe("Custom metadata to merge; a null value removes the key")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => !!data.prefix || !!data.matchGlob, {
+    message: "Provide a prefix, a matchGlob or both",
+    path: ["prefix"]
+}).refine(data => !!(data.contentType || data.cacheControl || data.contentDisposition || data.metadata), {
+    message: "Provide at least one of contentType, cacheControl, contentDisposition or metadata",
+    path: ["metadata"]
+});
+
+const BulkSetStorageClassSchema = BulkSelectionSchema.extend({
+    storageClass: z.enum(STORAGE_CLASSES).describe("Target storage class")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => !!data.prefix || !!data.matchGlob, {
+    message: "Provide a prefix, a matchGlob or both",
+    path: ["prefix"]
+});
+
+const ConfirmBulkOperationSchema = z.object({
+    planId: z.string().min(1).describe("Plan ID returned by the dry run"),
+    concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).optional().default(DEFAULT_CONCURRENCY)
+        .describe(`Number of objects processed in parallel (default ${DEFAULT_CONCURRENCY}, max ${MAX_CONCURRENCY})`)
+});
+
+const SyncSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    localDir: z.string().min(1).describe("Local directory (absolute, or relative to the first allowed root)"),
+    prefix: z.string().optional().describe("Bucket prefix (folder) to sync with (default: the whole bucket)"),
+    exclude: z.array(z.string().min(1)).optional().default([])
+        .describe("Glob patterns of relative paths to leave out on both sides (e.g. '**/*.tmp', '.git/**')"),
+    deleteExtraneous: z.boolean().optional().default(false)
+        .describe("Delete objects or local files under the destination that do not exist in the source (default false)"),
+    compare: z.enum(["checksum", "mtime"]).optional().default("checksum")
+        .describe("Compare files by size and CRC32C/MD5 checksum (default), or by size and modification time"),
+    maxObjects: z.number().int().min(1).max(MAX_PREFIX_OBJECT_LIMIT).optional().default(DEFAULT_PREFIX_OBJECT_LIMIT)
+        .describe(`Maximum number of files compared on each side (default ${DEFAULT_PREFIX_OBJECT_LIMIT}, max ${MAX_PREFIX_OBJECT_LIMIT})`),
+    concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).optional().default(DEFAULT_CONCURRENCY)
+        .describe(`Number of files checksummed in parallel (default ${DEFAULT_CONCURRENCY}, max ${MAX_CONCURRENCY})`)
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const ConfirmSyncSchema = z.object({
+    planId: z.string().min(1).describe("Plan ID returned by the sync tool"),
+    concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).optional().default(DEFAULT_CONCURRENCY)
+        .describe(`Number of files transferred in parallel (default ${DEFAULT_CONCURRENCY}, max ${MAX_CONCURRENCY})`),
+    validation: z.enum(["crc32c", "md5"]).optional().default("crc32c").describe("Checksum used to verify each transfer (default crc32c)")
+});
+
+const SetFileMetadataSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).describe("Path to the file in the bucket"),
+    metadata: z.record(z.string()).optional().describe("Custom metadata key/values"),
+    metadataMode: z.enum(["merge", "replace"]).optional().default("merge")
+        .describe("Merge metadata into the existing custom metadata (default), or replace it entirely"),
+    removeMetadataKeys: z.array(z.string().min(1)).optional().describe("Custom metadata keys to remove"),
+    contentType: z.string().min(1).nullable().optional().describe("New Content-Type (null clears it)"),
+    cacheControl: z.string().min(1).nullable().optional().describe("New Cache-Control (null clears it)"),
+    contentDisposition: z.string().min(1).nullable().optional().describe("New Content-Disposition (null clears it)"),
+    contentEncoding: z.string().min(1).nullable().optional().describe("New Content-Encoding (null clears it)"),
+    storageClass: z.enum(STORAGE_CLASSES).optional().describe("Rewrite the object into this storage class"),
+    ifGenerationMatch: GenerationSchema.optional()
+        .describe("Only apply if the object's generation matches (defaults to the generation read before editing)"),
+    ifMetagenerationMatch: GenerationSchema.optional()
+        .describe("Only apply if the object's metageneration matches (defaults to the metageneration read before editing)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => data.metadataMode !== "replace" || data.metadata !== undefined, {
+    message: "metadata is required when metadataMode is 'replace'",
+    path: ["metadata"]
+});
+
+const CreateBucketSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(3).max(222).describe("Name of the new bucket"),
+    location: z.string().min(1).optional().default("US").describe("Location such as 'US', 'EU' or 'us-central1' (default US)"),
+    storageClass: z.enum(STORAGE_CLASSES).optional().default("STANDARD").describe("Default storage class (default STANDARD)"),
+    uniformBucketLevelAccess: z.boolean().optional().default(true).describe("Enable uniform bucket-level access (default true)"),
+    versioning: z.boolean().optional().default(false).describe("Enable object versioning (default false)"),
+    labels: z.record(z.string()).optional().describe("Labels to attach to the bucket")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const DeleteBucketSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket to delete"),
+    confirmBucketName: z.string().min(1).describe("Repeat the bucket name to confirm the deletion")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+}).refine(data => data.confirmBucketName === data.bucket, {
+    message: "confirmBucketName must repeat the bucket name exactly",
+    path: ["confirmBucketName"]
+});
+
+const UpdateBucketConfigSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    versioning: z.boolean().optional().describe("Enable or disable object versioning"),
+    lifecycleRules: z.array(LifecycleRuleSchema).optional()
+        .describe("Replace all lifecycle rules, e.g. [{\"action\": {\"type\": \"Delete\"}, \"condition\": {\"age\": 30}}]. An empty array removes them"),
+    cors: z.array(CorsRuleSchema).optional().describe("Replace all CORS rules. An empty array removes them"),
+    labels: z.record(z.string().nullable()).optional().describe("Labels to merge; a null value removes the label"),
+    defaultStorageClass: z.enum(STORAGE_CLASSES).optional().describe("Default storage class for new objects"),
+    defaultEventBasedHold: z.boolean().optional().describe("Place new objects under an event-based hold by default"),
+    defaultKmsKeyName: z.string().min(1).nullable().optional().describe("Default Cloud KMS key for new objects (null removes it)"),
+    retentionPeriodSeconds: z.number().int().min(1).nullable().optional()
+        .describe("Minimum retention period for objects in seconds (null removes an unlocked retention policy)"),
+    dryRun: z.boolean().optional().default(false).describe("Only return the diff without applying it (default false)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const PreviewFileSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    file: z.string().min(1).describe("Path to the file in the bucket"),
+    generation: GenerationSchema.optional().describe("Specific object generation (defaults to the live version)"),
+    format: z.enum(["auto", "csv", "tsv", "ndjson", "json", "image", "text"]).optional().default("auto")
+        .describe("Preview format (default auto: detected from the content type and file extension)"),
+    rows: z.number().int().min(1).max(MAX_PREVIEW_ROWS).optional().default(DEFAULT_PREVIEW_ROWS)
+        .describe(`Number of records (or lines for text) to return (default ${DEFAULT_PREVIEW_ROWS}, max ${MAX_PREVIEW_ROWS})`),
+    delimiter: z.string().length(1).optional().describe("Field delimiter for CSV (detected by default)"),
+    maxDepth: z.number().int().min(1).max(10).optional().default(3).describe("Nesting depth shown in JSON summaries (default 3, max 10)"),
+    sampleBytes: z.number().int().min(1).max(MAX_PREVIEW_SAMPLE_BYTES).optional().default(DEFAULT_PREVIEW_SAMPLE_BYTES)
+        .describe(`Bytes read from the start of the file for tables, and the largest JSON document parsed (default ${DEFAULT_PREVIEW_SAMPLE_BYTES}, max ${MAX_PREVIEW_SAMPLE_BYTES})`),
+    maxDimension: z.number().int().min(16).max(4096).optional().default(DEFAULT_IMAGE_PREVIEW_DIMENSION)
+        .describe(`Largest width or height of a returned image in pixels (default ${DEFAULT_IMAGE_PREVIEW_DIMENSION})`)
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const StorageReportSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    prefix: z.string().optional().describe("Only report on objects under this prefix"),
+    depth: z.number().int().min(1).max(10).optional().default(1).describe("Folder levels below the prefix to group by (default 1, max 10)"),
+    largest: z.number().int().min(0).max(100).optional().default(10).describe("Number of largest objects to list (default 10, max 100)"),
+    maxGroups: z.number().int().min(1).max(500).optional().default(50)
+        .describe("Maximum entries per breakdown; smaller groups are combined into one (default 50, max 500)"),
+    includeNoncurrent: z.boolean().optional().default(false)
+        .describe("Include noncurrent object versions, which are billed too (default false)"),
+    maxObjects: z.number().int().min(1).max(MAX_REPORT_MAX_OBJECTS).optional().default(DEFAULT_REPORT_MAX_OBJECTS)
+        .describe(`Stop after this many objects and mark the report incomplete (default ${DEFAULT_REPORT_MAX_OBJECTS})`),
+    prices: z.record(z.number().min(0)).optional()
+        .describe("Price per GiB-month by storage class, e.g. {\"STANDARD\": 0.026}. Overrides the configured prices for this report")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const SearchFilesSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    prefix: z.string().min(1).optional().describe("Search objects under this prefix"),
+    matchGlob: z.string().min(1).optional().describe("Search objects whose names match this glob (e.g., 'logs/2026-10-*')"),
+    pattern: z.string().min(1).describe("Text to search for"),
+    regex: z.boolean().optional().default(false)
+        .describe("Treat pattern as a JavaScript regular expression instead of a literal string (default false)"),
+    caseSensitive: z.boolean().optional().default(true).describe("Match case exactly (default true)"),
+    contextLines: z.number().int().min(0).max(MAX_SEARCH_CONTEXT_LINES).optional().default(2)
+        .describe(`Lines of context returned before and after each match (default 2, max ${MAX_SEARCH_CONTEXT_LINES})`),
+    maxObjects: z.number().int().min(1).max(MAX_PREFIX_OBJECT_LIMIT).optional().default(DEFAULT_PREFIX_OBJECT_LIMIT)
+        .describe(`Maximum number of objects scanned (default ${DEFAULT_PREFIX_OBJECT_LIMIT}, max ${MAX_PREFIX_OBJECT_LIMIT})`),
+    maxBytes: z.number().int().min(1).max(MAX_SEARCH_MAX_BYTES).optional().default(DEFAULT_SEARCH_MAX_BYTES)
+        .describe(`Maximum total bytes read across all objects (default ${DEFAULT_SEARCH_MAX_BYTES}, max ${MAX_SEARCH_MAX_BYTES})`),
+    maxMatches: z.number().int().min(1).max(MAX_SEARCH_MAX_MATCHES).optional().default(DEFAULT_SEARCH_MAX_MATCHES)
+        .describe(`Maximum number of matching lines returned (default ${DEFAULT_SEARCH_MAX_MATCHES}, max ${MAX_SEARCH_MAX_MATCHES})`),
+    concurrency: z.number().int().min(1).max(MAX_CONCURRENCY).optional().default(DEFAULT_CONCURRENCY)
+        .describe(`Number of objects searched in parallel (default ${DEFAULT_CONCURRENCY}, max ${MAX_CONCURRENCY})`)
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const TestBucketPermissionsSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    permissions: z.array(z.string().regex(/^storage\.[a-zA-Z]+\.[a-zA-Z]+$/)).min(1).optional()
+        .describe("Permissions to test, e.g. storage.objects.get (defaults to the common bucket and object permissions)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const UpdateBucketIamBindingSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    action: z.enum(["add", "remove"]).describe("Whether to add or remove the members"),
+    role: z.string().regex(/^(roles|projects\/[^/]+\/roles|organizations\/[^/]+\/roles)\/.+$/, "role must look like roles/storage.objectViewer")
+        .describe("Role of the binding, e.g. roles/storage.objectViewer"),
+    members: z.array(z.string().min(1)).min(1)
+        .describe("Members such as user:alice@example.com, serviceAccount:..., group:... or allUsers"),
+    dryRun: z.boolean().optional().default(false).describe("Only show the policy diff without applying it (default false)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const ListFilesSchema = z.object({
+    project: ProjectIdSchema,
+    bucket: z.string().min(1).describe("Name of the bucket"),
+    prefix: z.string().optional().describe("Filter files by prefix (folder path)"),
+    delimiter: z.string().optional()
+        .describe("Delimiter to use (e.g., '/' to get files in a specific folder). Sub-folders are returned in prefixes"),
+    matchGlob: z.string().optional().describe("Server-side glob filter on object names (e.g., 'logs/**/*.json')"),
+    maxResults: z.number().int().min(1).max(MAX_LIST_PAGE_SIZE).optional().default(DEFAULT_LIST_PAGE_SIZE)
+        .describe(`Maximum number of objects to return per page (default ${DEFAULT_LIST_PAGE_SIZE}, max ${MAX_LIST_PAGE_SIZE})`),
+    pageToken: z.string().optional().describe("Token from a previous listFiles call to continue listing"),
+    minSize: z.number().int().min(0).optional().describe("Only include files at least this many bytes in size"),
+    maxSize: z.number().int().min(0).optional().describe("Only include files at most this many bytes in size"),
+    updatedAfter: z.string().datetime({ offset: true }).optional()
+        .describe("Only include files updated at or after this ISO 8601 timestamp"),
+    updatedBefore: z.string().datetime({ offset: true }).optional()
+        .describe("Only include files updated at or before this ISO 8601 timestamp"),
+    sortBy: z.enum(["name", "size", "updated", "created"]).optional().describe("Sort the files in the page by this field"),
+    sortOrder: z.enum(["asc", "desc"]).optional().default("asc").describe("Sort direction (default asc)"),
+    view: z.enum(["flat", "tree"]).optional().default("flat").describe("Return files as a flat list (default) or as a nested folder tree"),
+    versions: z.boolean().optional().default(false).describe("Include noncurrent versions, each with its generation (default false)")
+}).refine(data => !!data.project, {
+    message: "Project ID is required. Provide it in the request or set GOOGLE_CLOUD_PROJECTS environment variable.",
+    path: ["project"]
+});
+
+const ProjectNamesSchema = z.array(z.string().min(1)).min(1).optional()
+    .describe("Projects or aliases (defaults to every project the client may use)");
+
+const CheckCredentialsSchema = z.object({
+    projects: ProjectNamesSchema
+});
+
+const AddProjectSchema = refineBackend(ProjectSettingsSchema.extend({
+    name: z.string().min(1).describe("Name to configure the project under; also the project ID unless projectId is set")
+}).strip());
+
+const RemoveProjectSchema = z.object({
+    name: z.string().min(1).describe("Name or alias of the project to remove")
+});
+
+const ReloadCredentialsSchema = z.object({
+    projects: ProjectNamesSchema
+});
+
+// Summary of an object as returned by listFiles
+interface FileEntry {
+    name: string;
+    size: number;
+    contentType?: string;
+    updated?: string;
+    created?: string;
+    // Only set when listing all versions
+    generation?: string;
+    live?: boolean;
+}
+
+// Folder node used by the listFiles tree view
+interface FileTreeNode {
+    folders: Record<string, FileTreeNode>;
+    files: FileEntry[];
+}
+
+// Apply size and updated-time filters to a page of listed files
+function filterFileEntries(
+    entries: FileEntry[],
+    filters: { minSize?: number, maxSize?: number, updatedAfter?: string, updatedBefore?: string }
+): FileEntry[] {
+    const after = filters.updatedAfter ? Date.parse(filters.updatedAfter) : undefined;
+    const before = filters.updatedBefore ? Date.parse(filters.updatedBefore) : undefined;
+    
+    return entries.filter(entry => {
+        if (filters.minSize !== undefined && entry.size < filters.minSize) return false;
+        if (filters.maxSize !== undefined && entry.size > filters.maxSize) return false;
+        if (after !== undefined || before !== undefined) {
+            const updated = entry.updated ? Date.parse(entry.updated) : NaN;
+            if (Number.isNaN(updated)) return false;
+            if (after !== undefined && updated < after) return false;
+            if (before !== undefined && updated > before) return false;
+        }
+        return true;
+    });
+}
+
+// Sort a page of listed files by the requested field
+function sortFileEntries(
+    entries: FileEntry[],
+    sortBy: "name" | "size" | "updated" | "created",
+    sortOrder: "asc" | "desc"
+): FileEntry[] {
+    const direction = sortOrder === "desc" ? -1 : 1;
+    const key = (entry: FileEntry): string | number => {
+        if (sortBy === "size") return entry.size;
+        if (sortBy === "updated") return entry.updated ? Date.parse(entry.updated) : 0;
+        if (sortBy === "created") return entry.created ? Date.parse(entry.created) : 0;
+        return entry.name;
+    };
+    
+    return [...entries].sort((a, b) => {
+        const ka = key(a);
+        const kb = key(b);
+        if (ka < kb) return -direction;
+        if (ka > kb) return direction;
+        return 0;
+    });
+}
+
+// Build a nested folder tree from object names relative to the listed prefix
+function buildFileTree(entries: FileEntry[], prefixes: string[], basePrefix: string, delimiter: string): FileTreeNode {
+    const root: FileTreeNode = { folders: {}, files: [] };
+    
+    const folderFor = (segments: string[]): FileTreeNode => {
+        let node = root;
+        for (const segment of segments) {
+            if (!node.folders[segment]) {
+                node.folders[segment] = { folders: {}, files: [] };
+            }
+            node = node.folders[segment];
+        }
+        return node;
+    };
+    
+    const relative = (name: string) => name.startsWith(basePrefix) ? name.slice(basePrefix.length) : name;
+    
+    for (const prefix of prefixes) {
+        const segments = relative(prefix).split(delimiter).filter(segment => segment);
+        folderFor(segments);
+    }
+    
+    for (const entry of entries) {
+        const segments = relative(entry.name).split(delimiter);
+        const fileName = segments.pop() ?? "";
+        // Zero-byte "folder" placeholder objects end with the delimiter
+        if (!fileName) {
+            folderFor(segments.filter(segment => segment));
+            continue;
+        }
+        folderFor(segments.filter(segment => segment)).files.push({ ...entry, name: fileName });
+    }
+    
+    return root;
+}
+
+type RelocateRequest = z.infer<typeof RelocateFileSchema>;
+
+// Copy (or move, when removeSource is set) one object or every object under a prefix.
+// Rewrites happen server-side; cross-project transfers stream through this server
+// when the source credentials cannot write to the destination bucket.
+async function relocateObjects(request: RelocateRequest, removeSource: boolean) {
+    const destinationProject = request.destinationProject ?? request.project;
+    const destinationBucketName = request.destinationBucket ?? request.bucket;
+    const sourceClient = getStorageClientForProject(request.project);
+    const destinationClient = getStorageClientForProject(destinationProject);
+    const sourceBucket = sourceClient.bucket(request.bucket);
+    const destinationBucket = destinationClient.bucket(destinationBucketName);
+    const sameLocation = destinationProject === request.project && destinationBucketName === request.bucket;
+    const trashed: TrashedObject[] = [];
+    const trash = trashHookFor(destinationProject, removeSource ? "moveFile" : "copyFile", trashed);
+    
+    const sourcePath = (request.file ?? request.prefix)!;
+    const destinationPath = request.destination ?? sourcePath;
+    if (sameLocation && destinationPath === sourcePath) {
+        throw new ToolError("INVALID_ARGUMENT", "Destination must differ from the source when copying within the same bucket");
+    }
+    
+    // Resolve the exact source generations up front so later deletes cannot remove newer writes
+    const sources: Array<{ name: string, metadata: FileMetadata }> = [];
+    if (request.file) {
+        const [metadata] = await sourceBucket.file(request.file).getMetadata();
+        sources.push({ name: request.file, metadata });
+    } else {
+        for await (const file of iterateFiles(sourceBucket, { prefix: request.prefix })) {
+            if (sources.length >= request.maxObjects) {
+                throw new ToolError("LIMIT_EXCEEDED", `Prefix ${request.prefix} contains more than ${request.maxObjects} objects. Narrow the prefix or raise maxObjects.`);
+            }
+            sources.push({ name: file.name, metadata: file.metadata });
+        }
+        if (sources.length === 0) {
+            throw new ToolError("NOT_FOUND", `No files found under prefix ${request.prefix} in bucket ${request.bucket}`);
+        }
+    }
+    
+    const results = await mapWithConcurrency(sources, request.concurrency, async (source): Promise<CopyObjectResult> => {
+        const targetName = request.file ? destinationPath : destinationPath + source.name.slice(sourcePath.length);
+        const sourceFile = sourceBucket.file(source.name, { generation: source.metadata.generation });
+        
+        const result = await copyObject(sourceFile, source.metadata, destinationBucket.file(targetName), {
+            preserveMetadata: request.preserveMetadata,
+            overwrite: request.overwrite,
+            allowStreamingFallback: destinationProject !== request.project,
+            trash
+        });
+        
+        if (removeSource) {
+            await sourceBucket.file(source.name).delete({ ifGenerationMatch: source.metadata.generation });
+        }
+        return result;
+    });
+    
+    const succeeded = results.filter(result => result.ok).map(result => result.value);
+    const failed = results.filter(result => !result.ok).map(result => ({
+        source: `${request.bucket}/${result.item.name}`,
+        message: result.error.message
+    }));
+    
+    return {
+        success: failed.length === 0,
+        succeeded: succeeded.length,
+        failed: failed.length,
+        totalBytes: succeeded.reduce((total, result) => total + result.size, 0),
+        results: succeeded,
+        failures: failed,
+        trashed: trashed.length > 0 ? trashed : undefined
+    };
+}
+
+// Dry-run response describing a bulk plan awaiting confirmation
+function describeBulkPlan(plan: BulkPlan) {
+    return {
+        dryRun: true,
+        planId: plan.objects.length > 0 ? plan.id : null,
+        operation: plan.operation,
+        project: plan.project,
+        bucket: plan.bucket,
+        prefix: plan.prefix,
+        matchGlob: plan.matchGlob,
+        objectCount: plan.objects.length,
+        totalBytes: plan.totalBytes,
+        expiresAt: plan.objects.length > 0 ? new Date(plan.expiresAt).toISOString() : null,
+        objects: plan.objects,
+        message: plan.objects.length > 0 ?
+            `Nothing has been changed yet. Call confirmBulkOperation with planId ${plan.id} to apply this plan.` :
+            "No objects match; nothing to do."
+    };
+}
+
+// Dry-run view of a sync plan
+function describeSyncPlan(plan: SyncPlan) {
+    const count = (type: SyncPlan["actions"][number]["type"]) => plan.actions.filter(action => action.type === type).length;
+    return {
+        dryRun: true,
+        planId: plan.actions.length > 0 ? plan.id : null,
+        direction: plan.direction,
+        project: plan.project,
+        bucket: plan.bucket,
+        prefix: plan.prefix,
+        localDir: plan.localDir,
+        compare: plan.compare,
+        uploads: count("upload"),
+        downloads: count("download"),
+        deletions: count("deleteRemote") + count("deleteLocal"),
+        unchanged: plan.unchanged,
+        totalBytes: plan.totalBytes,
+        expiresAt: plan.actions.length > 0 ? new Date(plan.expiresAt).toISOString() : null,
+        actions: plan.actions.map(({ type, path, object, size, reason }) => ({ type, path, object, size, reason })),
+        skipped: plan.skipped,
+        message: plan.actions.length > 0 ?
+            `Nothing has been changed yet. Call confirmSync with planId ${plan.id} to apply this plan.` :
+            "Already in sync; nothing to do."
+    };
+}
+
+// Plan a bulk operation on the selected objects and describe the plan
+async function planBulkOperation(selection: z.infer<typeof BulkSelectionSchema>, operation: BulkOperation) {
+    const client = getStorageClientForProject(selection.project);
+    const plan = await createBulkPlan(client.bucket(selection.bucket), selection, operation);
+    return describeBulkPlan(plan);
+}
+
+// Plan syncing a local directory with a bucket prefix in either direction and describe the plan
+async function planSync(request: z.infer<typeof SyncSchema>, direction: SyncPlan["direction"]) {
+    const client = getStorageClientForProject(request.project);
+    const plan = await createSyncPlan(client.bucket(request.bucket), {
+        project: request.project,
+        direction,
+        localDir: resolveLocalPath(request.localDir, ALLOWED_LOCAL_ROOTS),
+        prefix: normalizeSyncPrefix(request.prefix),
+        compare: request.compare,
+        exclude: request.exclude,
+        deleteExtraneous: request.deleteExtraneous,
+        maxObjects: request.maxObjects,
+        concurrency: request.concurrency
+    });
+    return describeSyncPlan(plan);
+}
+
+// Resolve the projects named in a call, or every project the client may use
+function requestedProjects(names: string[] | undefined, context: ToolContext): string[] {
+    const requested = names ? [...new Set(names.map(resolveProjectName))] : context.projects;
+    const unknown = requested.find(project => !config.projects[project]);
+    if (unknown) {
+        throw new ToolError("NOT_FOUND", `Project ${unknown} is not configured`);
+    }
+    return requested;
+}
+
+// Resolve the local paths of a project added at runtime. Key files must lie in
+// the keys directory, where relative ones are looked up, or in the allowed
+// local roots, and local backends in the allowed local roots, so adding a
+// project cannot expose other local files.
+function confineProjectPaths(project: ProjectConfig) {
+    const keyRoots = [fs.existsSync(keysDir) ? fs.realpathSync(keysDir) : keysDir, ...ALLOWED_LOCAL_ROOTS];
+    const credentials = project.credentials;
+    if (credentials?.type === "keyFile") {
+        credentials.keyFile = resolveLocalPath(credentials.keyFile, keyRoots);
+    } else if (credentials?.type === "impersonate" && credentials.sourceKeyFile) {
+        credentials.sourceKeyFile = resolveLocalPath(credentials.sourceKeyFile, keyRoots);
+    }
+    if (project.backend?.type === "local") {
+        project.backend.root = resolveLocalPath(project.backend.root, ALLOWED_LOCAL_ROOTS);
+    }
+}
+
+// Read a string argument from raw (not yet validated) tool arguments
+function stringArg(args: Record<string, unknown>, key: string): string | undefined {
+    const value = args[key];
+    return typeof value === "string" && value ? value : undefined;
+}
+
+// Work out which projects, buckets and object paths a tool call touches so
+// the access policy can be checked before the tool runs
+function policyTargets(name: string, rawArgs: unknown): AccessTarget[] {
+    const args = (rawArgs && typeof rawArgs === "object" ? rawArgs : {}) as Record<string, unknown>;
+    const project = stringArg(args, "project") ?? DEFAULT_PROJECT;
+    const bucket = stringArg(args, "bucket");
+    const file = stringArg(args, "file");
+    const prefix = stringArg(args, "prefix");
+    const matchGlob = stringArg(args, "matchGlob");
+    const write = MUTATING_TOOLS.has(name);
+    const listingPrefix = prefix ?? (matchGlob ? literalPrefix(matchGlob) : "");
+    
+    switch (name) {
+        case "listProjects":
+            return [];
+        case "addProject":
+        case "removeProject":
+            return [{ project: resolveProjectName(stringArg(args, "name") ?? ""), write }];
+        case "checkCredentials":
+        case "reloadCredentials": {
+            const names = Array.isArray(args.projects) ? args.projects.filter((p): p is string => typeof p === "string") : [];
+            return names.map(name => ({ project: resolveProjectName(name), write }));
+        }
+        case "listBuckets":
+        case "findPublicExposure":
+            return [{ project, write }];
+        case "getBucket":
+            return [{ project, write, bucket }];
+        case "listFiles":
+        case "storageReport":
+        case "searchFiles":
+        case "syncToBucket":
+        case "syncFromBucket":
+        case "bulkDelete":
+        case "bulkSetMetadata":
+        case "bulkSetStorageClass":
+            return [{ project, write, bucket, prefixes: [listingPrefix] }];
+        case "uploadFile":
+        case "startUpload":
+            return [{ project, write, bucket, objects: [stringArg(args, "destination") ?? ""] }];
+        case "composeFiles": {
+            const sources = Array.isArray(args.sources) ? args.sources.filter((s): s is string => typeof s === "string") : [];
+            return [
+                // Deleting the sources afterwards needs write access to them too
+                { project, write: args.deleteSources === true, bucket, objects: sources },
+                { project, write, bucket, objects: [stringArg(args, "destination") ?? ""] }
+            ];
+        }
+        case "createArchive":
+            return [
+                { project, write: false, bucket, prefixes: [prefix ?? ""] },
+                { project, write, bucket: stringArg(args, "destinationBucket") ?? bucket, objects: [stringArg(args, "destination") ?? ""] }
+            ];
+        case "extractArchive":
+            return [
+                { project, write: false, bucket, objects: [file ?? ""] },
+                { project, write, bucket: stringArg(args, "destinationBucket") ?? bucket, prefixes: [normalizeSyncPrefix(stringArg(args, "targetPrefix"))] }
+            ];
+        case "listTrash": {
+            const trashConfig = trashConfigFor(project);
+            if (!trashConfig || !bucket) return [{ project, write, bucket }];
+            const location = trashLocation(trashConfig, bucket);
+            return [{ project, write, bucket: location.bucket, prefixes: [location.prefix + (prefix ?? "")] }];
+        }
+        case "restoreFromTrash": {
+            const trashConfig = trashConfigFor(project);
+            const trashObject = stringArg(args, "trashObject") ?? "";
+            if (!trashConfig || !bucket) return [{ project, write, bucket }];
+            const location = trashLocation(trashConfig, bucket);
+            const destination = stringArg(args, "destination") ?? originalNameOf(trashConfig, bucket, trashObject) ?? "";
+            return [
+                // The trashed copy is deleted afterwards unless it is kept
+                { project, write: args.keepInTrash !== true, bucket: location.bucket, objects: [trashObject] },
+                { project, write, bucket, objects: [destination] }
+            ];
+        }
+        case "appendUploadChunk":
+        case "finishUpload":
+        case "abortUpload": {
+            const session = findUploadSession(stringArg(args, "uploadId") ?? "");
+            if (!session) return [];
+            return [{ project: session.project, write, bucket: session.bucket, objects: [session.destination] }];
+        }
+        case "uploadFromPath": {
+            const localPath = stringArg(args, "localPath") ?? "";
+            return [{ project, write, bucket, objects: [stringArg(args, "destination") ?? path.basename(localPath)] }];
+        }
+        case "generateSignedUrl":
+            return [{ project, write: (stringArg(args, "action") ?? "read") !== "read", bucket, objects: [file ?? ""] }];
+        case "copyFile":
+        case "moveFile":
+        case "renameFile": {
+            const source = file ?? prefix ?? "";
+            const destination = stringArg(args, name === "renameFile" ? "newName" : "destination") ?? source;
+            const paths = (p: string) => file ? { objects: [p] } : { prefixes: [p] };
+            return [
+                { project, write: name !== "copyFile", bucket, ...paths(source) },
+                {
+                    project: stringArg(args, "destinationProject") ?? project,
+                    write: true,
+                    bucket: stringArg(args, "destinationBucket") ?? bucket,
+                    ...paths(destination)
+                }
+            ];
+        }
+        case "confirmSync": {
+            const plan = findSyncPlan(stringArg(args, "planId") ?? "");
+            if (!plan) return [];
+            return [{
+                project: plan.project,
+                // Pulling into a local directory only reads from storage
+                write: plan.direction === "toBucket",
+                bucket: plan.bucket,
+                prefixes: [plan.prefix]
+            }];
+        }
+        case "confirmBulkOperation": {
+            const plan = findBulkPlan(stringArg(args, "planId") ?? "");
+            if (!plan) return [];
+            return [{
+                project: plan.project,
+                write,
+                bucket: plan.bucket,
+                prefixes: [plan.prefix ?? (plan.matchGlob ? literalPrefix(plan.matchGlob) : "")]
+            }];
+        }
+        default:
+            return [{ project, write, bucket, objects: file ? [file] : undefined }];
+    }
+}
+
+// Tools served by this server, in the order they are listed
+const tools: ToolDefinition[] = [
+    defineTool({
+        name: "listBuckets",
+        description: "List all Cloud Storage buckets in a project",
+        inputSchema: ProjectSchema,
+        outputSchema: ListBucketsResultSchema,
+        failure: "Failed to list buckets",
+        async handler({ project }, context) {
+            const client = getStorageClientForProject(project);
+            const [buckets] = await client.getBuckets();
+
+            return {
+                buckets: buckets.filter(bucket => context.isBucketAllowed(project, bucket.name)).map(bucket => ({
+                    name: bucket.name,
+                    id: bucket.id,
+                    location: bucket.metadata.location,
+                    storageClass: bucket.metadata.storageClass,
+                    created: bucket.metadata.timeCreated
+                }))
+            };
+        }
+    }),
+    defineTool({
+        name: "getBucket",
+        description: "Get details of a specific Cloud Storage bucket",
+        inputSchema: BucketSchema,
+        outputSchema: GetBucketResultSchema,
+        failure: "Bucket not found or access denied",
+        async handler({ project, bucket }) {
+            const client = getStorageClientForProject(project);
+            const [metadata] = await client.bucket(bucket).getMetadata();
+
+            return {
+                name: metadata.name ?? bucket,
+                id: metadata.id,
+                projectNumber: metadata.projectNumber,
+                location: metadata.location,
+                locationType: metadata.locationType,
+                storageClass: metadata.storageClass,
+                timeCreated: metadata.timeCreated,
+                updated: metadata.updated,
+                metageneration: metadata.metageneration,
+                etag: metadata.etag,
+                versioning: metadata.versioning?.enabled === true,
+                labels: metadata.labels ?? {}
+            };
+        }
+    }),
+    defineTool({
+        name: "getBucketConfig",
+        description: "Get a structured view of a bucket's configuration: versioning, lifecycle rules, CORS, labels, default object metadata, retention and access settings",
+        inputSchema: BucketSchema,
+        outputSchema: GetBucketConfigResultSchema,
+        failure: "Bucket not found or access denied",
+        async handler({ project, bucket }) {
+            const client = getStorageClientForProject(project);
+            const [metadata] = await client.bucket(bucket).getMetadata();
+
+            return summarizeBucketConfig(metadata);
+        }
+    }),
+    defineTool({
+        name: "storageReport",
+        description: "Report storage usage for a bucket or prefix: object count, bytes and estimated monthly cost by prefix, storage class, content type and age, plus the largest objects. The listing is streamed, so large buckets can be reported on.",
+        inputSchema: StorageReportSchema,
+        outputSchema: StorageReportResultSchema,
+        failure: "Failed to build storage report",
+        async handler({ project, bucket, prefix, depth, largest, maxGroups, includeNoncurrent, maxObjects, prices }) {
+            const client = getStorageClientForProject(project);
+            const bucketObj = client.bucket(bucket);
+            const [metadata] = await bucketObj.getMetadata();
+
+            const report = await buildStorageReport(bucketObj, {
+                prefix,
+                depth,
+                largest,
+                maxGroups,
+                includeNoncurrent,
+                maxObjects,
+                prices: { ...STORAGE_PRICES, ...prices },
+                defaultStorageClass: metadata.storageClass ?? "STANDARD"
+            });
+
+            return {
+                ...report,
+                location: metadata.location,
+                locationType: metadata.locationType
+            };
+        }
+    }),
+    defineTool({
+        name: "createBucket",
+        description: "Create a Cloud Storage bucket",
+        inputSchema: CreateBucketSchema,
+        outputSchema: CreateBucketResultSchema,
+        mutating: true,
+        failure: "Failed to create bucket",
+        async handler({ project, bucket, location, storageClass, uniformBucketLevelAccess, versioning, labels }) {
+            const client = getStorageClientForProject(project);
+            const [created] = await client.createBucket(bucket, {
+                location,
+                storageClass,
+                iamConfiguration: {
+                    uniformBucketLevelAccess: { enabled: uniformBucketLevelAccess }
+                },
+                versioning: { enabled: versioning },
+                labels
+            });
+            const [metadata] = await created.getMetadata();
+
+            return {
+                success: true,
+                message: `Bucket ${bucket} created successfully in project ${project}`,
+                config: summarizeBucketConfig(metadata)
+            };
+        }
+    }),
+    defineTool({
+        name: "deleteBucket",
+        description: "Delete an empty Cloud Storage bucket. Fails if the bucket still contains any objects or noncurrent versions.",
+        inputSchema: DeleteBucketSchema,
+        outputSchema: DeleteBucketResultSchema,
+        mutating: true,
+        failure: "Failed to delete bucket",
+        async handler({ project, bucket }) {
+            const client = getStorageClientForProject(project);
+            const bucketObj = client.bucket(bucket);
+
+            // Only empty buckets may be deleted, including noncurrent versions
+            const [files] = await bucketObj.getFiles({ autoPaginate: false, maxResults: 1, versions: true });
+            if (files.length > 0) {
+                throw new ToolError("CONFLICT", `Bucket ${bucket} is not empty. Delete its objects (including noncurrent versions) first.`);
+            }
+
+            await bucketObj.delete();
+
+            return {
+                success: true,
+                message: `Bucket ${bucket} deleted successfully from project ${project}`
+            };
+        }
+    }),
+    defineTool({
+        name: "updateBucketConfig",
+        description: "Edit bucket configuration and return a before/after diff. Omitted settings are left unchanged. Use dryRun to preview the diff without applying it.",
+        inputSchema: UpdateBucketConfigSchema,
+        outputSchema: UpdateBucketConfigResultSchema,
+        mutating: true,
+        failure: "Failed to update bucket configuration",
+        async handler({ project, bucket, dryRun, ...edits }) {
+            const client = getStorageClientForProject(project);
+            const bucketObj = client.bucket(bucket);
+            const [before] = await bucketObj.getMetadata();
+
+            const patch = buildBucketPatch(edits);
+            if (Object.keys(patch).length === 0) {
+                throw new ToolError("INVALID_ARGUMENT", "No configuration changes were requested");
+            }
+
+            let after = applyBucketPatch(before, patch);
+            if (!dryRun) {
+                // Fail rather than overwrite if the bucket was changed since it was read
+                [after] = await bucketObj.setMetadata(patch, { ifMetagenerationMatch: before.metageneration });
+            }
+
+            const beforeSummary = summarizeBucketConfig(before);
+            const afterSummary = summarizeBucketConfig(after);
+
+            return {
+                success: true,
+                dryRun,
+                message: dryRun ?
+                    `Dry run: no changes were applied to bucket ${bucket}` :
+                    `Configuration of bucket ${bucket} updated successfully`,
+                changes: diffBucketConfig(beforeSummary, afterSummary),
+                before: beforeSummary,
+                after: afterSummary
+            };
+        }
+    }),
+    defineTool({
+        name: "getBucketIamPolicy",
+        description: "Get the IAM policy of a bucket, including conditional bindings",
+        inputSchema: BucketSchema,
+        outputSchema: GetBucketIamPolicyResultSchema,
+        failure: "Failed to get bucket IAM policy",
+        async handler({ project, bucket }) {
+            const client = getStorageClientForProject(project);
+            return getBucketPolicy(client.bucket(bucket));
+        }
+    }),
+    defineTool({
+        name: "testBucketPermissions",
+        description: "Check which Cloud Storage permissions the server's credentials hold on a bucket and the access policy lets it use",
+        inputSchema: TestBucketPermissionsSchema,
+        outputSchema: TestBucketPermissionsResultSchema,
+        failure: "Failed to test bucket permissions",
+        async handler({ project, bucket, permissions }, context) {
+            const client = getStorageClientForProject(project);
+            const [results] = await client.bucket(bucket).iam.testPermissions(permissions ?? DEFAULT_TEST_PERMISSIONS);
+            // A permission the policy withholds is as unusable as one IAM does not grant
+            const granted = (permission: string) => results[permission] && context.isPermissionAllowed(project, permission);
+
+            return {
+                bucket,
+                granted: Object.keys(results).filter(granted),
+                missing: Object.keys(results).filter(permission => !granted(permission))
+            };
+        }
+    }),
+    defineTool({
+        name: "updateBucketIamBinding",
+        description: "Add or remove members of a role binding in a bucket's IAM policy. Returns a diff of the policy; use dryRun to preview it.",
+        inputSchema: UpdateBucketIamBindingSchema,
+        outputSchema: UpdateBucketIamBindingResultSchema,
+        mutating: true,
+        failure: "Failed to update bucket IAM policy",
+        async handler({ project, bucket, action, role, members, dryRun }) {
+            const client = getStorageClientForProject(project);
+            const bucketObj = client.bucket(bucket);
+            const before = await getBucketPolicy(bucketObj);
+
+            let after = applyBindingChange(before, { action, role, members });
+            const changes = diffPolicies(before, after);
+            if (Object.keys(changes).length === 0) {
+                throw new ToolError("INVALID_ARGUMENT", `The policy already ${action === "add" ? "grants" : "does not grant"} ${role} to the given members`);
+            }
+
+            if (!dryRun) {
+                // The etag read above makes the write fail if the policy changed in between
+                [after] = await bucketObj.iam.setPolicy(after);
+            }
+
+            return {
+                success: true,
+                dryRun,
+                message: dryRun ?
+                    `Dry run: the IAM policy of bucket ${bucket} was not changed` :
+                    `IAM policy of bucket ${bucket} updated successfully`,
+                changes,
+                policy: after
+            };
+        }
+    }),
+    defineTool({
+        name: "listTrash",
+        description: "List objects that were copied to the trash before being deleted or overwritten, newest first. Only available when trash mode is enabled for the project.",
+        inputSchema: ListTrashSchema,
+        outputSchema: ListTrashResultSchema,
+        failure: "Failed to list trash",
+        async handler({ project, bucket, prefix, maxResults }) {
+            const trashConfig = trashConfigFor(project);
+            if (!trashConfig) {
+                throw new ToolError("NOT_CONFIGURED", `Trash mode is not enabled for project ${project}`);
+            }
+            const client = getStorageClientForProject(project);
+            return listTrash(client, trashConfig, bucket, { prefix, maxResults });
+        }
+    }),
+    defineTool({
+        name: "restoreFromTrash",
+        description: "Restore a trashed object to its original name, or to another destination, and remove it from the trash",
+        inputSchema: RestoreFromTrashSchema,
+        outputSchema: RestoreFromTrashResultSchema,
+        mutating: true,
+        failure: "Failed to restore from trash",
+        async handler({ project, bucket, trashObject, destination, overwrite, keepInTrash }) {
+            const trashConfig = trashConfigFor(project);
+            if (!trashConfig) {
+                throw new ToolError("NOT_CONFIGURED", `Trash mode is not enabled for project ${project}`);
+            }
+            const client = getStorageClientForProject(project);
+
+            // An object being replaced by the restore goes to the trash like any other overwrite
+            const trashed: TrashedObject[] = [];
+            const target = destination ?? originalNameOf(trashConfig, bucket, trashObject);
+            let expectedGeneration: string | number | undefined;
+            if (overwrite && target && !isInTrash(trashConfig, bucket, target)) {
+                // The restore may only replace the version that was trashed
+                expectedGeneration = await liveGeneration(client.bucket(bucket).file(target));
+                if (String(expectedGeneration) !== "0") {
+                    await trashHookFor(project, "restoreFromTrash", trashed)?.(client.bucket(bucket), target, expectedGeneration);
+                }
+            }
+
+            const restored = await writeAfterTrashing(client, trashed, () => restoreFromTrash(client, trashConfig, bucket, trashObject, {
+                destination,
+                overwrite,
+                keepInTrash,
+                ifGenerationMatch: expectedGeneration
+            }));
+
+            return {
+                success: true,
+                message: `Restored ${trashObject} to ${bucket}/${restored.destination}`,
+                ...restored,
+                trashed: trashed.length > 0 ? trashed : undefined
+            };
+        }
+    }),
+    defineTool({
+        name: "getFileAcl",
+        description: "Get the access control list of a file. Files in buckets with uniform bucket-level access have no ACL.",
+        inputSchema: FileSchema,
+        outputSchema: GetFileAclResultSchema,
+        failure: "Failed to get file ACL",
+        async handler({ project, bucket, file }) {
+            const client = getStorageClientForProject(project);
+            const bucketObj = client.bucket(bucket);
+            const [bucketMetadata] = await bucketObj.getMetadata();
+
+            if (bucketMetadata.iamConfiguration?.uniformBucketLevelAccess?.enabled) {
+                return {
+                    file,
+                    uniformBucketLevelAccess: true,
+                    message: `Bucket ${bucket} uses uniform bucket-level access, so access to ${file} is controlled by the bucket IAM policy only`,
+                    acl: []
+                };
+            }
+
+            const [acl] = await bucketObj.file(file).acl.get();
+
+            return {
+                file,
+                uniformBucketLevelAccess: false,
+                acl: ([] as unknown[]).concat(acl).map(entry => {
+                    const { entity, role, projectTeam } = entry as { entity: string, role: string, projectTeam?: unknown };
+                    return { entity, role, projectTeam };
+                })
+            };
+        }
+    }),
+    defineTool({
+        name: "findPublicExposure",
+        description: "Report buckets in a project that are or could become public: allUsers/allAuthenticatedUsers IAM bindings or ACLs, public access prevention not enforced, and fine-grained (non-uniform) access",
+        inputSchema: ProjectSchema,
+        outputSchema: FindPublicExposureResultSchema,
+        failure: "Failed to check public exposure",
+        async handler({ project }, context) {
+            const client = getStorageClientForProject(project);
+            const [allBuckets] = await client.getBuckets();
+            const buckets = allBuckets.filter(bucket => context.isBucketAllowed(project, bucket.name));
+
+            const results = await mapWithConcurrency(buckets, DEFAULT_CONCURRENCY, async bucket => {
+                const [metadata] = await bucket.getMetadata();
+                const policy = await getBucketPolicy(bucket);
+                const acls = await getBucketAcls(bucket, metadata);
+                return {
+                    bucket: bucket.name,
+                    publicAccessPrevention: metadata.iamConfiguration?.publicAccessPrevention ?? "inherited",
+                    uniformBucketLevelAccess: metadata.iamConfiguration?.uniformBucketLevelAccess?.enabled ?? false,
+                    findings: bucketExposureFindings(metadata, policy, acls)
+                };
+            });
+
+            const reports = results.filter(result => result.ok).map(result => result.value);
+            const publicBuckets = reports
+                .filter(report => report.findings.some(finding => finding.severity === "high"))
+                .map(report => report.bucket);
+
+            return {
+                project,
+                bucketsChecked: buckets.length,
+                publicBuckets,
+                buckets: reports,
+                // Buckets whose policy could not be read are reported rather than skipped silently
+                errors: results.filter(result => !result.ok).map(result => ({
+                    bucket: result.item.name,
+                    message: result.error.message
+                }))
+            };
+        }
+    }),
+    defineTool({
+        name: "listFiles",
+        description: "List files in a Cloud Storage bucket, one page at a time. Pass the returned nextPageToken as pageToken to fetch the next page. Size and time filters and sorting apply to the current page only.",
+        inputSchema: ListFilesSchema,
+        outputSchema: ListFilesResultSchema,
+        failure: "Failed to list files",
+        async handler({
+            project, bucket, prefix, delimiter, matchGlob, maxResults, pageToken, minSize, maxSize, updatedAfter, updatedBefore, sortBy, sortOrder, view, versions
+        }) {
+            const client = getStorageClientForProject(project);
+            const options: GetFilesOptions = { autoPaginate: false, maxResults };
+
+            if (prefix) options.prefix = prefix;
+            if (delimiter) options.delimiter = delimiter;
+            if (matchGlob) options.matchGlob = matchGlob;
+            if (pageToken) options.pageToken = pageToken;
+            if (versions) options.versions = true;
+
+            const [files, nextQuery, apiResponse] = await client.bucket(bucket).getFiles(options);
+
+            let entries: FileEntry[] = files.map(file => ({
+                name: file.name,
+                size: Number(file.metadata.size ?? 0),
+                contentType: file.metadata.contentType,
+                updated: file.metadata.updated,
+                created: file.metadata.timeCreated,
+                ...(versions ? {
+                    generation: String(file.metadata.generation),
+                    live: !file.metadata.timeDeleted
+                } : {})
+            }));
+
+            entries = filterFileEntries(entries, { minSize, maxSize, updatedAfter, updatedBefore });
+            if (sortBy) entries = sortFileEntries(entries, sortBy, sortOrder);
+
+            const prefixes = (apiResponse as { prefixes?: string[] } | undefined)?.prefixes ?? [];
+            const nextPageToken = (nextQuery as { pageToken?: string } | null)?.pageToken;
+
+            return {
+                ...(view === "tree" ?
+                    { tree: buildFileTree(entries, prefixes, prefix ?? "", delimiter || "/") } :
+                    { files: entries, prefixes }),
+                count: entries.length,
+                nextPageToken: nextPageToken ?? null
+            };
+        }
+    }),
+    defineTool({
+        name: "searchFiles",
+        description: "Search the text of every object under a prefix and/or matching a glob for a literal string or regular expression, like grep. Objects are streamed and gzip content is decompressed; binary objects are skipped. Returns matching lines with object name, line number and context.",
+        inputSchema: SearchFilesSchema,
+        outputSchema: SearchFilesResultSchema,
+        failure: "Failed to search files",
+        async handler({
+            project, bucket, prefix, matchGlob, pattern, regex, caseSensitive, contextLines, maxObjects, maxBytes, maxMatches, concurrency
+        }, { signal, progress }) {
+            const matcher = buildSearchPattern(pattern, { regex, caseSensitive });
+            const client = getStorageClientForProject(project);
+            const bucketObj = client.bucket(bucket);
+
+            const files = [];
+            let objectLimitReached = false;
+            for await (const file of iterateFiles(bucketObj, { prefix, matchGlob })) {
+                if (files.length >= maxObjects) {
+                    objectLimitReached = true;
+                    break;
+                }
+                if (signal.aborted) break;
+                files.push(file);
+            }
+
+            const budget: SearchBudget = { bytesRemaining: maxBytes, matchesRemaining: maxMatches };
+            const results = await mapWithConcurrency(files, concurrency, async (file): Promise<ObjectSearchResult | undefined> => {
+                // Objects reached after a limit was hit are not opened at all
+                if (budget.bytesRemaining <= 0 || budget.matchesRemaining <= 0) return undefined;
+                return searchObject(file, file.metadata, matcher, { contextLines, budget, signal });
+            }, {
+                signal,
+                onSettled: settled => progress(settled, files.length, `Searched ${settled} of ${files.length} objects`)
+            });
+
+            const matches = [];
+            let objectsScanned = 0;
+            let bytesScanned = 0;
+            const binarySkipped: string[] = [];
+            for (const result of results) {
+                if (!result.ok || !result.value) continue;
+                const { value } = result;
+                bytesScanned += value.bytesScanned;
+                if (value.skipped === "binary") {
+                    binarySkipped.push(result.item.name);
+                    continue;
+                }
+                objectsScanned++;
+                for (const match of value.matches) {
+                    matches.push({ object: result.item.name, ...match });
+                }
+            }
+
+            const byteLimitReached = budget.bytesRemaining <= 0;
+            const matchLimitReached = budget.matchesRemaining <= 0;
+
+            return {
+                pattern,
+                matches,
+                matchCount: matches.length,
+                objectsListed: files.length,
+                objectsScanned,
+                bytesScanned,
+                binarySkipped,
+                // A search that hit a limit or was cancelled may have missed matches
+                complete: !objectLimitReached && !byteLimitReached && !matchLimitReached && !signal.aborted,
+                cancelled: signal.aborted,
+                limitsReached: {
+                    objects: objectLimitReached,
+                    bytes: byteLimitReached,
+                    matches: matchLimitReached
+                },
+                errors: results.filter(result => !result.ok).map(result => ({
+                    object: result.item.name,
+                    message: result.error.message
+                }))
+            };
+        }
+    }),
+    defineTool({
+        name: "getFile",
+        description: "Get details of a specific file in a Cloud Storage bucket",
+        inputSchema: GetFileSchema,
+        outputSchema: GetFileResultSchema,
+        failure: "File not found or access denied",
+        async handler({ project, bucket, file, generation }) {
+            const client = getStorageClientForProject(project);
+            const [metadata] = await client.bucket(bucket).file(file, { generation }).getMetadata();
+
+            // Custom metadata values are strings, or null once removed
+            const custom: Record<string, string | null> = {};
+            for (const [key, value] of Object.entries(metadata.metadata ?? {})) {
+                custom[key] = value === null || value === undefined ? null : String(value);
+            }
+            return {
+                name: metadata.name ?? file,
+                bucket: metadata.bucket ?? bucket,
+                generation: metadata.generation,
+                metageneration: metadata.metageneration,
+                size: metadata.size,
+                contentType: metadata.contentType,
+                contentEncoding: metadata.contentEncoding,
+                contentDisposition: metadata.contentDisposition,
+                contentLanguage: metadata.contentLanguage,
+                cacheControl: metadata.cacheControl,
+                storageClass: metadata.storageClass,
+                timeCreated: metadata.timeCreated,
+                updated: metadata.updated,
+                timeDeleted: metadata.timeDeleted,
+                crc32c: metadata.crc32c,
+                md5Hash: metadata.md5Hash,
+                etag: metadata.etag,
+                kmsKeyName: metadata.kmsKeyName,
+                temporaryHold: metadata.temporaryHold ?? undefined,
+                eventBasedHold: metadata.eventBasedHold ?? undefined,
+                metadata: custom
+            };
+        }
+    }),
+    defineTool({
+        name: "uploadFile",
+        description: "Upload a file to a Cloud Storage bucket",
+        inputSchema: UploadFileSchema,
+        outputSchema: UploadFileResultSchema,
+        mutating: true,
+        failure: "Failed to upload file",
+        async handler({ project, bucket, destination, content, contentType, ifGenerationMatch, ifNotExists }, { signal, progress }) {
+            const client = getStorageClientForProject(project);
+            const file = client.bucket(bucket).file(destination);
+
+            // Check if the content is Base64 encoded
+            let fileContent: Buffer;
+            try {
+                fileContent = Buffer.from(content, 'base64');
+            } catch (e) {
+                // If not Base64, treat as plain text
+                fileContent = Buffer.from(content);
+            }
+
+            const options: CreateWriteStreamOptions = {};
+            if (contentType) options.contentType = contentType;
+
+            // Generation 0 means the object must not exist yet. With trash mode on, the
+            // upload may only replace the version that was trashed.
+            const trashed: TrashedObject[] = [];
+            const trash = trashHookFor(project, "uploadFile", trashed);
+            const generationPrecondition = ifNotExists ? 0 : ifGenerationMatch ?? (trash ? await liveGeneration(file) : undefined);
+            if (generationPrecondition !== undefined) {
+                options.preconditionOpts = { ifGenerationMatch: generationPrecondition };
+            }
+            if (trash && String(generationPrecondition) !== "0") {
+                await trash(client.bucket(bucket), destination, generationPrecondition);
+            }
+
+            // Streamed so that cancelling the call abandons the upload instead of finishing it
+            const upload = file.createWriteStream(options);
+            let bytesSent = 0;
+            upload.on("progress", ({ bytesWritten }: { bytesWritten: number }) => {
+                bytesSent = bytesWritten;
+                progress(bytesWritten, fileContent.length);
+            });
+            await writeAfterTrashing(client, trashed, async () => {
+                try {
+                    await pipeline(Readable.from([fileContent]), upload, { signal });
+                } catch (error) {
+                    checkCancelled(signal, `${bytesSent} of ${fileContent.length} bytes were sent; nothing was stored`);
+                    throw error;
+                }
+            });
+
+            const [metadata] = await file.getMetadata();
+
+            return {
+                success: true,
+                message: `File uploaded successfully to ${bucket}/${destination}`,
+                metadata,
+                trashed: trashed.length > 0 ? trashed : undefined
+            };
+        }
+    }),
+    defineTool({
+        name: "downloadFile",
+        description: `Download a file from a Cloud Storage bucket. At most ${MAX_INLINE_BYTES} bytes are returned inline; larger content is cut off and marked as truncated. Gzip-encoded objects are decompressed by default.`,
+        inputSchema: DownloadFileSchema,
+        outputSchema: DownloadFileResultSchema,
+        failure: "Failed to download file",
+        async handler({ project, bucket, file, generation, start, end, mode, lines, maxBytes, decompress }, { signal, progress }) {
+            const client = getStorageClientForProject(project);
+            const fileObj = client.bucket(bucket).file(file, { generation });
+
+            // Check if file exists
+            const [exists] = await fileObj.exists();
+            if (!exists) {
+                throw new ToolError("NOT_FOUND", `File ${file} does not exist in bucket ${bucket}`);
+            }
+
+            // Get the file metadata to determine content type and size
+            const [metadata] = await fileObj.getMetadata();
+
+            const size = Number(metadata.size ?? 0);
+            // A range from 0 is satisfiable on an empty object and returns nothing
+            if (start !== undefined && start >= size && !(start === 0 && size === 0) && !(decompress && isGzipped(metadata))) {
+                throw new ToolError("OUT_OF_RANGE", `start ${start} is beyond the end of the file (${size} bytes)`);
+            }
+
+            // Download the requested part of the file, reporting the stored bytes read
+            const inlineBytes = Math.min(maxBytes ?? MAX_INLINE_BYTES, MAX_INLINE_BYTES);
+            const expectedBytes = mode || (decompress && isGzipped(metadata)) ?
+                undefined :
+                Math.min((end ?? size - 1) - (start ?? 0) + 1, inlineBytes);
+            let bytesRead = 0;
+            let result;
+            try {
+                result = await readObject(fileObj, metadata, {
+                    start,
+                    end,
+                    mode,
+                    lines,
+                    maxBytes: inlineBytes,
+                    decompress,
+                    signal,
+                    onProgress: bytes => {
+                        bytesRead = bytes;
+                        progress(Math.min(bytes, expectedBytes ?? bytes), expectedBytes);
+                    }
+                });
+            } catch (error) {
+                checkCancelled(signal, `${bytesRead} bytes of ${file} were read`);
+                throw error;
+            }
+
+            // For text files, convert to string
+            const isTextFile = isTextContent(metadata.contentType, result.content);
+            if (mode && !isTextFile) {
+                throw new ToolError("INVALID_ARGUMENT", `Line mode '${mode}' is only supported for text files`);
+            }
+
+            const fileContent = isTextFile ?
+                result.content.toString('utf-8') :
+                // For binary files, return base64 encoded
+                result.content.toString('base64');
+
+            return {
+                name: file,
+                generation: metadata.generation,
+                contentType: metadata.contentType,
+                contentEncoding: metadata.contentEncoding,
+                size: metadata.size,
+                decompressed: result.decompressed,
+                range: result.range,
+                bytesReturned: result.content.length,
+                truncated: result.truncated,
+                ...(result.truncated ? {
+                    notice: `[truncated: returned ${result.content.length} bytes of a ${size} byte file; use start/end, head/tail or maxBytes to read other parts]`
+                } : {}),
+                content: fileContent,
+                encoding: isTextFile ? 'utf-8' : 'base64'
+            };
+        }
+    }),
+    defineTool({
+        name: "previewFile",
+        description: "Preview a file in a structured form: CSV/TSV and JSON Lines as a table of the first rows with inferred column types and an estimated row count, JSON as a depth-limited summary, and images as inline images (downscaled if needed). Gzip-compressed files are decompressed.",
+        inputSchema: PreviewFileSchema,
+        outputSchema: PreviewFileResultSchema,
+        failure: "Failed to preview file",
+        async handler({
+            project, bucket, file, generation, format, rows, delimiter, maxDepth, sampleBytes, maxDimension
+        }, context) {
+            const client = getStorageClientForProject(project);
+            const fileObj = client.bucket(bucket).file(file, { generation });
+            const [metadata] = await fileObj.getMetadata();
+            const size = Number(metadata.size ?? 0);
+            const contentType = contentTypeFor(file, metadata);
+
+            // For compressed files such as data.csv.gz the format comes from the inner extension
+            const gzipFile = contentType === "application/gzip" || contentType === "application/x-gzip";
+            const previewFormat = format !== "auto" ? format :
+                detectPreviewFormat(gzipFile ? file.replace(/\.gz$/i, "") : file, gzipFile ? undefined : contentType);
+
+            const summary = {
+                name: file,
+                generation: metadata.generation,
+                contentType: metadata.contentType,
+                size: metadata.size,
+                format: previewFormat
+            };
+
+            if (previewFormat === "image") {
+                if (size > MAX_IMAGE_PREVIEW_BYTES) {
+                    throw new ToolError("LIMIT_EXCEEDED", `Image is ${size} bytes; images larger than ${MAX_IMAGE_PREVIEW_BYTES} bytes cannot be previewed`);
+                }
+                const { content } = await readObject(fileObj, metadata, { maxBytes: MAX_IMAGE_PREVIEW_BYTES, decompress: true });
+                const image = await renderImagePreview(content, contentType, maxDimension);
+
+                context.content.push({
+                    type: "image",
+                    data: image.data.toString("base64"),
+                    mimeType: image.mimeType
+                });
+                return {
+                    ...summary,
+                    width: image.original.width,
+                    height: image.original.height,
+                    resized: image.resized,
+                    returned: { width: image.width, height: image.height, mimeType: image.mimeType }
+                };
+            }
+
+            if (previewFormat === "json") {
+                const result = await readObject(fileObj, metadata, { maxBytes: sampleBytes, decompress: true });
+                if (result.truncated) {
+                    throw new ToolError("LIMIT_EXCEEDED", `JSON document is larger than sampleBytes (${sampleBytes}); raise sampleBytes or read part of it with downloadFile`);
+                }
+                const document = JSON.parse(result.content.toString("utf-8"));
+
+                return {
+                    ...summary,
+                    topLevelType: Array.isArray(document) ? "array" : document === null ? "null" : typeof document,
+                    maxDepth,
+                    summary: summarizeJson(document, maxDepth)
+                };
+            }
+
+            if (previewFormat === "text") {
+                const result = await readObject(fileObj, metadata, {
+                    mode: "head",
+                    lines: rows,
+                    maxBytes: Math.min(sampleBytes, MAX_INLINE_BYTES),
+                    decompress: true
+                });
+                if (!isTextContent(contentType, result.content)) {
+                    throw new ToolError("INVALID_ARGUMENT", `${file} does not look like text; use downloadFile to read it as base64`);
+                }
+
+                return {
+                    ...summary,
+                    lines: result.content.toString("utf-8").split("\n").slice(0, rows),
+                    truncated: result.truncated
+                };
+            }
+
+            // CSV, TSV and JSON Lines are previewed from a sample at the start of the file
+            const result = await readObject(fileObj, metadata, { maxBytes: sampleBytes, decompress: true });
+            const text = result.content.toString("utf-8");
+            const complete = !result.truncated;
+
+            let table: TablePreview;
+            let fieldDelimiter: string | undefined;
+            if (previewFormat === "ndjson") {
+                table = previewNdjson(text, { rows, complete });
+            } else {
+                fieldDelimiter = delimiter ?? (previewFormat === "tsv" ? "\t" : detectDelimiter(text));
+                table = previewDelimited(text, { delimiter: fieldDelimiter, rows, complete });
+            }
+
+            // The stored size of a compressed file says little about its record count
+            const rowCount = complete ? table.sampledRecords :
+                result.decompressed ? undefined : estimateRecordCount(table, size);
+
+            return {
+                ...summary,
+                delimiter: fieldDelimiter,
+                columns: table.columns,
+                rows: table.rows,
+                rowsReturned: table.rows.length,
+                rowCount: rowCount ?? null,
+                rowCountExact: complete,
+                parseErrors: table.errors
+            };
+        }
+    }),
+    defineTool({
+        name: "uploadFromPath",
+        description: "Upload a local file to a Cloud Storage bucket using a streaming resumable upload with checksum verification. The local path must be inside ALLOWED_LOCAL_ROOTS.",
+        inputSchema: UploadFromPathSchema,
+        outputSchema: UploadFromPathResultSchema,
+        mutating: true,
+        failure: "Failed to upload file from path",
+        async handler({ project, bucket, localPath, destination, contentType, validation }, { signal, progress }) {
+            const client = getStorageClientForProject(project);
+            const sourcePath = resolveLocalPath(localPath, ALLOWED_LOCAL_ROOTS);
+
+            const stats = await fs.promises.stat(sourcePath);
+            if (!stats.isFile()) {
+                throw new ToolError("INVALID_ARGUMENT", `${localPath} is not a regular file`);
+            }
+
+            const objectName = destination ?? path.basename(sourcePath);
+            const uploaded = client.bucket(bucket).file(objectName);
+
+            // With trash mode on, the upload may only replace the version that was trashed
+            const trashed: TrashedObject[] = [];
+            const trash = trashHookFor(project, "uploadFromPath", trashed);
+            const expectedGeneration = trash ? await liveGeneration(uploaded) : undefined;
+            if (trash && String(expectedGeneration) !== "0") {
+                await trash(client.bucket(bucket), objectName, expectedGeneration);
+            }
+
+            // Streams the file from disk; the client verifies the checksum once the upload completes.
+            // A cancelled call destroys the stream, which abandons the resumable session.
+            const upload = uploaded.createWriteStream({
+                resumable: true,
+                validation,
+                // Without a content type, the client picks one from the object name's
+                // extension, or leaves it to Cloud Storage for unknown extensions
+                contentType,
+                preconditionOpts: expectedGeneration !== undefined ? { ifGenerationMatch: expectedGeneration } : undefined
+            });
+            let bytesSent = 0;
+            upload.on("progress", ({ bytesWritten }: { bytesWritten: number }) => {
+                bytesSent = bytesWritten;
+                progress(bytesWritten, stats.size);
+            });
+            await writeAfterTrashing(client, trashed, async () => {
+                try {
+                    await pipeline(fs.createReadStream(sourcePath), upload, { signal });
+                } catch (error) {
+                    checkCancelled(signal, `${bytesSent} of ${stats.size} bytes were sent; nothing was stored`);
+                    throw error;
+                }
+            });
+            const [metadata] = await uploaded.getMetadata();
+
+            return {
+                success: true,
+                message: `File ${sourcePath} uploaded successfully to ${bucket}/${objectName}`,
+                bytes: stats.size,
+                metadata,
+                trashed: trashed.length > 0 ? trashed : undefined
+            };
+        }
+    }),
+    defineTool({
+        name: "startUpload",
+        description: "Start a chunked upload session backed by a Cloud Storage resumable upload. Send the content with appendUploadChunk and complete it with finishUpload. Sessions idle for more than an hour are abandoned.",
+        inputSchema: StartUploadSchema,
+        outputSchema: StartUploadResultSchema,
+        mutating: true,
+        failure: "Failed to start upload",
+        async handler({ project, bucket, destination, contentType, metadata, ifGenerationMatch, ifNotExists }) {
+            const client = getStorageClientForProject(project);
+
+            // Generation 0 means the object must not exist yet
+            const generationPrecondition = ifNotExists ? 0 : ifGenerationMatch;
+            const session = startUploadSession(client.bucket(bucket), {
+                project,
+                destination,
+                contentType,
+                metadata,
+                preconditionOpts: generationPrecondition !== undefined ? { ifGenerationMatch: generationPrecondition } : undefined
+            });
+
+            return {
+                ...describeUploadSession(session),
+                maxChunkBytes: MAX_UPLOAD_CHUNK_BYTES,
+                message: "Send the content with appendUploadChunk starting at sequence 0, then call finishUpload"
+            };
+        }
+    }),
+    defineTool({
+        name: "appendUploadChunk",
+        description: `Append the next chunk to an upload session. Chunks must be sent in order starting at sequence 0, each at most ${MAX_UPLOAD_CHUNK_BYTES} bytes once decoded. Resending the last chunk is acknowledged without writing it twice.`,
+        inputSchema: AppendUploadChunkSchema,
+        outputSchema: AppendUploadChunkResultSchema,
+        mutating: true,
+        failure: "Failed to append upload chunk",
+        async handler({ uploadId, sequence, data, encoding }) {
+            const chunk = Buffer.from(data, encoding);
+            if (chunk.length > MAX_UPLOAD_CHUNK_BYTES) {
+                throw new ToolError("LIMIT_EXCEEDED", `Chunk is ${chunk.length} bytes; chunks can be at most ${MAX_UPLOAD_CHUNK_BYTES} bytes`);
+            }
+
+            const { session, duplicate } = await appendUploadChunk(uploadId, sequence, chunk);
+
+            return {
+                ...describeUploadSession(session),
+                sequence,
+                chunkBytes: chunk.length,
+                duplicate
+            };
+        }
+    }),
+    defineTool({
+        name: "finishUpload",
+        description: "Complete an upload session. The stored object is checked against the CRC32C of the chunks received and any checksums given; on a mismatch the object is deleted and an error is returned.",
+        inputSchema: FinishUploadSchema,
+        outputSchema: FinishUploadResultSchema,
+        mutating: true,
+        failure: "Failed to finish upload",
+        async handler({ uploadId, crc32c, md5Hash }) {
+            // The object is only replaced once the upload is finished, so the trash copy is
+            // taken now, of the generation the upload's precondition allows it to replace
+            const trashed: TrashedObject[] = [];
+            const pending = findUploadSession(uploadId);
+            if (pending && String(pending.ifGenerationMatch) !== "0") {
+                await trashHookFor(pending.project, "finishUpload", trashed)?.(pending.file.bucket, pending.destination, pending.ifGenerationMatch);
+            }
+
+            const finish = () => finishUploadSession(uploadId, { crc32c, md5Hash });
+            const { session, metadata, received } = pending ? await writeAfterTrashing(pending.file.bucket.storage, trashed, finish) : await finish();
+
+            return {
+                success: true,
+                message: `File uploaded successfully to ${session.bucket}/${session.destination}`,
+                chunks: session.nextSequence,
+                bytes: session.bytesReceived,
+                checksums: received,
+                metadata,
+                trashed: trashed.length > 0 ? trashed : undefined
+            };
+        }
+    }),
+    defineTool({
+        name: "abortUpload",
+        description: "Abandon an upload session and discard the content sent so far",
+        inputSchema: AbortUploadSchema,
+        outputSchema: AbortUploadResultSchema,
+        mutating: true,
+        failure: "Failed to abort upload",
+        async handler({ uploadId }) {
+            const session = abortUploadSession(uploadId);
+
+            return {
+                success: true,
+                message: `Upload to ${session.bucket}/${session.destination} was abandoned`,
+                bytesDiscarded: session.bytesReceived
+            };
+        }
+    }),
+    defineTool({
+        name: "composeFiles",
+        description: `Concatenate up to ${MAX_COMPOSE_SOURCES} existing objects in a bucket, in the order given, into a new object`,
+        inputSchema: ComposeFilesSchema,
+        outputSchema: ComposeFilesResultSchema,
+        mutating: true,
+        failure: "Failed to compose files",
+        async handler({
+            project, bucket, sources, destination, contentType, ifGenerationMatch, ifNotExists, deleteSources
+        }) {
+            const client = getStorageClientForProject(project);
+            const bucketObj = client.bucket(bucket);
+
+            // Loading the metadata pins each source to its current generation, so
+            // the objects composed are exactly the ones deleted afterwards
+            const sourceFiles = sources.map(source => bucketObj.file(source));
+            await Promise.all(sourceFiles.map(file => file.getMetadata()));
+
+            const destinationFile = bucketObj.file(destination);
+            if (contentType) destinationFile.metadata.contentType = contentType;
+
+            // Generation 0 means the object must not exist yet
+            const generationPrecondition = ifNotExists ? 0 : ifGenerationMatch;
+            const options: CombineOptions = {};
+            if (generationPrecondition !== undefined) options.ifGenerationMatch = generationPrecondition;
+
+            const trashed: TrashedObject[] = [];
+            const trash = trashHookFor(project, "composeFiles", trashed);
+            if (String(generationPrecondition) !== "0") await trash?.(bucketObj, destination, generationPrecondition);
+
+            const [composed] = await writeAfterTrashing(client, trashed, () => bucketObj.combine(sourceFiles, destinationFile, options));
+            const [metadata] = await composed.getMetadata();
+
+            // Sources that are also the destination were just replaced, so they are kept
+            const deleted: string[] = [];
+            if (deleteSources) {
+                for (const file of sourceFiles) {
+                    if (file.name === destination || deleted.includes(file.name)) continue;
+                    await trash?.(bucketObj, file.name, file.metadata.generation);
+                    await file.delete({ ifGenerationMatch: file.metadata.generation });
+                    deleted.push(file.name);
+                }
+            }
+
+            return {
+                success: true,
+                message: `Composed ${sources.length} objects into ${bucket}/${destination}`,
+                sources: sourceFiles.map(file => ({ name: file.name, generation: file.metadata.generation, size: Number(file.metadata.size ?? 0) })),
+                deletedSources: deleteSources ? deleted : undefined,
+                metadata,
+                trashed: trashed.length > 0 ? trashed : undefined
+            };
+        }
+    }),
+    defineTool({
+        name: "createArchive",
+        description: "Stream every object under a prefix into a new zip or tar.gz object. Entry names are relative to the folder containing the prefix. The object count and total size are checked against the limits before the archive is written.",
+        inputSchema: CreateArchiveSchema,
+        outputSchema: CreateArchiveResultSchema,
+        mutating: true,
+        failure: "Failed to create archive",
+        async handler({
+            project, bucket, prefix, destination, destinationBucket, format, ifGenerationMatch, ifNotExists, maxEntries, maxTotalBytes
+        }, { signal, progress }) {
+            const client = getStorageClientForProject(project);
+            const targetBucket = destinationBucket ?? bucket;
+
+            // Generation 0 means the object must not exist yet
+            const generationPrecondition = ifNotExists ? 0 : ifGenerationMatch;
+            const trashed: TrashedObject[] = [];
+            const result = await createArchive(client.bucket(bucket), client.bucket(targetBucket).file(destination), {
+                prefix,
+                format,
+                limits: { maxEntries, maxTotalBytes },
+                preconditionOpts: generationPrecondition !== undefined ? { ifGenerationMatch: generationPrecondition } : undefined,
+                trash: String(generationPrecondition) !== "0" ? trashHookFor(project, "createArchive", trashed) : undefined,
+                signal,
+                progress
+            });
+
+            return {
+                success: true,
+                message: `Archived ${result.entries} objects from ${bucket}/${prefix} into ${targetBucket}/${destination}`,
+                format,
+                entries: result.entries,
+                uncompressedBytes: result.bytes,
+                metadata: result.metadata,
+                trashed: trashed.length > 0 ? trashed : undefined
+            };
+        }
+    }),
+    defineTool({
+        name: "extractArchive",
+        description: "Stream a zip or tar.gz object and write its files under a target prefix. Entries with absolute paths or \"..\" segments, links and other special entries are skipped, and existing objects are only replaced with overwrite: true. Entry counts and sizes are checked against the limits before anything is written.",
+        inputSchema: ExtractArchiveSchema,
+        outputSchema: ExtractArchiveResultSchema,
+        mutating: true,
+        failure: "Failed to extract archive",
+        async handler({
+            project, bucket, file, generation, format, targetPrefix, destinationBucket, overwrite, maxEntries, maxTotalBytes
+        }, { signal, progress }) {
+            const client = getStorageClientForProject(project);
+            const targetBucket = destinationBucket ?? bucket;
+
+            const [metadata] = await client.bucket(bucket).file(file, { generation }).getMetadata();
+            const archiveFormat = format === "auto" ? detectArchiveFormat(file, metadata.contentType) : format;
+            if (!archiveFormat) {
+                throw new ToolError("INVALID_ARGUMENT", `Cannot tell the archive format of ${file}; set format to "zip" or "tar.gz"`);
+            }
+
+            // Pin the generation so every pass reads the same archive
+            const archive = client.bucket(bucket).file(file, { generation: metadata.generation });
+            const prefix = normalizeSyncPrefix(targetPrefix);
+            const trashed: TrashedObject[] = [];
+            const result = await extractArchive(archive, metadata, client.bucket(targetBucket), {
+                format: archiveFormat,
+                targetPrefix: prefix,
+                limits: { maxEntries, maxTotalBytes },
+                overwrite,
+                trash: trashHookFor(project, "extractArchive", trashed),
+                signal,
+                progress
+            });
+
+            return {
+                success: result.failed.length === 0 && !result.cancelled,
+                message: `Extracted ${result.extracted.length} entries from ${bucket}/${file} to ${targetBucket}/${prefix}` +
+                    (result.cancelled ? " before the call was cancelled" : ""),
+                format: archiveFormat,
+                cancelled: result.cancelled,
+                bytes: result.bytes,
+                extracted: result.extracted,
+                skipped: result.skipped,
+                failed: result.failed,
+                trashed: trashed.length > 0 ? trashed : undefined
+            };
+        }
+    }),
+    defineTool({
+        name: "downloadToPath",
+        description: "Download a file from a Cloud Storage bucket to local disk using a streaming download with checksum verification. The local path must be inside ALLOWED_LOCAL_ROOTS.",
+        inputSchema: DownloadToPathSchema,
+        outputSchema: DownloadToPathResultSchema,
+        failure: "Failed to download file to path",
+        async handler({ project, bucket, file, localPath, overwrite, validation }, { signal, progress }) {
+            const client = getStorageClientForProject(project);
+            const targetPath = resolveLocalPath(localPath, ALLOWED_LOCAL_ROOTS);
+
+            if (!overwrite && fs.existsSync(targetPath)) {
+                throw new ToolError("ALREADY_EXISTS", `Local file ${targetPath} already exists. Set overwrite to replace it.`);
+            }
+
+            const fileObj = client.bucket(bucket).file(file);
+            const [metadata] = await fileObj.getMetadata();
+
+            await fs.promises.mkdir(path.dirname(targetPath), { recursive: true });
+
+            // Download to a temporary file so a failed or corrupt transfer never replaces the target
+            const tempPath = `${targetPath}.${process.pid}.${Date.now()}.partial`;
+            // Gzip-encoded objects are decompressed, so their stored size is no total
+            const expectedBytes = isGzipped(metadata) ? undefined : Number(metadata.size ?? 0);
+            let bytesReceived = 0;
+            try {
+                await pipeline(
+                    fileObj.createReadStream({ validation }),
+                    countBytes(bytes => {
+                        bytesReceived = bytes;
+                        progress(bytes, expectedBytes);
+                    }),
+                    fs.createWriteStream(tempPath),
+                    { signal }
+                );
+                await fs.promises.rename(tempPath, targetPath);
+            } catch (error) {
+                await fs.promises.rm(tempPath, { force: true });
+                checkCancelled(signal, `${bytesReceived} bytes were received; ${targetPath} was left unchanged`);
+                throw error;
+            }
+
+            const stats = await fs.promises.stat(targetPath);
+
+            return {
+                success: true,
+                message: `File ${bucket}/${file} downloaded successfully to ${targetPath}`,
+                bytes: stats.size,
+                contentType: metadata.contentType,
+                generation: metadata.generation,
+                crc32c: metadata.crc32c,
+                md5Hash: metadata.md5Hash
+            };
+        }
+    }),
+    defineTool({
+        name: "generateSignedUrl",
+        description: `Generate a V4 signed URL that grants temporary access to an object without Google Cloud credentials. Read URLs are used with GET, write URLs with PUT, and resumable URLs with a POST carrying the 'x-goog-resumable: start' header. URLs can be valid for at most ${MAX_SIGNED_URL_SECONDS} seconds.`,
+        inputSchema: SignedUrlSchema,
+        outputSchema: GenerateSignedUrlResultSchema,
+        failure: "Failed to generate signed URL",
+        async handler({
+            project, bucket, file, action, expiresInSeconds, contentType, responseDisposition, responseType
+        }) {
+            const client = getStorageClientForProject(project);
+            const backend = backendFor(project);
+            if (backend) {
+                throw new ToolError("NOT_CONFIGURED", `Project ${project} is served from a ${backend.type} backend, which cannot sign URLs`);
+            }
+            const expires = Date.now() + expiresInSeconds * 1000;
+
+            const config: GetSignedUrlConfig = {
+                version: "v4",
+                action,
+                expires
+            };
+            if (contentType) config.contentType = contentType;
+            if (responseDisposition) config.responseDisposition = responseDisposition;
+            if (responseType) config.responseType = responseType;
+
+            // Signed locally with the project's service account key
+            const [url] = await client.bucket(bucket).file(file).getSignedUrl(config);
+
+            const method = action === "read" ? "GET" : action === "write" ? "PUT" : "POST";
+            const headers: Record<string, string> = {};
+            if (contentType && action !== "read") headers["Content-Type"] = contentType;
+            if (action === "resumable") headers["x-goog-resumable"] = "start";
+
+            return {
+                url,
+                method,
+                headers,
+                expiresAt: new Date(expires).toISOString()
+            };
+        }
+    }),
+    defineTool({
+        name: "copyFile",
+        description: "Copy a file, or every file under a prefix, within or across buckets and projects. Uses server-side rewrite where possible.",
+        inputSchema: RelocateFileSchema,
+        outputSchema: RelocateResultSchema,
+        mutating: true,
+        failure: "Failed to copy file",
+        async handler(request) {
+            return relocateObjects(request, false);
+        }
+    }),
+    defineTool({
+        name: "moveFile",
+        description: "Move a file, or every file under a prefix, within or across buckets and projects. Each source object is deleted only after it has been copied.",
+        inputSchema: RelocateFileSchema,
+        outputSchema: RelocateResultSchema,
+        mutating: true,
+        failure: "Failed to move file",
+        async handler(request) {
+            return relocateObjects(request, true);
+        }
+    }),
+    defineTool({
+        name: "renameFile",
+        description: "Rename a file, or every file under a prefix, within its bucket",
+        inputSchema: RenameFileSchema,
+        outputSchema: RelocateResultSchema,
+        mutating: true,
+        failure: "Failed to rename file",
+        async handler({ project, bucket, file, prefix, newName, overwrite, maxObjects, concurrency }) {
+            return relocateObjects({
+                project,
+                bucket,
+                file,
+                prefix,
+                destination: newName,
+                preserveMetadata: true,
+                overwrite,
+                maxObjects,
+                concurrency
+            }, true);
+        }
+    }),
+    defineTool({
+        name: "bulkDelete",
+        description: "Plan deleting every object under a prefix and/or matching a glob. Returns a dry-run plan listing the exact objects and total bytes; nothing is deleted until the plan is passed to confirmBulkOperation.",
+        inputSchema: BulkDeleteSchema,
+        outputSchema: BulkPlanResultSchema,
+        mutating: true,
+        failure: "Failed to plan bulk operation",
+        async handler(selection) {
+            return planBulkOperation(selection, { type: "delete" });
+        }
+    }),
+    defineTool({
+        name: "bulkSetMetadata",
+        description: "Plan updating metadata on every object under a prefix and/or matching a glob. Returns a dry-run plan; nothing changes until the plan is passed to confirmBulkOperation.",
+        inputSchema: BulkSetMetadataSchema,
+        outputSchema: BulkPlanResultSchema,
+        mutating: true,
+        failure: "Failed to plan bulk operation",
+        async handler({ contentType, cacheControl, contentDisposition, metadata, ...selection }) {
+            const update: FileMetadata = {};
+            if (contentType) update.contentType = contentType;
+            if (cacheControl) update.cacheControl = cacheControl;
+            if (contentDisposition) update.contentDisposition = contentDisposition;
+            if (metadata) update.metadata = metadata;
+            return planBulkOperation(selection, { type: "setMetadata", metadata: update });
+        }
+    }),
+    defineTool({
+        name: "bulkSetStorageClass",
+        description: "Plan changing the storage class of every object under a prefix and/or matching a glob. Objects already in the target class are skipped. Returns a dry-run plan; nothing changes until the plan is passed to confirmBulkOperation.",
+        inputSchema: BulkSetStorageClassSchema,
+        outputSchema: BulkPlanResultSchema,
+        mutating: true,
+        failure: "Failed to plan bulk operation",
+        async handler({ storageClass, ...selection }) {
+            return planBulkOperation(selection, { type: "setStorageClass", storageClass });
+        }
+    }),
+    defineTool({
+        name: "confirmBulkOperation",
+        description: "Execute a plan created by bulkDelete, bulkSetMetadata or bulkSetStorageClass. Only the planned object generations are affected; objects changed since the dry run are reported as failures.",
+        inputSchema: ConfirmBulkOperationSchema,
+        outputSchema: ConfirmBulkOperationResultSchema,
+        mutating: true,
+        failure: "Failed to execute bulk operation",
+        async handler({ planId, concurrency }, { signal, progress }) {
+            const plan = takeBulkPlan(planId);
+            const client = getStorageClientForProject(plan.project);
+            const trashed: TrashedObject[] = [];
+            const summary = await executeBulkPlan(
+                client.bucket(plan.bucket),
+                plan,
+                concurrency,
+                trashHookFor(plan.project, "confirmBulkOperation", trashed),
+                { signal, progress }
+            );
+
+            return { ...summary, trashed: trashed.length > 0 ? trashed : undefined };
+        }
+    }),
+    defineTool({
+        name: "syncToBucket",
+        description: "Plan making a bucket prefix match a local directory. Returns a dry-run plan of uploads and deletions; nothing changes until the plan is passed to confirmSync. Requires ALLOWED_LOCAL_ROOTS.",
+        inputSchema: SyncSchema,
+        outputSchema: SyncPlanResultSchema,
+        mutating: true,
+        failure: "Failed to plan sync",
+        async handler(request) {
+            return planSync(request, "toBucket");
+        }
+    }),
+    defineTool({
+        name: "syncFromBucket",
+        description: "Plan making a local directory match a bucket prefix. Returns a dry-run plan of downloads and deletions; nothing changes until the plan is passed to confirmSync. Requires ALLOWED_LOCAL_ROOTS.",
+        inputSchema: SyncSchema,
+        outputSchema: SyncPlanResultSchema,
+        failure: "Failed to plan sync",
+        async handler(request) {
+            return planSync(request, "fromBucket");
+        }
+    }),
+    defineTool({
+        name: "confirmSync",
+        description: "Execute a plan created by syncToBucket or syncFromBucket. Objects changed since the plan was made are not overwritten or deleted and are reported as failures.",
+        inputSchema: ConfirmSyncSchema,
+        outputSchema: ConfirmSyncResultSchema,
+        failure: "Failed to execute sync",
+        async handler({ planId, concurrency, validation }, { signal, progress }) {
+            const plan = takeSyncPlan(planId);
+            const client = getStorageClientForProject(plan.project);
+            const trashed: TrashedObject[] = [];
+            const summary = await executeSyncPlan(client.bucket(plan.bucket), plan, {
+                roots: ALLOWED_LOCAL_ROOTS,
+                concurrency,
+                validation,
+                trash: trashHookFor(plan.project, "confirmSync", trashed),
+                signal,
+                progress
+            });
+
+            return { ...summary, trashed: trashed.length > 0 ? trashed : undefined };
+        }
+    }),
+    defineTool({
+        name: "setFileMetadata",
+        description: "Edit the metadata of a file without re-uploading it. Changes are applied only if the object has not been modified since it was read (or since the given generation/metageneration), so concurrent edits are not silently overwritten.",
+        inputSchema: SetFileMetadataSchema,
+        outputSchema: SetFileMetadataResultSchema,
+        mutating: true,
+        failure: error => error.code === "PRECONDITION_FAILED" ?
+            "File was modified concurrently; re-read it and try again" :
+            "Failed to set file metadata",
+        async handler({
+            project, bucket, file, metadata, metadataMode, removeMetadataKeys, contentType, cacheControl, contentDisposition, contentEncoding, storageClass, ifGenerationMatch, ifMetagenerationMatch
+        }) {
+            const client = getStorageClientForProject(project);
+            const fileObj = client.bucket(bucket).file(file);
+            const [before] = await fileObj.getMetadata();
+
+            // Preconditions default to the state that was just read
+            const generation = ifGenerationMatch ?? before.generation!;
+            const metageneration = ifMetagenerationMatch ?? before.metageneration!;
+
+            // Fields set to null are cleared by the patch
+            const patch: Record<string, unknown> = {};
+            if (contentType !== undefined) patch.contentType = contentType;
+            if (cacheControl !== undefined) patch.cacheControl = cacheControl;
+            if (contentDisposition !== undefined) patch.contentDisposition = contentDisposition;
+            if (contentEncoding !== undefined) patch.contentEncoding = contentEncoding;
+
+            const custom: Record<string, string | null> = {};
+            if (metadataMode === "replace") {
+                for (const key of Object.keys(before.metadata ?? {})) custom[key] = null;
+            }
+            Object.assign(custom, metadata ?? {});
+            for (const key of removeMetadataKeys ?? []) custom[key] = null;
+            if (Object.keys(custom).length > 0) patch.metadata = custom;
+
+            if (Object.keys(patch).length === 0 && !storageClass) {
+                throw new ToolError("INVALID_ARGUMENT", "No metadata changes were requested");
+            }
+
+            if (Object.keys(patch).length > 0) {
+                await fileObj.setMetadata(patch as FileMetadata, {
+                    ifGenerationMatch: generation,
+                    ifMetagenerationMatch: metageneration
+                });
+            }
+
+            // Changing the storage class rewrites the object and creates a new generation
+            if (storageClass && storageClass !== before.storageClass) {
+                await fileObj.setStorageClass(storageClass, {
+                    preconditionOpts: { ifGenerationMatch: generation }
+                });
+            }
+
+            const [after] = await fileObj.getMetadata();
+
+            const fields = ["contentType", "cacheControl", "contentDisposition", "contentEncoding", "storageClass", "metadata"] as const;
+            const changes: Record<string, { before: unknown, after: unknown }> = {};
+            for (const field of fields) {
+                if (JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null)) {
+                    changes[field] = { before: before[field] ?? null, after: after[field] ?? null };
+                }
+            }
+
+            return {
+                success: true,
+                message: `Metadata of ${bucket}/${file} updated successfully`,
+                changes,
+                generation: after.generation,
+                metageneration: after.metageneration
+            };
+        }
+    }),
+    defineTool({
+        name: "listFileVersions",
+        description: "List all versions (generations) of a file, including noncurrent versions kept by object versioning",
+        inputSchema: FileSchema,
+        outputSchema: ListFileVersionsResultSchema,
+        failure: "Failed to list file versions",
+        async handler({ project, bucket, file }) {
+            const client = getStorageClientForProject(project);
+
+            const versions = [];
+            for await (const version of iterateFiles(client.bucket(bucket), { prefix: file, versions: true })) {
+                // The prefix also matches longer names; keep exact matches only
+                if (version.name !== file) continue;
+                versions.push({
+                    generation: version.metadata.generation,
+                    metageneration: version.metadata.metageneration,
+                    live: !version.metadata.timeDeleted,
+                    size: version.metadata.size,
+                    contentType: version.metadata.contentType,
+                    created: version.metadata.timeCreated,
+                    noncurrentSince: version.metadata.timeDeleted,
+                    storageClass: version.metadata.storageClass,
+                    md5Hash: version.metadata.md5Hash
+                });
+            }
+
+            if (versions.length === 0) {
+                throw new ToolError("NOT_FOUND", `File ${file} has no versions in bucket ${bucket}`);
+            }
+
+            // Newest first
+            versions.sort((a, b) => (BigInt(b.generation ?? 0) > BigInt(a.generation ?? 0) ? 1 : -1));
+
+            return { name: file, versions };
+        }
+    }),
+    defineTool({
+        name: "restoreFileVersion",
+        description: "Restore a noncurrent generation of a file as the live version. The previous live version is kept as noncurrent if versioning is enabled.",
+        inputSchema: RestoreFileVersionSchema,
+        outputSchema: RestoreFileVersionResultSchema,
+        mutating: true,
+        failure: "Failed to restore file version",
+        async handler({ project, bucket, file, generation, ifGenerationMatch }) {
+            const client = getStorageClientForProject(project);
+            const bucketObj = client.bucket(bucket);
+
+            // Guard against a concurrent write to the live version; 0 means there is no live version
+            const expectedGeneration = ifGenerationMatch ?? await liveGeneration(bucketObj.file(file));
+            if (String(expectedGeneration) === String(generation)) {
+                throw new ToolError("INVALID_ARGUMENT", `Generation ${generation} is already the live version of ${file}`);
+            }
+
+            const trashed: TrashedObject[] = [];
+            if (String(expectedGeneration) !== "0") {
+                await trashHookFor(project, "restoreFileVersion", trashed)?.(bucketObj, file, expectedGeneration);
+            }
+
+            const [restored] = await writeAfterTrashing(client, trashed, () => bucketObj.file(file, { generation }).copy(bucketObj.file(file), {
+                preconditionOpts: { ifGenerationMatch: expectedGeneration }
+            }));
+            const [metadata] = await restored.getMetadata();
+
+            return {
+                success: true,
+                message: `Generation ${generation} of ${bucket}/${file} restored as the live version`,
+                restoredFrom: String(generation),
+                previousLiveGeneration: String(expectedGeneration) === "0" ? null : String(expectedGeneration),
+                generation: metadata.generation,
+                trashed: trashed.length > 0 ? trashed : undefined
+            };
+        }
+    }),
+    defineTool({
+        name: "deleteFile",
+        description: "Delete a file from a Cloud Storage bucket",
+        inputSchema: DeleteFileSchema,
+        outputSchema: DeleteFileResultSchema,
+        mutating: true,
+        failure: "Failed to delete file",
+        async handler({ project, bucket, file, generation, ifGenerationMatch, ifMetagenerationMatch }) {
+            const client = getStorageClientForProject(project);
+            const fileObj = client.bucket(bucket).file(file, { generation });
+
+            // Check if file exists
+            const [exists] = await fileObj.exists();
+            if (!exists) {
+                throw new ToolError("NOT_FOUND", `File ${file} does not exist in bucket ${bucket}`);
+            }
+
+            const trashed: TrashedObject[] = [];
+            const entry = await trashHookFor(project, "deleteFile", trashed)?.(client.bucket(bucket), file, generation ?? ifGenerationMatch);
+
+            // Without a precondition, only the live version that was trashed is deleted
+            const precondition = ifGenerationMatch ?? (generation === undefined ? entry?.originalGeneration : undefined);
+            await writeAfterTrashing(client, trashed, () => fileObj.delete({ ifGenerationMatch: precondition, ifMetagenerationMatch }));
+
+            return {
+                success: true,
+                message: `File ${file} deleted successfully from bucket ${bucket}`,
+                trashed: trashed.length > 0 ? trashed : undefined
+            };
+        }
+    }),
+    defineTool({
+        name: "listProjects",
+        description: "List all available projects that have been configured",
+        inputSchema: EmptySchema,
+        outputSchema: ListProjectsResultSchema,
+        failure: "Failed to list projects",
+        async handler(_args, context) {
+            // Return information about the projects the client may use and default settings
+            return {
+                projects: context.projects,
+                defaultProject: context.defaultProject,
+                initializedProjects: context.projects.filter(project => storageClients[project]),
+                configFile: configPath ? path.resolve(configPath) : null,
+                projectSettings: Object.fromEntries(context.projects.map(project => {
+                    const projectConfig = config.projects[project];
+                    return [project, {
+                        projectId: projectConfig.projectId ?? project,
+                        aliases: projectConfig.aliases,
+                        defaultBucket: projectConfig.defaultBucket ?? null,
+                        apiEndpoint: projectConfig.apiEndpoint ?? null,
+                        backend: projectConfig.backend?.type ?? null,
+                        credentials: projectConfig.credentials?.type ?? (projectConfig.apiEndpoint || projectConfig.backend ? "none" : "adc"),
+                        clientError: storageClients[project] ? null : clientErrors[project] ?? null
+                    }];
+                })),
+                currentEnv: process.env.GOOGLE_CLOUD_PROJECTS || "Not set"
+            };
+        }
+    }),
+    defineTool({
+        name: "checkCredentials",
+        description: "Check each project's credentials: the service account and the ID and age of its key, whether they authenticate, and which Cloud Storage permissions they hold on the default bucket or the project",
+        inputSchema: CheckCredentialsSchema,
+        outputSchema: CheckCredentialsResultSchema,
+        failure: "Failed to check credentials",
+        async handler({ projects: names }, context) {
+            const checks = await Promise.all(requestedProjects(names, context).map(project =>
+                checkCredentials(project, config.projects[project], storageClients[project], {
+                    signal: context.signal,
+                    clientError: clientErrors[project]
+                })
+            ));
+            checkCancelled(context.signal);
+            return { projects: checks };
+        }
+    }),
+    defineTool({
+        name: "addProject",
+        description: "Add a project to the running server with the same settings as in the config file. The project is not written to the config file and is gone after a restart.",
+        inputSchema: AddProjectSchema,
+        outputSchema: AddProjectResultSchema,
+        mutating: true,
+        failure: "Failed to add project",
+        async handler({ name, ...settings }, context) {
+            const taken = (alias: string) => projects.includes(alias) || projectAliases[alias] !== undefined;
+            if (taken(name)) {
+                throw new ToolError("ALREADY_EXISTS", `Project ${name} is already configured`);
+            }
+            const clash = settings.aliases.find((alias, index) =>
+                alias === name || taken(alias) || settings.aliases.indexOf(alias) !== index
+            );
+            if (clash) {
+                throw new ToolError("ALREADY_EXISTS", `Alias ${clash} is already used by another project or alias`);
+            }
+
+            // The caller may control the endpoint, so the server's credentials are never sent to it
+            if (settings.apiEndpoint && settings.credentials && settings.credentials.type !== "none") {
+                throw new ToolError(
+                    "INVALID_ARGUMENT",
+                    `Project ${name} cannot use ${settings.credentials.type} credentials with a custom apiEndpoint; projects added at runtime reach custom endpoints unauthenticated`
+                );
+            }
+
+            // Without a config file, projects without credentials or a backend are
+            // set up like those from GOOGLE_CLOUD_PROJECTS
+            confineProjectPaths(settings);
+            const projectConfig: ProjectConfig = !configPath && !settings.credentials && !settings.backend && !settings.apiEndpoint ?
+                { ...settings, ...configFromEnv([name], keysDir, envBackend).projects[name], aliases: settings.aliases } :
+                settings;
+            const client = await createStorageClient(name, projectConfig, retryConfig);
+
+            config.projects[name] = projectConfig;
+            projects.push(name);
+            for (const alias of projectConfig.aliases) {
+                projectAliases[alias] = name;
+            }
+            if (projectConfig.policy && !filePolicyProjects.has(name)) {
+                accessPolicy.projects[name] = projectConfig.policy;
+            }
+            storageClients[name] = client;
+            notifyProjectsChanged();
+
+            const check = await checkCredentials(name, projectConfig, client, { signal: context.signal });
+            return {
+                success: true,
+                message: check.authenticated === false ?
+                    `Project ${name} added, but its credentials do not authenticate: ${check.authError}` :
+                    `Project ${name} added`,
+                project: name,
+                aliases: projectConfig.aliases,
+                check
+            };
+        }
+    }),
+    defineTool({
+        name: "removeProject",
+        description: "Remove a project from the running server. Removing a project from the config file still requires editing it.",
+        inputSchema: RemoveProjectSchema,
+        outputSchema: RemoveProjectResultSchema,
+        mutating: true,
+        failure: "Failed to remove project",
+        async handler({ name }) {
+            const project = resolveProjectName(name);
+            const projectConfig = config.projects[project];
+            if (!projectConfig) {
+                throw new ToolError("NOT_FOUND", `Project ${name} is not configured`);
+            }
+            if (project === DEFAULT_PROJECT) {
+                throw new ToolError("CONFLICT", `Project ${project} is the server's default project and cannot be removed`);
+            }
+            const token = httpSettings?.clients.find(client => scopeForClient(client).defaultProject === project);
+            if (token) {
+                throw new ToolError("CONFLICT", `Project ${project} is the default project of token ${token.name} and cannot be removed`);
+            }
+
+            const client = storageClients[project];
+            delete storageClients[project];
+            delete clientErrors[project];
+            delete config.projects[project];
+            projects.splice(projects.indexOf(project), 1);
+            for (const alias of projectConfig.aliases) {
+                delete projectAliases[alias];
+            }
+            if (!filePolicyProjects.has(project)) {
+                delete accessPolicy.projects[project];
+            }
+            notifyProjectsChanged();
+            if (client) {
+                await closeStorageClient(client);
+            }
+
+            return {
+                success: true,
+                message: `Project ${project} removed`,
+                project,
+                aliases: projectConfig.aliases
+            };
+        }
+    }),
+    defineTool({
+        name: "reloadCredentials",
+        description: "Create the Storage clients of projects again, reading their key files anew, e.g. after a key was rotated. A client that cannot be created keeps the previous one in place.",
+        inputSchema: ReloadCredentialsSchema,
+        outputSchema: ReloadCredentialsResultSchema,
+        failure: "Failed to reload credentials",
+        async handler({ projects: names }, context) {
+            const results = [];
+            let added = false;
+            for (const project of requestedProjects(names, context)) {
+                const projectConfig = config.projects[project];
+                const previous = storageClients[project];
+                // Recreating a memory backend would lose its contents
+                if (projectConfig.backend && previous) {
+                    results.push({ project, reloaded: false, message: `Project ${project} is served from a ${projectConfig.backend.type} backend without credentials` });
+                    continue;
+                }
+                try {
+                    storageClients[project] = await createStorageClient(project, projectConfig, retryConfig);
+                    delete clientErrors[project];
+                    added ||= !previous;
+                    results.push({ project, reloaded: true, message: `Credentials of project ${project} reloaded` });
+                } catch (error) {
+                    const message = (error as Error).message;
+                    if (!previous) clientErrors[project] = message;
+                    results.push({
+                        project,
+                        reloaded: false,
+                        message: previous ? `${message}; the previous client stays in use` : message
+                    });
+                }
+            }
+            // Projects that now have a client become usable
+            if (added) notifyProjectsChanged();
+            return { projects: results };
+        }
+    })
+];
+
+const toolsByName = new Map(tools.map(tool => [tool.name, tool]));
+
+// JSON schemas of the tools, derived once from their zod schemas
+const listedTools = tools.map(listedTool);
+
+// Tools that can create, change or delete objects or projects
+const MUTATING_TOOLS = new Set(tools.filter(tool => tool.mutating).map(tool => tool.name));
+
+// Resolved once so an invalid value stops the server at startup
+const RESOURCE_POLL_MS = positiveIntFromEnv("RESOURCE_POLL_SECONDS", 30) * 1000;
+
+// Run a tool call, after checking it against the access policy and the client's scope
+async function callTool(scope: ClientScope, name: string, args: unknown, execution: Pick<ToolContext, "signal" | "progress">): Promise<CallToolResult> {
+    const tool = toolsByName.get(name);
+    if (!tool) {
+        return errorResult("Unknown tool", new ToolError("UNKNOWN_TOOL", `Unknown tool: ${name}`));
+    }
+    
+    try {
+        enforceClientScope(scope, name, policyTargets(name, args));
+    } catch (error) {
+        return errorResult(error instanceof PolicyError ? "Access denied by policy" : "Internal server error", error);
+    }
+    
+    return runTool(tool, args, {
+        projects: scopedProjects(scope),
+        defaultProject: scope.defaultProject,
+        isBucketAllowed: (project, bucket) => isBucketAllowedForClient(scope, project, bucket),
+        isPermissionAllowed: (project, permission) => isPermissionAllowedForClient(scope, project, permission),
+        ...execution
+    });
+}
+
+// Servers of the connected clients
+const connectedServers = new Set<Server>();
+
+// Tell connected clients to list tools and resources again after projects were
+// added or removed, or became usable, as both lists depend on the projects
+function notifyProjectsChanged() {
+    for (const server of connectedServers) {
+        server.sendToolListChanged().catch(error => console.error("Error sending tool list change notification:", error));
+        server.sendResourceListChanged().catch(error => console.error("Error sending resource list change notification:", error));
+    }
+}
+
+// Create an MCP server for a client. Stdio uses a single server, and over
+// HTTP every session gets its own, scoped to the client's token.
+function createServer(scope: ClientScope): Server {
+    const server = new Server(
+        {
+            name: "cloudstorage",
+            version: "1.0.0"
+        },
+        {
+            capabilities: {
+                tools: {
+                    listChanged: true
+                },
+                resources: {
+                    subscribe: true,
+                    listChanged: true
+                }
+            }
+        }
+    );
+    
+    // Register list tools handler
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+        // Bucket becomes optional when the client's default project has a default bucket
+        const defaultBucket = config.projects[scope.defaultProject]?.defaultBucket;
+        const clientProjects = scopedProjects(scope).filter(project => storageClients[project]);
+        
+        // Hide tools that the access policy or the client's policy forbids in every project the client may use
+        return {
+            tools: listedTools
+                .filter(tool => !scope.projects || !PROJECT_MANAGEMENT_TOOLS.has(tool.name))
+                .filter(tool => [accessPolicy, scope.policy].every(policy =>
+                    !policy || isToolVisible(policy, clientProjects, tool.name, MUTATING_TOOLS.has(tool.name))
+                ))
+                .map(tool => defaultBucket && tool.inputSchema.required ? {
+                    ...tool,
+                    inputSchema: {
+                        ...tool.inputSchema,
+                        required: tool.inputSchema.required.filter(field => field !== "bucket")
+                    }
+                } : tool),
+        };
+    });
+    
+    // Register call tool handler; calls to tools that change data are written to the audit log
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+        const { name } = request.params;
+        const args = applyProjectDefaults(request.params.arguments, scope.defaultProject);
+        const startedAt = Date.now();
+        
+        // Pulling a sync plan into a local directory changes local files, so it is audited too
+        const audited = auditLog && (MUTATING_TOOLS.has(name) || name === "confirmSync");
+        // Plan and session tools only know their project and bucket before the call takes them
+        const targets = audited ? policyTargets(name, args) : [];
+        const target = targets.find(target => target.write) ?? targets[0];
+        
+        const result = await callTool(scope, name, args, {
+            signal: extra.signal,
+            progress: progressReporter(request.params._meta?.progressToken, extra.sendNotification)
+        });
+        
+        if (audited) {
+            await auditLog!.record({
+                tool: name,
+                client: scope.client,
+                project: target?.project,
+                bucket: target?.bucket,
+                arguments: args,
+                startedAt
+            }, result);
+        }
+        return result;
+    });
+    
+    // Expose objects as gs://{bucket}/{object} resources
+    registerResourceHandlers(server, {
+        projects: () => scopedProjects(scope).filter(project => storageClients[project]),
+        defaultProject: scope.defaultProject,
+        getStorageClient: getStorageClientForProject,
+        checkAccess: (tool, project, bucket, object) => enforceClientScope(scope, tool, [{
+            project,
+            write: false,
+            bucket,
+            objects: object !== undefined ? [object] : undefined
+        }]),
+        isBucketAllowed: (project, bucket) => isBucketAllowedForClient(scope, project, bucket),
+        maxInlineBytes: MAX_INLINE_BYTES,
+        pollIntervalMs: RESOURCE_POLL_MS
+    });
+    
+    // Track the server until its client disconnects, for list change notifications
+    connectedServers.add(server);
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+        connectedServers.delete(server);
+        previousOnClose?.();
+    };
+    
+    return server;
+}
+
+// Start the server
+async function main() {
+    try {
+        await initializeStorageClients();
+        
+        if (httpSettings) {
+            const httpServer = await startHttpServer({
+                ...httpSettings,
+                createServer: client => createServer(scopeForClient(client)),
+                health: () => ({ initializedProjects: Object.keys(storageClients).length })
+            });
+            const { port } = httpServer.address() as AddressInfo;
+            console.error(`Cloud Storage MCP Server listening on http://${httpSettings.config.host}:${port}${httpSettings.config.path}`);
+            return;
+        }
+        
         const transport = new StdioServerTransport();
-        await server.connect(transport);
+        await createServer(STDIO_SCOPE).connect(transport);
         console.error("Cloud Storage MCP Server running on stdio");
     } catch (error) {
         console.error("Error during startup:", error);
@@ -0,0 +1,25 @@
+/**
+ * Streaming iteration over bucket listings.
+ */
+
+import { Bucket, File, GetFilesOptions } from "@google-cloud/storage";
+
+// Page size used when walking a whole listing
+const ITERATION_PAGE_SIZE = 1000;
+
+// Iterate over every object matching the options, fetching one page at a time
+export async function* iterateFiles(bucket: Bucket, options: Omit<GetFilesOptions, "autoPaginate" | "pageToken"> = {}): AsyncGenerator<File> {
+    let pageToken: string | undefined;
+    do {
+        const [files, nextQuery] = await bucket.getFiles({
+            maxResults: ITERATION_PAGE_SIZE,
+            ...options,
+            autoPaginate: false,
+            pageToken
+        });
+        for (const file of files) {
+            yield file;
+        }
+        pageToken = (nextQuery as { pageToken?: string } | null)?.pageToken;
+    } while (pageToken);
+}
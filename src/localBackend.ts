@@ -0,0 +1,399 @@
+/**
+ * Local-directory storage backend.
+ *
+ * Every subdirectory of the root is a bucket and the files under it are the
+ * live objects, so existing directories can be served as they are. Object
+ * metadata lives in sidecar JSON files under a hidden .gcs directory in each
+ * bucket, alongside the bucket's own metadata and the content of noncurrent
+ * generations:
+ *
+ *   <bucket>/.gcs/bucket.json
+ *   <bucket>/.gcs/objects/<name>.json
+ *   <bucket>/.gcs/versions/<name>#<generation>  (and .json)
+ *
+ * Files written or changed outside the server are picked up as new
+ * generations derived from their modification time. Object names ending in
+ * "/" are folder placeholders and are stored as directories.
+ */
+
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { BucketRecord, checksums, notFound, ObjectRecord, StorageBackend } from "./backend.js";
+import { contentTypeFor } from "./content.js";
+import { ToolError } from "./errors.js";
+
+const META_DIR = ".gcs";
+
+// Sidecar of a live object, with the size and modification time its content
+// file had when the sidecar was written
+interface Sidecar {
+    object: ObjectRecord;
+    size: number;
+    mtimeMs: number;
+}
+
+// Generation file names end in #<generation>
+const VERSION_PATTERN = /^(.*)#(\d+)$/;
+
+function invalidName(name: string, reason: string): ToolError {
+    return new ToolError("INVALID_ARGUMENT", `Object name ${name} cannot be stored in a local directory: ${reason}`, 400);
+}
+
+function conflict(name: string): ToolError {
+    return new ToolError("CONFLICT", `Object ${name} conflicts with a file or directory of the same name in the local directory`, 409);
+}
+
+// Split an object name into path segments; a trailing empty segment marks a folder placeholder
+function nameSegments(name: string): string[] {
+    const segments = name.split("/");
+    segments.forEach((segment, index) => {
+        const last = index === segments.length - 1;
+        if (segment === "" && !(last && index > 0)) throw invalidName(name, "empty path segment");
+        if (segment === "." || segment === "..") throw invalidName(name, `'${segment}' path segment`);
+        if (segment.includes("\0")) throw invalidName(name, "NUL character");
+    });
+    if (segments[0] === META_DIR) throw invalidName(name, `${META_DIR} is reserved for metadata`);
+    return segments;
+}
+
+async function readJson<T>(file: string): Promise<T | undefined> {
+    try {
+        return JSON.parse(await fs.promises.readFile(file, "utf8"));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw error;
+    }
+}
+
+async function writeJson(file: string, value: unknown) {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, JSON.stringify(value, null, 2));
+}
+
+async function statOrUndefined(file: string): Promise<fs.Stats | undefined> {
+    try {
+        return await fs.promises.stat(file);
+    } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === "ENOENT" || code === "ENOTDIR") return undefined;
+        throw error;
+    }
+}
+
+async function removeFile(file: string) {
+    await fs.promises.rm(file, { force: true });
+}
+
+// Remove a directory and its empty parents, stopping at the first one that is
+// not empty or that must be kept
+async function pruneEmptyDirs(dir: string, stopAt: string, keep: (dir: string) => Promise<boolean> = async () => false) {
+    while (dir.startsWith(stopAt + path.sep) && !(await keep(dir))) {
+        try {
+            await fs.promises.rmdir(dir);
+        } catch {
+            return;
+        }
+        dir = path.dirname(dir);
+    }
+}
+
+export function createLocalBackend(root: string): StorageBackend {
+    const rootDir = path.resolve(root);
+    fs.mkdirSync(rootDir, { recursive: true });
+
+    // Checksums of files without an up-to-date sidecar, keyed by path, size and modification time
+    const describedFiles = new Map<string, ObjectRecord>();
+
+    const bucketDir = (bucket: string) => {
+        if (bucket.startsWith(".") || bucket.includes("/") || bucket.includes("\\")) {
+            throw new ToolError("INVALID_ARGUMENT", `Invalid bucket name: ${bucket}`, 400);
+        }
+        return path.join(rootDir, bucket);
+    };
+    const metaDir = (bucket: string) => path.join(bucketDir(bucket), META_DIR);
+
+    const contentPath = (bucket: string, name: string) => path.join(bucketDir(bucket), ...nameSegments(name));
+
+    // Sidecar of a live object; a folder placeholder's is named just ".json"
+    const sidecarPath = (bucket: string, name: string) => {
+        const segments = nameSegments(name);
+        const base = segments.pop()!;
+        return path.join(metaDir(bucket), "objects", ...segments, `${base}.json`);
+    };
+
+    const versionPath = (bucket: string, name: string, generation: string) => {
+        const segments = nameSegments(name);
+        const base = segments.pop()!;
+        return path.join(metaDir(bucket), "versions", ...segments, `${base}#${generation}`);
+    };
+
+    const isPlaceholderDir = async (bucket: string, dir: string) => {
+        const relative = path.relative(bucketDir(bucket), dir).split(path.sep).join("/");
+        return (await statOrUndefined(sidecarPath(bucket, `${relative}/`))) !== undefined;
+    };
+
+    // Record of a live content file, from its sidecar while the file is unchanged
+    const describeFile = async (bucket: string, name: string, file: string, stats: fs.Stats): Promise<ObjectRecord> => {
+        const sidecar = await readJson<Sidecar>(sidecarPath(bucket, name));
+        if (sidecar && sidecar.size === stats.size && sidecar.mtimeMs === stats.mtimeMs) {
+            return sidecar.object;
+        }
+
+        const key = `${file}\0${stats.size}\0${stats.mtimeMs}`;
+        const described = describedFiles.get(key);
+        if (described) return described;
+
+        // Written outside the server: a new generation from the modification
+        // time, keeping the content headers and metadata of any stale sidecar
+        const sums = checksums(await fs.promises.readFile(file));
+        const previous = sidecar?.object;
+        const object: ObjectRecord = {
+            bucket,
+            name,
+            generation: String(BigInt(Math.floor(stats.mtimeMs * 1000))),
+            metageneration: "1",
+            size: String(stats.size),
+            contentType: previous?.contentType ?? contentTypeFor(name, {}) ?? "application/octet-stream",
+            contentEncoding: previous?.contentEncoding,
+            contentDisposition: previous?.contentDisposition,
+            contentLanguage: previous?.contentLanguage,
+            cacheControl: previous?.cacheControl,
+            metadata: previous?.metadata,
+            storageClass: previous?.storageClass ?? "STANDARD",
+            ...sums,
+            timeCreated: stats.mtime.toISOString(),
+            updated: stats.mtime.toISOString()
+        };
+        describedFiles.set(key, object);
+        return object;
+    };
+
+    const getLive = async (bucket: string, name: string): Promise<ObjectRecord | undefined> => {
+        const file = contentPath(bucket, name);
+        const stats = await statOrUndefined(file);
+        if (!stats) return undefined;
+        if (name.endsWith("/")) {
+            return stats.isDirectory() ? (await readJson<Sidecar>(sidecarPath(bucket, name)))?.object : undefined;
+        }
+        return stats.isFile() ? describeFile(bucket, name, file, stats) : undefined;
+    };
+
+    const writeSidecar = async (object: ObjectRecord) => {
+        const stats = object.name.endsWith("/") ? undefined : await fs.promises.stat(contentPath(object.bucket, object.name));
+        const sidecar: Sidecar = { object, size: stats?.size ?? 0, mtimeMs: stats?.mtimeMs ?? 0 };
+        await writeJson(sidecarPath(object.bucket, object.name), sidecar);
+    };
+
+    // Remove a live object's content and sidecar, and directories left empty
+    const removeLive = async (object: ObjectRecord) => {
+        const file = contentPath(object.bucket, object.name);
+        const sidecar = sidecarPath(object.bucket, object.name);
+        await removeFile(sidecar);
+        if (object.name.endsWith("/")) {
+            await pruneEmptyDirs(file, bucketDir(object.bucket), dir => isPlaceholderDir(object.bucket, dir));
+        } else {
+            await removeFile(file);
+            await pruneEmptyDirs(path.dirname(file), bucketDir(object.bucket), dir => isPlaceholderDir(object.bucket, dir));
+        }
+        await pruneEmptyDirs(path.dirname(sidecar), metaDir(object.bucket));
+    };
+
+    // Walk a directory tree, calling back for files and directories with their path relative to the base
+    const walk = async (
+        dir: string,
+        base: string,
+        visit: (relative: string, full: string, entry: fs.Dirent) => Promise<void>
+    ) => {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch (error) {
+            const code = (error as NodeJS.ErrnoException).code;
+            if (code === "ENOENT" || code === "ENOTDIR") return;
+            throw error;
+        }
+        for (const entry of entries) {
+            const full = path.join(dir, entry.name);
+            const relative = path.relative(base, full).split(path.sep).join("/");
+            if (relative === META_DIR) continue;
+            await visit(relative, full, entry);
+            if (entry.isDirectory()) await walk(full, base, visit);
+        }
+    };
+
+    // Directory to start walking from for a listing prefix
+    const prefixDir = (base: string, prefix: string) => {
+        const folder = prefix.slice(0, prefix.lastIndexOf("/") + 1);
+        const segments = folder.split("/").filter(segment => segment);
+        if (segments.some(segment => segment === "." || segment === "..")) return undefined;
+        return path.join(base, ...segments);
+    };
+
+    const getBucket = async (name: string): Promise<BucketRecord | undefined> => {
+        const dir = bucketDir(name);
+        const stats = await statOrUndefined(dir);
+        if (!stats?.isDirectory()) return undefined;
+        const stored = await readJson<BucketRecord>(path.join(metaDir(name), "bucket.json"));
+        if (stored) return stored;
+        return {
+            metadata: {
+                name,
+                id: name,
+                location: "US",
+                locationType: "multi-region",
+                storageClass: "STANDARD",
+                iamConfiguration: {
+                    uniformBucketLevelAccess: { enabled: false },
+                    publicAccessPrevention: "inherited"
+                },
+                timeCreated: stats.birthtime.toISOString(),
+                updated: stats.mtime.toISOString(),
+                metageneration: "1"
+            },
+            bindings: []
+        };
+    };
+
+    return {
+        async listBuckets() {
+            const entries = await fs.promises.readdir(rootDir, { withFileTypes: true });
+            const buckets: BucketRecord[] = [];
+            for (const entry of entries) {
+                if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+                const bucket = await getBucket(entry.name);
+                if (bucket) buckets.push(bucket);
+            }
+            return buckets;
+        },
+
+        getBucket,
+
+        async putBucket(bucket) {
+            await writeJson(path.join(metaDir(bucket.metadata.name), "bucket.json"), bucket);
+        },
+
+        // The bucket is known to hold no objects; leftover empty directories go with it
+        async deleteBucket(name) {
+            const dir = bucketDir(name);
+            const dirs: string[] = [];
+            let otherFiles = false;
+            await walk(dir, dir, async (_relative, full, entry) => {
+                if (entry.isDirectory()) dirs.push(full); else otherFiles = true;
+            });
+            if (otherFiles) {
+                throw new ToolError("CONFLICT", `The local directory of bucket ${name} still holds files that are not objects`, 409);
+            }
+            await fs.promises.rm(metaDir(name), { recursive: true, force: true });
+            for (const empty of dirs.reverse()) await fs.promises.rmdir(empty);
+            await fs.promises.rmdir(dir);
+        },
+
+        async listObjects(bucket, prefix) {
+            const objects: ObjectRecord[] = [];
+            const base = bucketDir(bucket);
+            const start = prefixDir(base, prefix);
+            if (!start) return objects;
+
+            await walk(start, base, async (relative, full, entry) => {
+                if (entry.isDirectory()) {
+                    const name = `${relative}/`;
+                    if (!name.startsWith(prefix)) return;
+                    const placeholder = await readJson<Sidecar>(sidecarPath(bucket, name));
+                    if (placeholder) objects.push(placeholder.object);
+                } else if (relative.startsWith(prefix)) {
+                    const stats = await statOrUndefined(full);
+                    if (stats?.isFile()) objects.push(await describeFile(bucket, relative, full, stats));
+                }
+            });
+
+            const versionsDir = path.join(metaDir(bucket), "versions");
+            await walk(prefixDir(versionsDir, prefix)!, versionsDir, async (relative, full, entry) => {
+                const match = VERSION_PATTERN.exec(relative);
+                if (!entry.isFile() || !match || !match[1].startsWith(prefix)) return;
+                const version = await readJson<ObjectRecord>(`${full}.json`);
+                if (version) objects.push(version);
+            });
+            return objects;
+        },
+
+        async getObject(bucket, name, generation) {
+            if (!(await statOrUndefined(bucketDir(bucket)))) return undefined;
+            const live = await getLive(bucket, name);
+            if (generation === undefined || live?.generation === generation) return live;
+            return readJson<ObjectRecord>(`${versionPath(bucket, name, generation)}.json`);
+        },
+
+        async readContent(object) {
+            if (object.timeDeleted) {
+                return fs.promises.readFile(versionPath(object.bucket, object.name, object.generation));
+            }
+            if (object.name.endsWith("/")) return Buffer.alloc(0);
+            try {
+                return await fs.promises.readFile(contentPath(object.bucket, object.name));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === "ENOENT") throw notFound(`No such object: ${object.bucket}/${object.name}`);
+                throw error;
+            }
+        },
+
+        async putObject(object, content) {
+            const file = contentPath(object.bucket, object.name);
+            try {
+                if (object.name.endsWith("/")) {
+                    if (content.length > 0) throw invalidName(object.name, "folder placeholders must be empty");
+                    await fs.promises.mkdir(file, { recursive: true });
+                } else {
+                    // Write to a temporary file first so readers never see partial content
+                    const temp = path.join(metaDir(object.bucket), "tmp", randomUUID());
+                    await fs.promises.mkdir(path.dirname(temp), { recursive: true });
+                    await fs.promises.writeFile(temp, content);
+                    try {
+                        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+                        await fs.promises.rename(temp, file);
+                    } finally {
+                        await removeFile(temp);
+                    }
+                }
+            } catch (error) {
+                const code = (error as NodeJS.ErrnoException).code;
+                if (code === "EEXIST" || code === "ENOTDIR" || code === "EISDIR" || code === "ENOTEMPTY" || code === "EPERM") {
+                    throw conflict(object.name);
+                }
+                throw error;
+            }
+            await writeSidecar(object);
+        },
+
+        async updateObject(object) {
+            if (!object.timeDeleted) {
+                await writeSidecar(object);
+                return;
+            }
+
+            const version = versionPath(object.bucket, object.name, object.generation);
+            if (!(await statOrUndefined(version))) {
+                // The live generation becomes noncurrent: move its content among the versions
+                await fs.promises.mkdir(path.dirname(version), { recursive: true });
+                if (object.name.endsWith("/")) {
+                    await fs.promises.writeFile(version, Buffer.alloc(0));
+                } else {
+                    await fs.promises.rename(contentPath(object.bucket, object.name), version);
+                }
+                await removeLive(object);
+            }
+            await writeJson(`${version}.json`, object);
+        },
+
+        async deleteObject(object) {
+            if (!object.timeDeleted) {
+                await removeLive(object);
+                return;
+            }
+            const version = versionPath(object.bucket, object.name, object.generation);
+            await removeFile(version);
+            await removeFile(`${version}.json`);
+            await pruneEmptyDirs(path.dirname(version), metaDir(object.bucket));
+        }
+    };
+}
@@ -0,0 +1,57 @@
+/**
+ * Confinement of local filesystem access to a configured set of root directories.
+ */
+
+import path from "path";
+import fs from "fs";
+import { ToolError } from "./errors.js";
+
+// Parse allowed local roots from the ALLOWED_LOCAL_ROOTS environment variable
+export function parseAllowedRoots(value: string | undefined): string[] {
+    if (!value) return [];
+    return value.split(path.delimiter)
+        .map(root => root.trim())
+        .filter(root => root)
+        .map(root => {
+            const resolved = path.resolve(root);
+            // Resolve symlinks in the root itself so comparisons use real paths
+            return fs.existsSync(resolved) ? fs.realpathSync(resolved) : resolved;
+        });
+}
+
+// Whether a real path lies inside (or is) one of the roots
+function isWithinRoots(target: string, roots: string[]): boolean {
+    return roots.some(root => {
+        const relative = path.relative(root, target);
+        return relative === "" || (!relative.startsWith("..") && !path.isAbsolute(relative));
+    });
+}
+
+// Resolve the real path of the longest existing ancestor, then re-append the rest
+function realpathAllowingMissing(target: string): string {
+    const missing: string[] = [];
+    let current = target;
+    while (!fs.existsSync(current)) {
+        const parent = path.dirname(current);
+        if (parent === current) break;
+        missing.unshift(path.basename(current));
+        current = parent;
+    }
+    return path.join(fs.realpathSync(current), ...missing);
+}
+
+// Resolve a local path and ensure it is inside one of the allowed roots.
+// Relative paths are resolved against the first root.
+export function resolveLocalPath(localPath: string, roots: string[]): string {
+    if (roots.length === 0) {
+        throw new ToolError("NOT_CONFIGURED", "Local file access is disabled. Set ALLOWED_LOCAL_ROOTS to enable it.");
+    }
+
+    const absolute = path.isAbsolute(localPath) ? path.resolve(localPath) : path.resolve(roots[0], localPath);
+    const real = realpathAllowingMissing(absolute);
+
+    if (!isWithinRoots(real, roots)) {
+        throw new ToolError("POLICY_DENIED", `Path ${localPath} is outside the allowed local roots: ${roots.join(", ")}`);
+    }
+    return real;
+}
@@ -0,0 +1,87 @@
+/**
+ * In-memory storage backend.
+ *
+ * Buckets, object generations and their content live in maps and are lost
+ * when the server stops, which suits demos and trying tools out offline.
+ */
+
+import { BucketRecord, notFound, ObjectRecord, StorageBackend } from "./backend.js";
+
+interface MemoryBucket {
+    record: BucketRecord;
+    // Stored generations of each object, keyed by name and then generation
+    objects: Map<string, Map<string, { object: ObjectRecord, content: Buffer }>>;
+}
+
+export function createMemoryBackend(): StorageBackend {
+    const buckets = new Map<string, MemoryBucket>();
+
+    const bucketOf = (name: string): MemoryBucket => {
+        const bucket = buckets.get(name);
+        if (!bucket) throw notFound("The specified bucket does not exist.");
+        return bucket;
+    };
+
+    const storedGeneration = (object: ObjectRecord) => {
+        const stored = bucketOf(object.bucket).objects.get(object.name)?.get(object.generation);
+        if (!stored) throw notFound(`No such object: ${object.bucket}/${object.name}`);
+        return stored;
+    };
+
+    return {
+        async listBuckets() {
+            return [...buckets.values()].map(bucket => bucket.record);
+        },
+
+        async getBucket(name) {
+            return buckets.get(name)?.record;
+        },
+
+        async putBucket(record) {
+            const existing = buckets.get(record.metadata.name);
+            buckets.set(record.metadata.name, { record, objects: existing?.objects ?? new Map() });
+        },
+
+        async deleteBucket(name) {
+            buckets.delete(name);
+        },
+
+        async listObjects(bucket, prefix) {
+            const objects: ObjectRecord[] = [];
+            for (const [name, generations] of bucketOf(bucket).objects) {
+                if (!name.startsWith(prefix)) continue;
+                for (const { object } of generations.values()) objects.push(object);
+            }
+            return objects;
+        },
+
+        async getObject(bucket, name, generation) {
+            const generations = buckets.get(bucket)?.objects.get(name);
+            if (!generations) return undefined;
+            if (generation !== undefined) return generations.get(generation)?.object;
+            return [...generations.values()].find(({ object }) => !object.timeDeleted)?.object;
+        },
+
+        async readContent(object) {
+            return storedGeneration(object).content;
+        },
+
+        async putObject(object, content) {
+            const objects = bucketOf(object.bucket).objects;
+            const generations = objects.get(object.name) ?? new Map();
+            generations.set(object.generation, { object, content: Buffer.from(content) });
+            objects.set(object.name, generations);
+        },
+
+        async updateObject(object) {
+            storedGeneration(object).object = object;
+        },
+
+        async deleteObject(object) {
+            const objects = bucketOf(object.bucket).objects;
+            const generations = objects.get(object.name);
+            generations?.delete(object.generation);
+            if (generations?.size === 0) objects.delete(object.name);
+        }
+    };
+}
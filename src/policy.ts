@@ -0,0 +1,133 @@
+/**
+ * Per-project access policy.
+ *
+ * A policy can make a project read-only, restrict which tools may be used,
+ * and limit access to buckets and object prefixes matching allowlist globs.
+ * Projects without an entry fall back to the "default" policy, and when no
+ * policy is configured everything is allowed.
+ */
+
+import fs from "fs";
+import { z } from "zod";
+import { globToRegExp, matchesGlob } from "./glob.js";
+import { ToolError } from "./errors.js";
+
+export const ProjectPolicySchema = z.object({
+    readOnly: z.boolean().optional().default(false),
+    allowTools: z.array(z.string().min(1)).optional(),
+    denyTools: z.array(z.string().min(1)).optional().default([]),
+    buckets: z.array(z.string().min(1)).optional(),
+    objectPrefixes: z.array(z.string()).optional()
+}).strict();
+
+export const AccessPolicySchema = z.object({
+    default: ProjectPolicySchema.optional(),
+    projects: z.record(ProjectPolicySchema).optional().default({})
+}).strict();
+
+export type ProjectPolicy = z.infer<typeof ProjectPolicySchema>;
+export type AccessPolicy = z.infer<typeof AccessPolicySchema>;
+
+// A project, bucket and set of objects or prefixes that a tool call touches
+export interface AccessTarget {
+    project: string;
+    write: boolean;
+    bucket?: string;
+    objects?: string[];
+    prefixes?: string[];
+}
+
+// Raised when a tool call falls outside the configured policy
+export class PolicyError extends ToolError {
+    constructor(message: string) {
+        super("POLICY_DENIED", message);
+        this.name = "PolicyError";
+    }
+}
+
+// Load and validate a policy file; without a path everything is allowed
+export function loadAccessPolicy(policyPath: string | undefined): AccessPolicy {
+    if (!policyPath) {
+        return AccessPolicySchema.parse({});
+    }
+    const raw = JSON.parse(fs.readFileSync(policyPath, "utf8"));
+    return AccessPolicySchema.parse(raw);
+}
+
+// The policy that applies to a project, if any
+export function projectPolicy(policy: AccessPolicy, project: string): ProjectPolicy | undefined {
+    return policy.projects[project] ?? policy.default;
+}
+
+// Whether a project policy permits a tool, given whether the call writes to storage
+function toolAllowed(rules: ProjectPolicy, tool: string, write: boolean): string | undefined {
+    if (rules.denyTools.includes(tool)) {
+        return `tool ${tool} is denied`;
+    }
+    if (rules.allowTools && !rules.allowTools.includes(tool)) {
+        return `tool ${tool} is not in the allowed tools`;
+    }
+    if (rules.readOnly && write) {
+        return `the project is read-only`;
+    }
+    return undefined;
+}
+
+// Whether an object name, or everything under a listing prefix, lies inside an allowed prefix glob
+function objectAllowed(rules: ProjectPolicy, name: string): boolean {
+    if (!rules.objectPrefixes) return true;
+    return rules.objectPrefixes.some(pattern => globToRegExp(pattern, { prefix: true }).test(name));
+}
+
+// Whether a bucket name matches the bucket allowlist of a project
+export function isBucketAllowed(policy: AccessPolicy, project: string, bucket: string): boolean {
+    const rules = projectPolicy(policy, project);
+    if (!rules?.buckets) return true;
+    return rules.buckets.some(pattern => matchesGlob(bucket, pattern));
+}
+
+// Verbs of Cloud Storage permissions that only read, the ones a read-only project keeps
+const READ_VERBS = new Set(["get", "list", "getIamPolicy"]);
+
+// Whether a project policy lets the server exercise a Cloud Storage permission
+export function isPermissionAllowed(policy: AccessPolicy, project: string, permission: string): boolean {
+    const rules = projectPolicy(policy, project);
+    if (!rules?.readOnly) return true;
+    return READ_VERBS.has(permission.slice(permission.lastIndexOf(".") + 1));
+}
+
+// Whether a tool is usable in at least one of the given projects
+export function isToolVisible(policy: AccessPolicy, projects: string[], tool: string, write: boolean): boolean {
+    if (projects.length === 0) return true;
+    return projects.some(project => {
+        const rules = projectPolicy(policy, project);
+        return !rules || toolAllowed(rules, tool, write) === undefined;
+    });
+}
+
+// Throw a PolicyError unless the tool call is permitted for every target
+export function enforceAccessPolicy(policy: AccessPolicy, tool: string, targets: AccessTarget[]) {
+    for (const target of targets) {
+        const rules = projectPolicy(policy, target.project);
+        if (!rules) continue;
+
+        const toolProblem = toolAllowed(rules, tool, target.write);
+        if (toolProblem) {
+            throw new PolicyError(`${tool} is not permitted in project ${target.project}: ${toolProblem}`);
+        }
+
+        if (target.bucket !== undefined && !isBucketAllowed(policy, target.project, target.bucket)) {
+            throw new PolicyError(
+                `Bucket ${target.bucket} is not permitted in project ${target.project}. Allowed buckets: ${rules.buckets!.join(", ")}`
+            );
+        }
+
+        for (const name of [...(target.objects ?? []), ...(target.prefixes ?? [])]) {
+            if (!objectAllowed(rules, name)) {
+                throw new PolicyError(
+                    `Object path '${name}' in bucket ${target.bucket} is outside the allowed prefixes for project ${target.project}: ${rules.objectPrefixes!.join(", ")}`
+                );
+            }
+        }
+    }
+}
@@ -0,0 +1,281 @@
+/**
+ * Structured previews of object content.
+ *
+ * Delimited text and JSON Lines are parsed into a table of the first records
+ * with inferred column types, JSON documents are summarized to a limited
+ * depth, and images are downscaled so they can be returned inline.
+ */
+
+import sharp from "sharp";
+
+export type PreviewFormat = "csv" | "tsv" | "ndjson" | "json" | "image" | "text";
+
+export type ColumnType = "integer" | "number" | "boolean" | "date" | "string" | "object" | "array" | "empty";
+
+export interface PreviewColumn {
+    name: string;
+    type: ColumnType;
+    nullable: boolean;
+}
+
+export interface TablePreview {
+    columns: PreviewColumn[];
+    rows: unknown[][];
+    // Size of any header row, then the records in the sample after it and the bytes they took up
+    headerBytes: number;
+    sampledRecords: number;
+    sampledBytes: number;
+    errors: { record: number, message: string }[];
+}
+
+// Image formats clients can display; everything else is converted to PNG
+const INLINE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+// Longest string value kept in a JSON summary
+const MAX_SUMMARY_STRING_LENGTH = 200;
+
+// Array items kept at each level of a JSON summary
+const MAX_SUMMARY_ARRAY_ITEMS = 10;
+
+// Pick the preview format from the content type, falling back to the file extension
+export function detectPreviewFormat(name: string, contentType: string | undefined): PreviewFormat {
+    const type = (contentType || "").toLowerCase();
+    const extension = name.slice(name.lastIndexOf(".")).toLowerCase();
+    if (type.startsWith("image/")) return "image";
+    if (type.includes("tab-separated") || extension === ".tsv") return "tsv";
+    if (type.includes("csv") || extension === ".csv") return "csv";
+    if (type.includes("ndjson") || type.includes("jsonl") || extension === ".ndjson" || extension === ".jsonl") return "ndjson";
+    if (type.includes("json") || extension === ".json") return "json";
+    return "text";
+}
+
+// Guess the delimiter of CSV-like text from how consistently it splits the first lines
+export function detectDelimiter(sample: string): string {
+    const lines = sample.split("\n").slice(0, 20).filter(line => line.trim().length > 0);
+    let best = ",";
+    let bestScore = 0;
+    for (const delimiter of [",", "\t", ";", "|"]) {
+        const counts = lines.map(line => line.split(delimiter).length - 1);
+        if (counts.length === 0 || counts[0] === 0) continue;
+        const consistent = counts.filter(count => count === counts[0]).length;
+        const score = consistent * counts[0];
+        if (score > bestScore) {
+            best = delimiter;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+// Split delimited text into records, honouring quoted fields. When the text
+// may continue past the sample, the last (possibly partial) record is dropped.
+function parseDelimited(text: string, delimiter: string, complete: boolean): { records: string[][], headerEnd: number, consumed: number } {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = "";
+    let quoted = false;
+    let recordEnd = 0;
+    let headerEnd = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === "\"") {
+                if (text[i + 1] === "\"") {
+                    field += "\"";
+                    i++;
+                } else {
+                    quoted = false;
+                }
+            } else {
+                field += char;
+            }
+        } else if (char === "\"" && field.length === 0) {
+            quoted = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = "";
+            recordEnd = i + 1;
+            if (headerEnd === 0) headerEnd = recordEnd;
+        } else {
+            field += char;
+        }
+    }
+
+    if (complete && (field.length > 0 || record.length > 0)) {
+        record.push(field);
+        records.push(record);
+        recordEnd = text.length;
+    }
+    return { records: records.filter(fields => fields.length > 1 || fields[0] !== ""), headerEnd, consumed: recordEnd };
+}
+
+// Infer the type of a single delimited field
+function fieldType(value: string): ColumnType {
+    if (value === "") return "empty";
+    if (/^[+-]?\d+$/.test(value)) return "integer";
+    if (/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(value)) return "number";
+    if (/^(true|false)$/i.test(value)) return "boolean";
+    if (/^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(value)) return "date";
+    return "string";
+}
+
+// Infer the type of a JSON value
+function valueType(value: unknown): ColumnType {
+    if (value === null || value === undefined) return "empty";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+    if (typeof value === "boolean") return "boolean";
+    if (typeof value === "string") return fieldType(value) === "date" ? "date" : "string";
+    return "object";
+}
+
+// Combine the types seen in one column into a single column type
+function mergeTypes(name: string, types: ColumnType[]): PreviewColumn {
+    const present = new Set(types.filter(type => type !== "empty"));
+    const nullable = types.includes("empty");
+    if (present.size === 0) return { name, type: "empty", nullable: true };
+    if (present.size === 1) return { name, type: [...present][0], nullable };
+    if ([...present].every(type => type === "integer" || type === "number")) return { name, type: "number", nullable };
+    return { name, type: "string", nullable };
+}
+
+// Preview CSV or TSV text: a header row followed by up to `rows` records
+export function previewDelimited(text: string, options: { delimiter: string, rows: number, complete: boolean }): TablePreview {
+    const { records, headerEnd, consumed } = parseDelimited(text, options.delimiter, options.complete);
+    const header = records[0] ?? [];
+    const body = records.slice(1);
+    const names = header.map((name, index) => name.trim() || `column${index + 1}`);
+
+    const errors: TablePreview["errors"] = [];
+    body.slice(0, options.rows).forEach((record, index) => {
+        if (record.length !== names.length) {
+            errors.push({ record: index + 1, message: `Expected ${names.length} fields but found ${record.length}` });
+        }
+    });
+
+    const columns = names.map((name, index) => mergeTypes(name, body.map(record => fieldType(record[index] ?? ""))));
+    const rows = body.slice(0, options.rows).map(record => names.map((_, index) => {
+        const value = record[index] ?? "";
+        switch (columns[index].type) {
+            case "integer":
+            case "number":
+                return value === "" ? null : Number(value);
+            case "boolean":
+                return value === "" ? null : value.toLowerCase() === "true";
+            default:
+                return value === "" ? null : value;
+        }
+    }));
+
+    return {
+        columns,
+        rows,
+        headerBytes: Buffer.byteLength(text.slice(0, headerEnd)),
+        sampledRecords: body.length,
+        sampledBytes: Buffer.byteLength(text.slice(headerEnd, consumed)),
+        errors
+    };
+}
+
+// Preview JSON Lines: one JSON value per line, with columns from the top-level keys
+export function previewNdjson(text: string, options: { rows: number, complete: boolean }): TablePreview {
+    const lines = text.split("\n");
+    // Without the whole object the last line may be cut off
+    if (!options.complete) lines.pop();
+
+    const records: Record<string, unknown>[] = [];
+    const errors: TablePreview["errors"] = [];
+    let sampledRecords = 0;
+    let sampledBytes = 0;
+    lines.forEach((line, index) => {
+        sampledBytes += Buffer.byteLength(line) + 1;
+        if (line.trim().length === 0) return;
+        sampledRecords++;
+        if (records.length >= options.rows) return;
+        try {
+            const value = JSON.parse(line);
+            records.push(value !== null && typeof value === "object" && !Array.isArray(value) ? value : { value });
+        } catch (error) {
+            errors.push({ record: index + 1, message: (error as Error).message });
+        }
+    });
+
+    const names: string[] = [];
+    for (const record of records) {
+        for (const key of Object.keys(record)) {
+            if (!names.includes(key)) names.push(key);
+        }
+    }
+
+    return {
+        columns: names.map(name => mergeTypes(name, records.map(record => valueType(record[name])))),
+        rows: records.map(record => names.map(name => record[name] ?? null)),
+        headerBytes: 0,
+        sampledRecords,
+        sampledBytes,
+        errors
+    };
+}
+
+// Estimate the number of records in an object from the average record size in the sample
+export function estimateRecordCount(preview: TablePreview, totalBytes: number): number | undefined {
+    if (preview.sampledRecords === 0 || preview.sampledBytes === 0) return undefined;
+    const bytesPerRecord = preview.sampledBytes / preview.sampledRecords;
+    return Math.round((totalBytes - preview.headerBytes) / bytesPerRecord);
+}
+
+// Reduce a JSON value to a limited depth, with long arrays and strings shortened
+export function summarizeJson(value: unknown, maxDepth: number, depth = 0): unknown {
+    if (typeof value === "string") {
+        return value.length > MAX_SUMMARY_STRING_LENGTH ?
+            `${value.slice(0, MAX_SUMMARY_STRING_LENGTH)}… (${value.length} characters)` :
+            value;
+    }
+    if (Array.isArray(value)) {
+        if (depth >= maxDepth) return `[array with ${value.length} items]`;
+        const items = value.slice(0, MAX_SUMMARY_ARRAY_ITEMS).map(item => summarizeJson(item, maxDepth, depth + 1));
+        if (value.length > MAX_SUMMARY_ARRAY_ITEMS) items.push(`… ${value.length - MAX_SUMMARY_ARRAY_ITEMS} more items`);
+        return items;
+    }
+    if (value !== null && typeof value === "object") {
+        const entries = Object.entries(value);
+        if (depth >= maxDepth) return `{object with ${entries.length} keys}`;
+        return Object.fromEntries(entries.map(([key, item]) => [key, summarizeJson(item, maxDepth, depth + 1)]));
+    }
+    return value;
+}
+
+// Scale an image to fit within maxDimension pixels and convert it to a format
+// clients can display. Images already small enough are returned unchanged.
+export async function renderImagePreview(content: Buffer, contentType: string | undefined, maxDimension: number) {
+    const image = sharp(content, { animated: false });
+    const metadata = await image.metadata();
+    const width = metadata.width ?? 0;
+    const height = metadata.height ?? 0;
+    const resize = width > maxDimension || height > maxDimension;
+    const type = (contentType || "").toLowerCase();
+
+    if (!resize && INLINE_IMAGE_TYPES.includes(type)) {
+        return { data: content, mimeType: type, width, height, original: { width, height }, resized: false };
+    }
+
+    const output = await image
+        .resize({ width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true })
+        .toFormat(type === "image/jpeg" ? "jpeg" : "png")
+        .toBuffer({ resolveWithObject: true });
+    return {
+        data: output.data,
+        mimeType: type === "image/jpeg" ? "image/jpeg" : "image/png",
+        width: output.info.width,
+        height: output.info.height,
+        original: { width, height },
+        resized: resize
+    };
+}
@@ -0,0 +1,65 @@
+/**
+ * Progress notifications and cancellation.
+ *
+ * When a tools/call request carries a progressToken, long-running tools
+ * report the bytes transferred or objects processed as notifications/progress.
+ * Cancelling a request aborts its signal: streams in flight are destroyed,
+ * which also abandons resumable upload sessions, and tools that work through
+ * many objects stop starting new ones and report what they finished.
+ */
+
+import { ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import { Transform } from "stream";
+import { ToolError } from "./errors.js";
+
+// Shortest time between two progress notifications for the same request
+const PROGRESS_INTERVAL_MS = 250;
+
+// Report how far a tool has got, and the amount it expects to reach if known
+export type ReportProgress = (progress: number, total?: number, message?: string) => void;
+
+// A reporter that reports nothing, for calls made without a progress token
+export const ignoreProgress: ReportProgress = () => {};
+
+// Reporter that sends notifications/progress for a request's progress token.
+// Notifications are throttled except for the one reaching the total, and
+// progress that does not move forward is not sent.
+export function progressReporter(
+    progressToken: string | number | undefined,
+    send: (notification: ServerNotification) => Promise<void>
+): ReportProgress {
+    if (progressToken === undefined) return ignoreProgress;
+
+    let last = -Infinity;
+    let lastSentAt = 0;
+    return (progress, total, message) => {
+        const now = Date.now();
+        if (progress <= last) return;
+        if (now - lastSentAt < PROGRESS_INTERVAL_MS && progress !== total) return;
+        last = progress;
+        lastSentAt = now;
+        send({
+            method: "notifications/progress",
+            params: { progressToken, progress, total, message }
+        }).catch(error => console.error("Error sending progress notification:", error));
+    };
+}
+
+// Throw a CANCELLED error if the request was cancelled, saying how far it got
+export function checkCancelled(signal: AbortSignal | undefined, done?: string) {
+    if (signal?.aborted) {
+        throw new ToolError("CANCELLED", done ? `The request was cancelled after ${done}` : "The request was cancelled");
+    }
+}
+
+// Pass-through stream that reports the number of bytes that have gone through it
+export function countBytes(onBytes: (bytes: number) => void): Transform {
+    let bytes = 0;
+    return new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            bytes += chunk.length;
+            onBytes(bytes);
+            callback(null, chunk);
+        }
+    });
+}
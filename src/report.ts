@@ -0,0 +1,198 @@
+/**
+ * Storage usage reports.
+ *
+ * A report walks a bucket listing one page at a time and keeps only running
+ * totals and the largest objects, so memory use does not grow with the
+ * number of objects beyond one entry per distinct prefix.
+ */
+
+import { Bucket } from "@google-cloud/storage";
+import { iterateFiles } from "./listing.js";
+
+const BYTES_PER_GIB = 1024 * 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Approximate list prices in USD per GiB-month for a single US region.
+// Multi-region and dual-region buckets cost more; override with a price table.
+export const DEFAULT_STORAGE_PRICES: Record<string, number> = {
+    STANDARD: 0.020,
+    NEARLINE: 0.010,
+    COLDLINE: 0.004,
+    ARCHIVE: 0.0012,
+    MULTI_REGIONAL: 0.026,
+    REGIONAL: 0.020,
+    DURABLE_REDUCED_AVAILABILITY: 0.020
+};
+
+// Object age ranges, by days since creation
+const AGE_BUCKETS: { label: string, maxDays: number }[] = [
+    { label: "< 7 days", maxDays: 7 },
+    { label: "7-30 days", maxDays: 30 },
+    { label: "30-90 days", maxDays: 90 },
+    { label: "90-365 days", maxDays: 365 },
+    { label: "> 1 year", maxDays: Infinity }
+];
+
+export interface StorageReportOptions {
+    prefix?: string;
+    depth: number;
+    largest: number;
+    maxObjects: number;
+    maxGroups: number;
+    includeNoncurrent: boolean;
+    prices: Record<string, number>;
+    // Storage class of objects that report none, normally the bucket default
+    defaultStorageClass: string;
+}
+
+interface Totals {
+    objects: number;
+    bytes: number;
+    monthlyCost: number;
+}
+
+function emptyTotals(): Totals {
+    return { objects: 0, bytes: 0, monthlyCost: 0 };
+}
+
+function addTo(groups: Map<string, Totals>, key: string, bytes: number, cost: number) {
+    const totals = groups.get(key) ?? emptyTotals();
+    totals.objects++;
+    totals.bytes += bytes;
+    totals.monthlyCost += cost;
+    groups.set(key, totals);
+}
+
+// Folder an object belongs to, at most `depth` levels below the report prefix
+function groupPrefix(name: string, prefix: string, depth: number): string {
+    const segments = name.slice(prefix.length).split("/");
+    const folders = segments.slice(0, Math.min(depth, segments.length - 1));
+    return folders.length > 0 ? `${prefix}${folders.join("/")}/` : `${prefix}(objects directly under prefix)`;
+}
+
+function ageBucket(created: string | undefined, now: number): string {
+    const time = created ? Date.parse(created) : NaN;
+    if (Number.isNaN(time)) return "unknown";
+    const days = (now - time) / DAY_MS;
+    return AGE_BUCKETS.find(bucket => days < bucket.maxDays)!.label;
+}
+
+function roundCost(cost: number): number {
+    return Math.round(cost * 10000) / 10000;
+}
+
+// Largest groups first; the rest are summed into a single "(other)" entry
+function summarizeGroups(groups: Map<string, Totals>, limit: number) {
+    const sorted = [...groups.entries()].sort((a, b) => b[1].bytes - a[1].bytes);
+    const shown = sorted.slice(0, limit).map(([key, totals]) => ({
+        key,
+        objects: totals.objects,
+        bytes: totals.bytes,
+        estimatedMonthlyCost: roundCost(totals.monthlyCost)
+    }));
+    const rest = sorted.slice(limit);
+    if (rest.length > 0) {
+        const other = rest.reduce((sum, [, totals]) => ({
+            objects: sum.objects + totals.objects,
+            bytes: sum.bytes + totals.bytes,
+            monthlyCost: sum.monthlyCost + totals.monthlyCost
+        }), emptyTotals());
+        shown.push({
+            key: `(other: ${rest.length} groups)`,
+            objects: other.objects,
+            bytes: other.bytes,
+            estimatedMonthlyCost: roundCost(other.monthlyCost)
+        });
+    }
+    return shown;
+}
+
+// Walk the objects under a prefix and aggregate their count, size and estimated cost
+export async function buildStorageReport(bucket: Bucket, options: StorageReportOptions) {
+    const prefix = options.prefix ?? "";
+    const now = Date.now();
+
+    const total = emptyTotals();
+    const noncurrent = emptyTotals();
+    const byPrefix = new Map<string, Totals>();
+    const byStorageClass = new Map<string, Totals>();
+    const byContentType = new Map<string, Totals>();
+    const byAge = new Map<string, Totals>();
+    const largest: { name: string, size: number, storageClass: string, updated?: string, live: boolean }[] = [];
+    const unpricedClasses = new Set<string>();
+    let complete = true;
+
+    for await (const file of iterateFiles(bucket, { prefix: prefix || undefined, versions: options.includeNoncurrent })) {
+        if (total.objects >= options.maxObjects) {
+            complete = false;
+            break;
+        }
+
+        const size = Number(file.metadata.size ?? 0);
+        const storageClass = file.metadata.storageClass ?? options.defaultStorageClass;
+        const price = options.prices[storageClass];
+        if (price === undefined) unpricedClasses.add(storageClass);
+        const cost = (size / BYTES_PER_GIB) * (price ?? 0);
+        const live = !file.metadata.timeDeleted;
+
+        total.objects++;
+        total.bytes += size;
+        total.monthlyCost += cost;
+        if (!live) {
+            noncurrent.objects++;
+            noncurrent.bytes += size;
+            noncurrent.monthlyCost += cost;
+        }
+
+        addTo(byPrefix, groupPrefix(file.name, prefix, options.depth), size, cost);
+        addTo(byStorageClass, storageClass, size, cost);
+        addTo(byContentType, file.metadata.contentType || "(none)", size, cost);
+        addTo(byAge, ageBucket(file.metadata.timeCreated, now), size, cost);
+
+        // Keep the largest objects seen so far, smallest last
+        if (largest.length < options.largest || size > largest[largest.length - 1].size) {
+            largest.push({ name: file.name, size, storageClass, updated: file.metadata.updated, live });
+            largest.sort((a, b) => b.size - a.size);
+            if (largest.length > options.largest) largest.pop();
+        }
+    }
+
+    return {
+        bucket: bucket.name,
+        prefix,
+        complete,
+        totals: {
+            objects: total.objects,
+            bytes: total.bytes,
+            gib: Math.round((total.bytes / BYTES_PER_GIB) * 1000) / 1000,
+            estimatedMonthlyCost: roundCost(total.monthlyCost)
+        },
+        noncurrentVersions: options.includeNoncurrent ? {
+            objects: noncurrent.objects,
+            bytes: noncurrent.bytes,
+            estimatedMonthlyCost: roundCost(noncurrent.monthlyCost)
+        } : undefined,
+        byPrefix: summarizeGroups(byPrefix, options.maxGroups),
+        byStorageClass: summarizeGroups(byStorageClass, options.maxGroups),
+        byContentType: summarizeGroups(byContentType, options.maxGroups),
+        byAge: AGE_BUCKETS.map(bucket => bucket.label).concat("unknown")
+            .filter(label => byAge.has(label))
+            .map(label => {
+                const totals = byAge.get(label)!;
+                return {
+                    key: label,
+                    objects: totals.objects,
+                    bytes: totals.bytes,
+                    estimatedMonthlyCost: roundCost(totals.monthlyCost)
+                };
+            }),
+        largestObjects: largest,
+        pricing: {
+            currency: "USD",
+            unit: "GiB-month",
+            prices: options.prices,
+            unpricedStorageClasses: [...unpricedClasses],
+            note: "Storage at rest only; operations, retrieval, early deletion and network egress are not included"
+        }
+    };
+}
@@ -0,0 +1,250 @@
+/**
+ * MCP resources for Cloud Storage objects.
+ *
+ * Objects are addressed as gs://{bucket}/{object}. Listing walks the buckets
+ * of every initialized project one page at a time, reading reuses the
+ * download logic, and subscriptions poll the object generation so clients
+ * are notified when an attached object changes.
+ */
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { Storage } from "@google-cloud/storage";
+import { contentTypeFor, isTextContent, readObject } from "./content.js";
+
+// Number of objects returned per resources/list page
+const RESOURCE_PAGE_SIZE = 100;
+
+export interface ResourceContext {
+    // Names of projects with an initialized Storage client
+    projects: () => string[];
+    defaultProject: string;
+    getStorageClient: (project: string) => Storage;
+    // Throw when the policy does not permit the equivalent tool call
+    checkAccess: (tool: string, project: string, bucket: string, object?: string) => void;
+    isBucketAllowed: (project: string, bucket: string) => boolean;
+    maxInlineBytes: number;
+    pollIntervalMs: number;
+}
+
+// Position in the walk over projects, buckets and object pages
+interface ListCursor {
+    p: number;
+    b: number;
+    t?: string;
+}
+
+// Split a gs:// URI into bucket and object name
+export function parseGcsUri(uri: string): { bucket: string, object: string } {
+    const match = /^gs:\/\/([^/]+)\/(.+)$/.exec(uri);
+    if (!match) {
+        throw new Error(`Invalid Cloud Storage URI ${uri}. Expected gs://{bucket}/{object}`);
+    }
+    return { bucket: match[1], object: match[2] };
+}
+
+function encodeCursor(cursor: ListCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(cursor: string | undefined): ListCursor {
+    if (!cursor) return { p: 0, b: 0 };
+    try {
+        return JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    } catch {
+        throw new Error("Invalid resources/list cursor");
+    }
+}
+
+export function registerResourceHandlers(server: Server, context: ResourceContext) {
+    // Buckets seen while listing, so reads of their objects use the right project
+    const bucketProjects = new Map<string, string>();
+
+    const projectForBucket = (bucket: string) => bucketProjects.get(bucket) ?? context.defaultProject;
+
+    // Whether the policy permits an operation, without throwing
+    const permitted = (tool: string, project: string, bucket: string, object?: string) => {
+        try {
+            context.checkAccess(tool, project, bucket, object);
+            return true;
+        } catch {
+            return false;
+        }
+    };
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+        return {
+            resourceTemplates: [
+                {
+                    uriTemplate: "gs://{bucket}/{object}",
+                    name: "Cloud Storage object",
+                    description: "An object in a Cloud Storage bucket. Text objects are returned as text, everything else as a base64 blob."
+                }
+            ]
+        };
+    });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+        const cursor = decodeCursor(request.params?.cursor);
+        const projects = context.projects();
+
+        while (cursor.p < projects.length) {
+            const project = projects[cursor.p];
+            const client = context.getStorageClient(project);
+            const [allBuckets] = await client.getBuckets();
+            const buckets = allBuckets.filter(bucket =>
+                context.isBucketAllowed(project, bucket.name) && permitted("listFiles", project, bucket.name)
+            );
+
+            if (cursor.b >= buckets.length) {
+                cursor.p++;
+                cursor.b = 0;
+                cursor.t = undefined;
+                continue;
+            }
+
+            const bucket = buckets[cursor.b];
+            bucketProjects.set(bucket.name, project);
+
+            const [files, nextQuery] = await bucket.getFiles({
+                autoPaginate: false,
+                maxResults: RESOURCE_PAGE_SIZE,
+                pageToken: cursor.t
+            });
+
+            const resources = files
+                .filter(file => permitted("downloadFile", project, bucket.name, file.name))
+                .map(file => ({
+                    uri: `gs://${bucket.name}/${file.name}`,
+                    name: file.name,
+                    description: `${file.metadata.size ?? 0} bytes in bucket ${bucket.name} (project ${project})`,
+                    mimeType: contentTypeFor(file.name, file.metadata)
+                }));
+
+            const pageToken = (nextQuery as { pageToken?: string } | null)?.pageToken;
+            const next: ListCursor = pageToken ?
+                { p: cursor.p, b: cursor.b, t: pageToken } :
+                { p: cursor.p, b: cursor.b + 1 };
+            const more = pageToken || cursor.b + 1 < buckets.length || cursor.p + 1 < projects.length;
+
+            return {
+                resources,
+                nextCursor: more ? encodeCursor(next) : undefined
+            };
+        }
+
+        return { resources: [] };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const { uri } = request.params;
+        const { bucket, object } = parseGcsUri(uri);
+        const project = projectForBucket(bucket);
+        context.checkAccess("downloadFile", project, bucket, object);
+
+        const file = context.getStorageClient(project).bucket(bucket).file(object);
+        const [metadata] = await file.getMetadata();
+        const result = await readObject(file, metadata, {
+            maxBytes: context.maxInlineBytes,
+            decompress: true
+        });
+
+        const declaredType = contentTypeFor(object, metadata);
+        if (isTextContent(declaredType, result.content)) {
+            return {
+                contents: [{
+                    uri,
+                    mimeType: declaredType ?? "text/plain",
+                    text: result.content.toString("utf-8")
+                }]
+            };
+        }
+        return {
+            contents: [{
+                uri,
+                mimeType: declaredType ?? "application/octet-stream",
+                blob: result.content.toString("base64")
+            }]
+        };
+    });
+
+    // Last seen generation of each subscribed object
+    const subscriptions = new Map<string, string | undefined>();
+    let pollTimer: NodeJS.Timeout | undefined;
+    let polling = false;
+
+    const currentGeneration = async (uri: string): Promise<string | undefined> => {
+        const { bucket, object } = parseGcsUri(uri);
+        const file = context.getStorageClient(projectForBucket(bucket)).bucket(bucket).file(object);
+        try {
+            const [metadata] = await file.getMetadata();
+            return String(metadata.generation);
+        } catch (error) {
+            // A deleted object is reported as a change as well
+            if ((error as { code?: number }).code === 404) return undefined;
+            throw error;
+        }
+    };
+
+    const poll = async () => {
+        // Skip a tick if the previous poll is still running
+        if (polling) return;
+        polling = true;
+        try {
+            await pollSubscriptions();
+        } finally {
+            polling = false;
+        }
+    };
+
+    const pollSubscriptions = async () => {
+        for (const [uri, generation] of subscriptions) {
+            try {
+                const latest = await currentGeneration(uri);
+                if (subscriptions.has(uri) && latest !== generation) {
+                    subscriptions.set(uri, latest);
+                    await server.sendResourceUpdated({ uri });
+                }
+            } catch (error) {
+                console.error(`Error polling subscribed resource ${uri}:`, error);
+            }
+        }
+    };
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        const { uri } = request.params;
+        const { bucket, object } = parseGcsUri(uri);
+        context.checkAccess("downloadFile", projectForBucket(bucket), bucket, object);
+
+        subscriptions.set(uri, await currentGeneration(uri));
+        if (!pollTimer) {
+            pollTimer = setInterval(() => { void poll(); }, context.pollIntervalMs);
+            pollTimer.unref();
+        }
+        return {};
+    });
+
+    // Stop polling once the client disconnects, as HTTP sessions come and go
+    const previousOnClose = server.onclose;
+    server.onclose = () => {
+        subscriptions.clear();
+        clearInterval(pollTimer);
+        pollTimer = undefined;
+        previousOnClose?.();
+    };
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.delete(request.params.uri);
+        if (subscriptions.size === 0 && pollTimer) {
+            clearInterval(pollTimer);
+            pollTimer = undefined;
+        }
+        return {};
+    });
+}
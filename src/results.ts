@@ -0,0 +1,641 @@
+/**
+ * Schemas of tool results.
+ *
+ * Each tool advertises one of these as its output schema and returns a
+ * matching object as structured content, which is checked against the schema
+ * before it is returned. Object metadata returned after a write is passed
+ * through with only its commonly used fields described; getFile and getBucket
+ * return exactly the fields described here.
+ */
+
+import { z } from "zod";
+
+// Generations, metagenerations and sizes are int64 values that the API returns as strings
+const Int64Schema = z.union([z.string(), z.number()]);
+
+// An object in the trash and where it came from
+const TrashEntrySchema = z.object({
+    trashBucket: z.string(),
+    trashObject: z.string(),
+    originalBucket: z.string(),
+    originalName: z.string(),
+    originalGeneration: z.string(),
+    size: z.number(),
+    trashedAt: z.string().optional(),
+    tool: z.string().optional()
+});
+
+// Objects copied to the trash by a call, when trash mode is on
+const TrashedSchema = z.array(TrashEntrySchema).optional().describe("Objects copied to the trash before being deleted or overwritten");
+
+const ObjectMetadataSchema = z.object({
+    name: z.string().optional(),
+    bucket: z.string().optional(),
+    generation: Int64Schema.optional(),
+    metageneration: Int64Schema.optional(),
+    size: Int64Schema.optional(),
+    contentType: z.string().optional(),
+    storageClass: z.string().optional(),
+    timeCreated: z.string().optional(),
+    updated: z.string().optional(),
+    crc32c: z.string().optional(),
+    md5Hash: z.string().optional()
+}).passthrough();
+
+const BucketMetadataSchema = z.object({
+    name: z.string().optional(),
+    id: z.string().optional(),
+    location: z.string().optional(),
+    locationType: z.string().optional(),
+    storageClass: z.string().optional(),
+    timeCreated: z.string().optional(),
+    updated: z.string().optional(),
+    metageneration: Int64Schema.optional()
+}).passthrough();
+
+const MessageResultSchema = z.object({
+    success: z.boolean(),
+    message: z.string()
+});
+
+// Field-by-field differences, keyed by field name
+const ChangesSchema = z.record(z.object({ before: z.unknown(), after: z.unknown() }));
+
+const BucketConfigSchema = z.object({
+    name: z.string().optional(),
+    location: z.string().optional(),
+    locationType: z.string().optional(),
+    uniformBucketLevelAccess: z.boolean(),
+    publicAccessPrevention: z.string(),
+    versioning: z.boolean(),
+    lifecycleRules: z.array(z.unknown()),
+    cors: z.array(z.unknown()),
+    labels: z.record(z.string().nullable()),
+    defaultObjectMetadata: z.object({
+        storageClass: z.string().optional(),
+        eventBasedHold: z.boolean(),
+        kmsKeyName: z.string().nullable()
+    }),
+    retentionPolicy: z.object({
+        retentionPeriodSeconds: z.number(),
+        isLocked: z.boolean(),
+        effectiveTime: z.string().optional()
+    }).nullable(),
+    softDeleteRetentionSeconds: z.number().nullable(),
+    metageneration: Int64Schema.optional()
+});
+
+const IamPolicySchema = z.object({
+    bindings: z.array(z.object({
+        role: z.string(),
+        members: z.array(z.string()),
+        condition: z.object({
+            title: z.string().optional(),
+            description: z.string().optional(),
+            expression: z.string()
+        }).optional()
+    })),
+    version: z.number().optional(),
+    etag: z.string().optional()
+});
+
+const UsageGroupSchema = z.object({
+    key: z.string(),
+    objects: z.number(),
+    bytes: z.number(),
+    estimatedMonthlyCost: z.number()
+});
+
+const FileEntrySchema = z.object({
+    name: z.string(),
+    size: z.number(),
+    contentType: z.string().optional(),
+    updated: z.string().optional(),
+    created: z.string().optional(),
+    generation: z.string().optional(),
+    live: z.boolean().optional()
+});
+
+const UploadSessionSchema = z.object({
+    uploadId: z.string(),
+    bucket: z.string(),
+    destination: z.string(),
+    nextSequence: z.number(),
+    bytesReceived: z.number(),
+    expiresAt: z.string()
+});
+
+const CopyResultSchema = z.object({
+    source: z.string(),
+    destination: z.string(),
+    method: z.enum(["rewrite", "stream"]),
+    size: z.number(),
+    generation: Int64Schema.optional()
+});
+
+export const ListBucketsResultSchema = z.object({
+    buckets: z.array(z.object({
+        name: z.string().optional(),
+        id: z.string().optional(),
+        location: z.string().optional(),
+        storageClass: z.string().optional(),
+        created: z.string().optional()
+    }))
+});
+
+export const GetBucketResultSchema = z.object({
+    name: z.string(),
+    id: z.string().optional(),
+    projectNumber: Int64Schema.optional(),
+    location: z.string().optional(),
+    locationType: z.string().optional(),
+    storageClass: z.string().optional(),
+    timeCreated: z.string().optional(),
+    updated: z.string().optional(),
+    metageneration: Int64Schema.optional(),
+    etag: z.string().optional(),
+    versioning: z.boolean(),
+    labels: z.record(z.string().nullable())
+}).strict();
+
+export const GetBucketConfigResultSchema = BucketConfigSchema;
+
+export const StorageReportResultSchema = z.object({
+    bucket: z.string(),
+    prefix: z.string(),
+    complete: z.boolean().describe("False when maxObjects was reached before the listing ended"),
+    totals: z.object({
+        objects: z.number(),
+        bytes: z.number(),
+        gib: z.number(),
+        estimatedMonthlyCost: z.number()
+    }),
+    noncurrentVersions: z.object({
+        objects: z.number(),
+        bytes: z.number(),
+        estimatedMonthlyCost: z.number()
+    }).optional(),
+    byPrefix: z.array(UsageGroupSchema),
+    byStorageClass: z.array(UsageGroupSchema),
+    byContentType: z.array(UsageGroupSchema),
+    byAge: z.array(UsageGroupSchema),
+    largestObjects: z.array(z.object({
+        name: z.string(),
+        size: z.number(),
+        storageClass: z.string(),
+        updated: z.string().optional(),
+        live: z.boolean()
+    })),
+    pricing: z.object({
+        currency: z.string(),
+        unit: z.string(),
+        prices: z.record(z.number()),
+        unpricedStorageClasses: z.array(z.string()),
+        note: z.string()
+    }),
+    location: z.string().optional(),
+    locationType: z.string().optional()
+});
+
+export const CreateBucketResultSchema = MessageResultSchema.extend({
+    config: BucketConfigSchema
+});
+
+export const DeleteBucketResultSchema = MessageResultSchema;
+
+export const UpdateBucketConfigResultSchema = MessageResultSchema.extend({
+    dryRun: z.boolean(),
+    changes: ChangesSchema,
+    before: BucketConfigSchema,
+    after: BucketConfigSchema
+});
+
+export const GetBucketIamPolicyResultSchema = IamPolicySchema;
+
+export const TestBucketPermissionsResultSchema = z.object({
+    bucket: z.string(),
+    granted: z.array(z.string()),
+    missing: z.array(z.string())
+});
+
+export const UpdateBucketIamBindingResultSchema = MessageResultSchema.extend({
+    dryRun: z.boolean(),
+    changes: z.record(z.object({ added: z.array(z.string()), removed: z.array(z.string()) })),
+    policy: IamPolicySchema
+});
+
+export const ListTrashResultSchema = z.object({
+    trashBucket: z.string(),
+    trashPrefix: z.string(),
+    entries: z.array(TrashEntrySchema),
+    truncated: z.boolean()
+});
+
+export const RestoreFromTrashResultSchema = MessageResultSchema.extend({
+    entry: TrashEntrySchema,
+    destination: z.string(),
+    generation: Int64Schema.optional(),
+    removedFromTrash: z.boolean(),
+    trashed: TrashedSchema
+});
+
+export const GetFileAclResultSchema = z.object({
+    file: z.string(),
+    uniformBucketLevelAccess: z.boolean(),
+    message: z.string().optional(),
+    acl: z.array(z.object({
+        entity: z.string(),
+        role: z.string(),
+        projectTeam: z.unknown()
+    }))
+});
+
+export const FindPublicExposureResultSchema = z.object({
+    project: z.string(),
+    bucketsChecked: z.number(),
+    publicBuckets: z.array(z.string()),
+    buckets: z.array(z.object({
+        bucket: z.string(),
+        publicAccessPrevention: z.string(),
+        uniformBucketLevelAccess: z.boolean(),
+        findings: z.array(z.object({
+            severity: z.enum(["high", "medium", "low"]),
+            issue: z.string(),
+            detail: z.string()
+        }))
+    })),
+    errors: z.array(z.object({ bucket: z.string(), message: z.string() }))
+});
+
+export const ListFilesResultSchema = z.object({
+    files: z.array(FileEntrySchema).optional(),
+    prefixes: z.array(z.string()).optional(),
+    tree: z.object({
+        folders: z.record(z.unknown()),
+        files: z.array(FileEntrySchema)
+    }).optional().describe("Nested folders, each with its own folders and files, when view is tree"),
+    count: z.number(),
+    nextPageToken: z.string().nullable().describe("Pass as pageToken to fetch the next page; null on the last page")
+});
+
+export const SearchFilesResultSchema = z.object({
+    pattern: z.string(),
+    matches: z.array(z.object({
+        object: z.string(),
+        line: z.number(),
+        text: z.string(),
+        before: z.array(z.string()),
+        after: z.array(z.string())
+    })),
+    matchCount: z.number(),
+    objectsListed: z.number(),
+    objectsScanned: z.number(),
+    bytesScanned: z.number(),
+    binarySkipped: z.array(z.string()),
+    complete: z.boolean().describe("False when a limit was reached or the call was cancelled, so matches may have been missed"),
+    cancelled: z.boolean().describe("True when the call was cancelled; the results cover the objects searched until then"),
+    limitsReached: z.object({
+        objects: z.boolean(),
+        bytes: z.boolean(),
+        matches: z.boolean()
+    }),
+    errors: z.array(z.object({ object: z.string(), message: z.string() }))
+});
+
+export const GetFileResultSchema = z.object({
+    name: z.string(),
+    bucket: z.string(),
+    generation: Int64Schema.optional(),
+    metageneration: Int64Schema.optional(),
+    size: Int64Schema.optional(),
+    contentType: z.string().optional(),
+    contentEncoding: z.string().optional(),
+    contentDisposition: z.string().optional(),
+    contentLanguage: z.string().optional(),
+    cacheControl: z.string().optional(),
+    storageClass: z.string().optional(),
+    timeCreated: z.string().optional(),
+    updated: z.string().optional(),
+    timeDeleted: z.string().optional(),
+    crc32c: z.string().optional(),
+    md5Hash: z.string().optional(),
+    etag: z.string().optional(),
+    kmsKeyName: z.string().optional(),
+    temporaryHold: z.boolean().optional(),
+    eventBasedHold: z.boolean().optional(),
+    // Custom metadata set on the object
+    metadata: z.record(z.string().nullable())
+}).strict();
+
+export const UploadFileResultSchema = MessageResultSchema.extend({
+    metadata: ObjectMetadataSchema,
+    trashed: TrashedSchema
+});
+
+export const DownloadFileResultSchema = z.object({
+    name: z.string(),
+    generation: Int64Schema.optional(),
+    contentType: z.string().optional(),
+    contentEncoding: z.string().optional(),
+    size: Int64Schema.optional(),
+    decompressed: z.boolean(),
+    range: z.object({ start: z.number(), end: z.number() }).optional(),
+    bytesReturned: z.number(),
+    truncated: z.boolean(),
+    notice: z.string().optional(),
+    content: z.string(),
+    encoding: z.string().describe("utf-8 or base64")
+});
+
+export const PreviewFileResultSchema = z.object({
+    name: z.string(),
+    generation: Int64Schema.optional(),
+    contentType: z.string().optional(),
+    size: Int64Schema.optional(),
+    format: z.enum(["csv", "tsv", "ndjson", "json", "image", "text"]),
+    // Images; the preview itself follows as an image content block
+    width: z.number().optional(),
+    height: z.number().optional(),
+    resized: z.boolean().optional(),
+    returned: z.object({ width: z.number(), height: z.number(), mimeType: z.string() }).optional(),
+    // JSON documents
+    topLevelType: z.string().optional(),
+    maxDepth: z.number().optional(),
+    summary: z.unknown(),
+    // Text
+    lines: z.array(z.string()).optional(),
+    truncated: z.boolean().optional(),
+    // Tables
+    delimiter: z.string().optional(),
+    columns: z.array(z.object({ name: z.string(), type: z.string(), nullable: z.boolean() })).optional(),
+    rows: z.array(z.array(z.unknown())).optional(),
+    rowsReturned: z.number().optional(),
+    rowCount: z.number().nullable().optional(),
+    rowCountExact: z.boolean().optional(),
+    parseErrors: z.array(z.object({ record: z.number(), message: z.string() })).optional()
+});
+
+export const UploadFromPathResultSchema = MessageResultSchema.extend({
+    bytes: z.number(),
+    metadata: ObjectMetadataSchema,
+    trashed: TrashedSchema
+});
+
+export const StartUploadResultSchema = UploadSessionSchema.extend({
+    maxChunkBytes: z.number(),
+    message: z.string()
+});
+
+export const AppendUploadChunkResultSchema = UploadSessionSchema.extend({
+    sequence: z.number(),
+    chunkBytes: z.number(),
+    duplicate: z.boolean().describe("The chunk repeated the last one received and was not written again")
+});
+
+export const FinishUploadResultSchema = MessageResultSchema.extend({
+    chunks: z.number(),
+    bytes: z.number(),
+    checksums: z.object({ crc32c: z.string(), md5Hash: z.string() }),
+    metadata: ObjectMetadataSchema,
+    trashed: TrashedSchema
+});
+
+export const AbortUploadResultSchema = MessageResultSchema.extend({
+    bytesDiscarded: z.number()
+});
+
+export const ComposeFilesResultSchema = MessageResultSchema.extend({
+    sources: z.array(z.object({
+        name: z.string(),
+        generation: Int64Schema.optional(),
+        size: z.number()
+    })),
+    deletedSources: z.array(z.string()).optional(),
+    metadata: ObjectMetadataSchema,
+    trashed: TrashedSchema
+});
+
+export const CreateArchiveResultSchema = MessageResultSchema.extend({
+    format: z.enum(["zip", "tar.gz"]),
+    entries: z.number(),
+    uncompressedBytes: z.number(),
+    metadata: ObjectMetadataSchema,
+    trashed: TrashedSchema
+});
+
+export const ExtractArchiveResultSchema = MessageResultSchema.extend({
+    format: z.enum(["zip", "tar.gz"]),
+    cancelled: z.boolean().describe("True when the call was cancelled; later entries were not extracted"),
+    bytes: z.number(),
+    extracted: z.array(z.object({ name: z.string(), size: z.number() })),
+    skipped: z.array(z.object({ entry: z.string(), reason: z.string() })),
+    failed: z.array(z.object({ name: z.string(), error: z.string() })),
+    trashed: TrashedSchema
+});
+
+export const DownloadToPathResultSchema = MessageResultSchema.extend({
+    bytes: z.number(),
+    contentType: z.string().optional(),
+    generation: Int64Schema.optional(),
+    crc32c: z.string().optional(),
+    md5Hash: z.string().optional()
+});
+
+export const GenerateSignedUrlResultSchema = z.object({
+    url: z.string(),
+    method: z.string(),
+    headers: z.record(z.string()).describe("Headers the client must send with the request"),
+    expiresAt: z.string()
+});
+
+// Copies, moves and renames
+export const RelocateResultSchema = z.object({
+    success: z.boolean(),
+    succeeded: z.number(),
+    failed: z.number(),
+    totalBytes: z.number(),
+    results: z.array(CopyResultSchema),
+    failures: z.array(z.object({ source: z.string(), message: z.string() })),
+    trashed: TrashedSchema
+});
+
+// Dry-run plans of bulkDelete, bulkSetMetadata and bulkSetStorageClass
+export const BulkPlanResultSchema = z.object({
+    dryRun: z.boolean(),
+    planId: z.string().nullable().describe("Pass to confirmBulkOperation to apply the plan; null when nothing matches"),
+    operation: z.object({
+        type: z.enum(["delete", "setMetadata", "setStorageClass"]),
+        metadata: ObjectMetadataSchema.optional(),
+        storageClass: z.string().optional()
+    }),
+    project: z.string(),
+    bucket: z.string(),
+    prefix: z.string().optional(),
+    matchGlob: z.string().optional(),
+    objectCount: z.number(),
+    totalBytes: z.number(),
+    expiresAt: z.string().nullable(),
+    objects: z.array(z.object({
+        name: z.string(),
+        size: z.number(),
+        generation: z.string(),
+        storageClass: z.string().optional()
+    })),
+    message: z.string()
+});
+
+export const ConfirmBulkOperationResultSchema = z.object({
+    success: z.boolean(),
+    planId: z.string(),
+    operation: z.enum(["delete", "setMetadata", "setStorageClass"]),
+    cancelled: z.boolean().describe("True when the call was cancelled; planned objects not yet started were left unchanged"),
+    notStarted: z.number(),
+    succeeded: z.number(),
+    failed: z.number(),
+    bytesAffected: z.number(),
+    succeededObjects: z.array(z.string()),
+    failures: z.array(z.object({ name: z.string(), generation: z.string(), message: z.string() })),
+    trashed: TrashedSchema
+});
+
+const SyncActionTypeSchema = z.enum(["upload", "download", "deleteRemote", "deleteLocal"]);
+
+// Dry-run plans of syncToBucket and syncFromBucket
+export const SyncPlanResultSchema = z.object({
+    dryRun: z.boolean(),
+    planId: z.string().nullable().describe("Pass to confirmSync to apply the plan; null when already in sync"),
+    direction: z.enum(["toBucket", "fromBucket"]),
+    project: z.string(),
+    bucket: z.string(),
+    prefix: z.string(),
+    localDir: z.string(),
+    compare: z.enum(["checksum", "mtime"]),
+    uploads: z.number(),
+    downloads: z.number(),
+    deletions: z.number(),
+    unchanged: z.number(),
+    totalBytes: z.number(),
+    expiresAt: z.string().nullable(),
+    actions: z.array(z.object({
+        type: SyncActionTypeSchema,
+        path: z.string(),
+        object: z.string(),
+        size: z.number(),
+        reason: z.enum(["missing", "changed", "extraneous"])
+    })),
+    skipped: z.array(z.object({ path: z.string(), reason: z.string() })),
+    message: z.string()
+});
+
+export const ConfirmSyncResultSchema = z.object({
+    success: z.boolean(),
+    planId: z.string(),
+    direction: z.enum(["toBucket", "fromBucket"]),
+    cancelled: z.boolean().describe("True when the call was cancelled; transfers in flight were stopped and later actions not started"),
+    notStarted: z.number(),
+    uploaded: z.number(),
+    downloaded: z.number(),
+    deleted: z.number(),
+    failed: z.number(),
+    bytesTransferred: z.number(),
+    failures: z.array(z.object({
+        type: SyncActionTypeSchema,
+        path: z.string(),
+        object: z.string(),
+        message: z.string()
+    })),
+    trashed: TrashedSchema
+});
+
+export const SetFileMetadataResultSchema = MessageResultSchema.extend({
+    changes: ChangesSchema,
+    generation: Int64Schema.optional(),
+    metageneration: Int64Schema.optional()
+});
+
+export const ListFileVersionsResultSchema = z.object({
+    name: z.string(),
+    versions: z.array(z.object({
+        generation: Int64Schema.optional(),
+        metageneration: Int64Schema.optional(),
+        live: z.boolean(),
+        size: Int64Schema.optional(),
+        contentType: z.string().optional(),
+        created: z.string().optional(),
+        noncurrentSince: z.string().optional(),
+        storageClass: z.string().optional(),
+        md5Hash: z.string().optional()
+    }))
+});
+
+export const RestoreFileVersionResultSchema = MessageResultSchema.extend({
+    restoredFrom: z.string(),
+    previousLiveGeneration: z.string().nullable(),
+    generation: Int64Schema.optional(),
+    trashed: TrashedSchema
+});
+
+export const DeleteFileResultSchema = MessageResultSchema.extend({
+    trashed: TrashedSchema
+});
+
+export const ListProjectsResultSchema = z.object({
+    projects: z.array(z.string()),
+    defaultProject: z.string(),
+    initializedProjects: z.array(z.string()),
+    configFile: z.string().nullable(),
+    projectSettings: z.record(z.object({
+        projectId: z.string(),
+        aliases: z.array(z.string()),
+        defaultBucket: z.string().nullable(),
+        apiEndpoint: z.string().nullable(),
+        backend: z.string().nullable(),
+        credentials: z.string(),
+        clientError: z.string().nullable().describe("Why the project's Storage client could not be created")
+    })),
+    currentEnv: z.string()
+});
+
+const CredentialCheckSchema = z.object({
+    project: z.string(),
+    projectId: z.string(),
+    credentials: z.string(),
+    serviceAccount: z.string().nullable(),
+    keyId: z.string().nullable(),
+    keyCreated: z.string().nullable(),
+    keyExpires: z.string().nullable(),
+    keyAgeDays: z.number().nullable(),
+    authenticated: z.boolean().nullable().describe("Whether an access token could be obtained; null when no authentication is used"),
+    authError: z.string().nullable(),
+    permissions: z.object({
+        scope: z.enum(["bucket", "project"]),
+        resource: z.string(),
+        granted: z.array(z.string()),
+        missing: z.array(z.string())
+    }).nullable(),
+    permissionsError: z.string().nullable(),
+    warnings: z.array(z.string())
+});
+
+export const CheckCredentialsResultSchema = z.object({
+    projects: z.array(CredentialCheckSchema)
+});
+
+export const AddProjectResultSchema = MessageResultSchema.extend({
+    project: z.string(),
+    aliases: z.array(z.string()),
+    check: CredentialCheckSchema
+});
+
+export const RemoveProjectResultSchema = MessageResultSchema.extend({
+    project: z.string(),
+    aliases: z.array(z.string())
+});
+
+export const ReloadCredentialsResultSchema = z.object({
+    projects: z.array(z.object({
+        project: z.string(),
+        reloaded: z.boolean(),
+        message: z.string()
+    }))
+});
@@ -0,0 +1,161 @@
+/**
+ * Line-oriented search over object content.
+ *
+ * Objects are streamed (and decompressed when gzipped) one chunk at a time,
+ * so memory use stays bounded however large the objects are. A shared budget
+ * caps the bytes scanned and matches returned across all searched objects.
+ */
+
+import { File, FileMetadata } from "@google-cloud/storage";
+import { StringDecoder } from "string_decoder";
+import { contentTypeFor, isTextContent, openObjectStream } from "./content.js";
+import { ToolError } from "./errors.js";
+
+// Longest line text returned in results; longer lines are clipped
+const MAX_RESULT_LINE_LENGTH = 1000;
+
+// Lines longer than this are matched in pieces to keep memory bounded
+const MAX_SCAN_LINE_LENGTH = 1024 * 1024;
+
+// Limits shared by every object in one search
+export interface SearchBudget {
+    bytesRemaining: number;
+    matchesRemaining: number;
+}
+
+export interface SearchMatch {
+    line: number;
+    text: string;
+    before: string[];
+    after: string[];
+}
+
+export interface ObjectSearchResult {
+    matches: SearchMatch[];
+    bytesScanned: number;
+    // Why the object was not searched, or not searched to the end
+    skipped?: "binary";
+    stopped?: "bytes" | "matches" | "cancelled";
+}
+
+// Build the regular expression for a literal or regex search pattern
+export function buildSearchPattern(pattern: string, options: { regex: boolean, caseSensitive: boolean }): RegExp {
+    const source = options.regex ? pattern : pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    try {
+        return new RegExp(source, options.caseSensitive ? "" : "i");
+    } catch (error) {
+        throw new ToolError("INVALID_ARGUMENT", `Invalid regular expression: ${(error as Error).message}`);
+    }
+}
+
+function clipLine(line: string): string {
+    return line.length > MAX_RESULT_LINE_LENGTH ? `${line.slice(0, MAX_RESULT_LINE_LENGTH)}…` : line;
+}
+
+// Search a single object line by line, collecting matches with surrounding context
+export async function searchObject(
+    file: File,
+    metadata: FileMetadata,
+    pattern: RegExp,
+    options: { contextLines: number, budget: SearchBudget, signal?: AbortSignal }
+): Promise<ObjectSearchResult> {
+    const { contextLines, budget } = options;
+    const { stream } = openObjectStream(file, metadata, { decompress: true, signal: options.signal });
+    const decoder = new StringDecoder("utf8");
+
+    const matches: SearchMatch[] = [];
+    // Lines before the current one, and matches still collecting lines after them
+    const before: string[] = [];
+    const pending: SearchMatch[] = [];
+    let lineNumber = 0;
+    let partial = "";
+    // Whether part of the current line was already handled as an overlong piece
+    let partialHandled = false;
+    let bytesScanned = 0;
+    let sniffed = false;
+    let stopped: ObjectSearchResult["stopped"];
+
+    // `continued` marks a further piece of an overlong line, which keeps its line number
+    const handleLine = (line: string, continued = false) => {
+        if (!continued) lineNumber++;
+        const text = clipLine(line);
+
+        if (!continued) {
+            for (const match of pending) match.after.push(text);
+            while (pending.length > 0 && pending[0].after.length >= contextLines) pending.shift();
+        }
+
+        if (!stopped && pattern.test(line)) {
+            if (budget.matchesRemaining > 0) {
+                budget.matchesRemaining--;
+                const match: SearchMatch = { line: lineNumber, text, before: [...before], after: [] };
+                matches.push(match);
+                if (contextLines > 0) pending.push(match);
+            } else {
+                stopped = "matches";
+            }
+        }
+
+        if (!continued) {
+            before.push(text);
+            if (before.length > contextLines) before.shift();
+        }
+    };
+
+    try {
+        for await (const data of stream) {
+            const chunk = data as Buffer;
+
+            if (!sniffed) {
+                sniffed = true;
+                if (!isTextContent(contentTypeFor(file.name, metadata), chunk)) {
+                    return { matches, bytesScanned: 0, skipped: "binary" };
+                }
+            }
+
+            if (budget.bytesRemaining <= 0) {
+                stopped = stopped ?? "bytes";
+                break;
+            }
+            const usable = chunk.subarray(0, budget.bytesRemaining);
+            budget.bytesRemaining -= usable.length;
+            bytesScanned += usable.length;
+
+            const lines = (partial + decoder.write(usable)).split("\n");
+            partial = lines.pop()!;
+            for (const line of lines) {
+                handleLine(line.endsWith("\r") ? line.slice(0, -1) : line, partialHandled);
+                partialHandled = false;
+            }
+            while (partial.length > MAX_SCAN_LINE_LENGTH) {
+                handleLine(partial.slice(0, MAX_SCAN_LINE_LENGTH), partialHandled);
+                partialHandled = true;
+                partial = partial.slice(MAX_SCAN_LINE_LENGTH);
+            }
+
+            // Once out of matches, keep reading only while earlier matches still need trailing context
+            if ((stopped || budget.matchesRemaining === 0) && pending.length === 0) {
+                stopped = stopped ?? "matches";
+                break;
+            }
+            if (usable.length < chunk.length) {
+                stopped = stopped ?? "bytes";
+                break;
+            }
+        }
+
+        // The last line has no trailing newline
+        if (!stopped || pending.length > 0) {
+            const rest = partial + decoder.end();
+            if (rest.length > 0) handleLine(rest.endsWith("\r") ? rest.slice(0, -1) : rest, partialHandled);
+        }
+    } catch (error) {
+        // A cancelled search keeps the matches found so far
+        if (!options.signal?.aborted) throw error;
+        stopped = "cancelled";
+    } finally {
+        stream.destroy();
+    }
+
+    return { matches, bytesScanned, stopped };
+}
@@ -0,0 +1,450 @@
+/**
+ * Synchronization between a local directory and a bucket prefix.
+ *
+ * Planning compares both sides by size and either checksum (CRC32C, or MD5
+ * when an object has no CRC32C) or modification time, and stores the list of
+ * uploads, downloads and deletions as a plan. Confirming the plan applies
+ * exactly those actions: remote writes and deletions use generation
+ * preconditions, and local files are not deleted or overwritten if they have
+ * changed since the plan was made.
+ */
+
+import { Bucket, CRC32C, File } from "@google-cloud/storage";
+import { randomUUID, createHash } from "crypto";
+import path from "path";
+import fs from "fs";
+import { pipeline } from "stream/promises";
+import { mapWithConcurrency } from "./concurrency.js";
+import { ToolError } from "./errors.js";
+import { iterateFiles } from "./listing.js";
+import { matchesGlob } from "./glob.js";
+import { resolveLocalPath } from "./localPaths.js";
+import { ReportProgress } from "./progress.js";
+import { TrashHook } from "./trash.js";
+
+// How long a sync plan can be confirmed
+const PLAN_TTL_MS = 15 * 60 * 1000;
+
+// Custom metadata key holding a file's modification time, in seconds, as used by gsutil rsync
+const MTIME_METADATA_KEY = "goog-reserved-file-mtime";
+
+// Files smaller than this are uploaded in a single request
+const RESUMABLE_THRESHOLD = 8 * 1024 * 1024;
+
+export type SyncDirection = "toBucket" | "fromBucket";
+export type SyncCompare = "checksum" | "mtime";
+
+export interface SyncAction {
+    type: "upload" | "download" | "deleteRemote" | "deleteLocal";
+    // Path relative to the local directory, with "/" separators
+    path: string;
+    object: string;
+    size: number;
+    reason: "missing" | "changed" | "extraneous";
+    // Remote generation the action expects; 0 for uploads of new objects
+    generation: string;
+    // Local file state when planned, used to detect changes before deleting or
+    // overwriting; not set when there was no local file
+    localSize?: number;
+    localMtimeMs?: number;
+}
+
+export interface SyncPlan {
+    id: string;
+    direction: SyncDirection;
+    project: string;
+    bucket: string;
+    prefix: string;
+    localDir: string;
+    compare: SyncCompare;
+    actions: SyncAction[];
+    unchanged: number;
+    skipped: { path: string, reason: string }[];
+    totalBytes: number;
+    expiresAt: number;
+}
+
+interface LocalEntry {
+    path: string;
+    absolute: string;
+    size: number;
+    mtimeMs: number;
+}
+
+interface RemoteEntry {
+    path: string;
+    file: File;
+    size: number;
+    generation: string;
+    mtimeMs: number;
+    hasMtime: boolean;
+}
+
+// Plans awaiting confirmation, keyed by plan ID
+const plans = new Map<string, SyncPlan>();
+
+// Forget plans that can no longer be confirmed
+function pruneExpiredPlans() {
+    const now = Date.now();
+    for (const [id, plan] of plans) {
+        if (plan.expiresAt <= now) plans.delete(id);
+    }
+}
+
+// Object name prefix for a sync, ending in "/" unless it is empty
+export function normalizeSyncPrefix(prefix: string | undefined): string {
+    if (!prefix) return "";
+    return prefix.endsWith("/") ? prefix : `${prefix}/`;
+}
+
+function isExcluded(relativePath: string, exclude: string[]): boolean {
+    return exclude.some(pattern => matchesGlob(relativePath, pattern));
+}
+
+// Regular files under a directory. Symlinks are not followed, so the walk
+// cannot leave the directory.
+async function walkLocal(root: string, exclude: string[], limit: number): Promise<Map<string, LocalEntry>> {
+    const entries = new Map<string, LocalEntry>();
+    const pending = [""];
+    while (pending.length > 0) {
+        const relativeDir = pending.pop()!;
+        const children = await fs.promises.readdir(path.join(root, relativeDir), { withFileTypes: true });
+        for (const child of children) {
+            const relative = relativeDir ? `${relativeDir}/${child.name}` : child.name;
+            if (isExcluded(relative, exclude)) continue;
+            if (child.isDirectory()) {
+                pending.push(relative);
+            } else if (child.isFile()) {
+                if (entries.size >= limit) {
+                    throw new ToolError("LIMIT_EXCEEDED", `More than ${limit} local files to compare. Narrow the directory or exclude globs, or raise maxObjects.`);
+                }
+                const absolute = path.join(root, relative);
+                const stats = await fs.promises.stat(absolute);
+                entries.set(relative, { path: relative, absolute, size: stats.size, mtimeMs: stats.mtimeMs });
+            }
+        }
+    }
+    return entries;
+}
+
+// Objects under a prefix, keyed by their path relative to the prefix
+async function listRemote(bucket: Bucket, prefix: string, exclude: string[], limit: number): Promise<Map<string, RemoteEntry>> {
+    const entries = new Map<string, RemoteEntry>();
+    for await (const file of iterateFiles(bucket, { prefix: prefix || undefined })) {
+        const relative = file.name.slice(prefix.length);
+        // Folder placeholder objects have no local counterpart
+        if (!relative || relative.endsWith("/")) continue;
+        if (isExcluded(relative, exclude)) continue;
+        if (entries.size >= limit) {
+            throw new ToolError("LIMIT_EXCEEDED", `More than ${limit} objects to compare. Narrow the prefix or exclude globs, or raise maxObjects.`);
+        }
+        const storedMtime = Number(file.metadata.metadata?.[MTIME_METADATA_KEY]);
+        entries.set(relative, {
+            path: relative,
+            file,
+            size: Number(file.metadata.size ?? 0),
+            generation: String(file.metadata.generation),
+            mtimeMs: Number.isFinite(storedMtime) ? storedMtime * 1000 : Date.parse(file.metadata.updated ?? ""),
+            hasMtime: Number.isFinite(storedMtime)
+        });
+    }
+    return entries;
+}
+
+// Whether a local file's content matches the object's stored checksum
+async function sameChecksum(local: LocalEntry, remote: RemoteEntry): Promise<boolean> {
+    const { crc32c, md5Hash } = remote.file.metadata;
+    if (crc32c) {
+        return (await CRC32C.fromFile(local.absolute)).toString() === crc32c;
+    }
+    if (md5Hash) {
+        const hash = createHash("md5");
+        for await (const chunk of fs.createReadStream(local.absolute)) hash.update(chunk as Buffer);
+        return hash.digest("base64") === md5Hash;
+    }
+    return false;
+}
+
+// Whether a local file and an object hold the same content
+async function isUnchanged(local: LocalEntry, remote: RemoteEntry, compare: SyncCompare, direction: SyncDirection): Promise<boolean> {
+    if (local.size !== remote.size) return false;
+    if (compare === "checksum") return sameChecksum(local, remote);
+
+    // Times recorded by a previous sync must match to the second; otherwise
+    // only a newer source counts as a change
+    const localSeconds = Math.floor(local.mtimeMs / 1000);
+    const remoteSeconds = Math.floor(remote.mtimeMs / 1000);
+    if (remote.hasMtime) return localSeconds === remoteSeconds;
+    return direction === "toBucket" ? localSeconds <= remoteSeconds : remoteSeconds <= localSeconds;
+}
+
+// Compare a local directory with a bucket prefix and store the resulting plan
+export async function createSyncPlan(
+    bucket: Bucket,
+    options: {
+        project: string,
+        direction: SyncDirection,
+        localDir: string,
+        prefix: string,
+        compare: SyncCompare,
+        exclude: string[],
+        deleteExtraneous: boolean,
+        maxObjects: number,
+        concurrency: number
+    }
+): Promise<SyncPlan> {
+    pruneExpiredPlans();
+    const { direction, localDir, prefix, compare, exclude } = options;
+
+    const localExists = fs.existsSync(localDir);
+    if (localExists && !(await fs.promises.stat(localDir)).isDirectory()) {
+        throw new ToolError("INVALID_ARGUMENT", `${localDir} is not a directory`);
+    }
+    if (!localExists && direction === "toBucket") {
+        throw new ToolError("NOT_FOUND", `Local directory ${localDir} does not exist`);
+    }
+
+    const local = localExists ? await walkLocal(localDir, exclude, options.maxObjects) : new Map<string, LocalEntry>();
+    const remote = await listRemote(bucket, prefix, exclude, options.maxObjects);
+
+    const actions: SyncAction[] = [];
+    const skipped: SyncPlan["skipped"] = [];
+    const compared: { local: LocalEntry, remote: RemoteEntry }[] = [];
+
+    if (direction === "toBucket") {
+        for (const entry of local.values()) {
+            const existing = remote.get(entry.path);
+            if (existing) {
+                compared.push({ local: entry, remote: existing });
+            } else {
+                actions.push({
+                    type: "upload", path: entry.path, object: prefix + entry.path, size: entry.size,
+                    reason: "missing", generation: "0", localSize: entry.size, localMtimeMs: entry.mtimeMs
+                });
+            }
+        }
+        if (options.deleteExtraneous) {
+            for (const entry of remote.values()) {
+                if (local.has(entry.path)) continue;
+                actions.push({
+                    type: "deleteRemote", path: entry.path, object: entry.file.name, size: entry.size,
+                    reason: "extraneous", generation: entry.generation
+                });
+            }
+        }
+    } else {
+        for (const entry of remote.values()) {
+            // Object names such as "../x" must not escape the local directory
+            const target = path.resolve(localDir, entry.path);
+            const relative = path.relative(localDir, target);
+            if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+                skipped.push({ path: entry.file.name, reason: "The object name would be written outside the local directory" });
+                continue;
+            }
+            const existing = local.get(entry.path);
+            if (existing) {
+                compared.push({ local: existing, remote: entry });
+            } else {
+                actions.push({
+                    type: "download", path: entry.path, object: entry.file.name, size: entry.size,
+                    reason: "missing", generation: entry.generation
+                });
+            }
+        }
+        if (options.deleteExtraneous) {
+            for (const entry of local.values()) {
+                if (remote.has(entry.path)) continue;
+                actions.push({
+                    type: "deleteLocal", path: entry.path, object: prefix + entry.path, size: entry.size,
+                    reason: "extraneous", generation: "0", localSize: entry.size, localMtimeMs: entry.mtimeMs
+                });
+            }
+        }
+    }
+
+    // Checksums are only computed for files that exist on both sides
+    const comparisons = await mapWithConcurrency(compared, options.concurrency, async pair =>
+        isUnchanged(pair.local, pair.remote, compare, direction)
+    );
+    let unchanged = 0;
+    for (const result of comparisons) {
+        if (!result.ok) {
+            skipped.push({ path: result.item.local.path, reason: result.error.message });
+            continue;
+        }
+        if (result.value) {
+            unchanged++;
+            continue;
+        }
+        const { local: localEntry, remote: remoteEntry } = result.item;
+        actions.push({
+            type: direction === "toBucket" ? "upload" : "download",
+            path: localEntry.path,
+            object: remoteEntry.file.name,
+            size: direction === "toBucket" ? localEntry.size : remoteEntry.size,
+            reason: "changed",
+            generation: remoteEntry.generation,
+            localSize: localEntry.size,
+            localMtimeMs: localEntry.mtimeMs
+        });
+    }
+
+    actions.sort((a, b) => a.path.localeCompare(b.path));
+    const plan: SyncPlan = {
+        id: randomUUID(),
+        direction,
+        project: options.project,
+        bucket: bucket.name,
+        prefix,
+        localDir,
+        compare,
+        actions,
+        unchanged,
+        skipped,
+        totalBytes: actions
+            .filter(action => action.type === "upload" || action.type === "download")
+            .reduce((total, action) => total + action.size, 0),
+        expiresAt: Date.now() + PLAN_TTL_MS
+    };
+    if (actions.length > 0) {
+        plans.set(plan.id, plan);
+    }
+    return plan;
+}
+
+// Look up a pending plan without consuming it
+export function findSyncPlan(planId: string): SyncPlan | undefined {
+    pruneExpiredPlans();
+    return plans.get(planId);
+}
+
+// Remove and return a plan so it can be executed at most once
+export function takeSyncPlan(planId: string): SyncPlan {
+    pruneExpiredPlans();
+
+    const plan = plans.get(planId);
+    if (!plan) {
+        throw new ToolError("NOT_FOUND", `Sync plan ${planId} does not exist or has expired. Run the sync tool again to create a new plan.`);
+    }
+    plans.delete(planId);
+    return plan;
+}
+
+// Throw a CONFLICT error unless a local file is still as the plan found it:
+// unchanged since it was compared, or still missing
+async function checkLocalUnchanged(localPath: string, action: SyncAction, consequence: string) {
+    const stats = await fs.promises.stat(localPath).catch(error => {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+        throw error;
+    });
+    const changed = action.localSize === undefined ?
+        stats !== undefined :
+        !stats || stats.size !== action.localSize || stats.mtimeMs !== action.localMtimeMs;
+    if (changed) {
+        throw new ToolError("CONFLICT", `${localPath} changed after the plan was made and ${consequence}`);
+    }
+}
+
+async function applyAction(
+    bucket: Bucket,
+    plan: SyncPlan,
+    action: SyncAction,
+    options: { roots: string[], validation: "crc32c" | "md5", trash?: TrashHook, signal?: AbortSignal }
+) {
+    const { validation, signal } = options;
+    // Re-resolved so a directory replaced by a symlink since planning cannot redirect the write
+    const localPath = resolveLocalPath(path.join(plan.localDir, ...action.path.split("/")), options.roots);
+    const relative = path.relative(plan.localDir, localPath);
+    if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+        throw new ToolError("INVALID_ARGUMENT", `${localPath} is outside the synced directory ${plan.localDir}`);
+    }
+
+    if (action.type === "upload") {
+        const stats = await fs.promises.stat(localPath);
+        if (action.generation !== "0") await options.trash?.(bucket, action.object, action.generation);
+        // Destroying the streams on cancellation abandons the upload without storing anything
+        await pipeline(fs.createReadStream(localPath), bucket.file(action.object).createWriteStream({
+            resumable: stats.size >= RESUMABLE_THRESHOLD,
+            validation,
+            metadata: { metadata: { [MTIME_METADATA_KEY]: String(Math.floor(stats.mtimeMs / 1000)) } },
+            // Fails if the object was created or replaced since the plan was made
+            preconditionOpts: { ifGenerationMatch: action.generation }
+        }), { signal });
+    } else if (action.type === "download") {
+        const file = bucket.file(action.object, { generation: action.generation });
+        await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+        // Download to a temporary file so a failed or corrupt transfer never replaces the target
+        const tempPath = `${localPath}.${process.pid}.${Date.now()}.partial`;
+        try {
+            await pipeline(file.createReadStream({ validation }), fs.createWriteStream(tempPath), { signal });
+            // Local edits made since planning are kept rather than overwritten
+            await checkLocalUnchanged(localPath, action, "was not overwritten");
+            await fs.promises.rename(tempPath, localPath);
+        } catch (error) {
+            await fs.promises.rm(tempPath, { force: true });
+            throw error;
+        }
+        // Record the object's time locally so the next mtime comparison sees no change
+        const [metadata] = await file.getMetadata();
+        const storedMtime = Number(metadata.metadata?.[MTIME_METADATA_KEY]);
+        const mtime = Number.isFinite(storedMtime) ? new Date(storedMtime * 1000) : new Date(metadata.updated ?? Date.now());
+        await fs.promises.utimes(localPath, mtime, mtime);
+    } else if (action.type === "deleteRemote") {
+        await options.trash?.(bucket, action.object, action.generation);
+        await bucket.file(action.object).delete({ ifGenerationMatch: action.generation });
+    } else {
+        await checkLocalUnchanged(localPath, action, "was not deleted");
+        await fs.promises.rm(localPath);
+    }
+}
+
+// Apply every action of a plan with bounded concurrency. Cancelling stops
+// transfers in flight and starts no further actions; the summary covers the
+// actions finished until then.
+export async function executeSyncPlan(
+    bucket: Bucket,
+    plan: SyncPlan,
+    options: {
+        roots: string[],
+        concurrency: number,
+        validation: "crc32c" | "md5",
+        trash?: TrashHook,
+        signal?: AbortSignal,
+        progress?: ReportProgress
+    }
+) {
+    const results = await mapWithConcurrency(plan.actions, options.concurrency, async action => {
+        await applyAction(bucket, plan, action, options);
+        return action;
+    }, {
+        signal: options.signal,
+        onSettled: settled => options.progress?.(settled, plan.actions.length, `Applied ${settled} of ${plan.actions.length} actions`)
+    });
+
+    const succeeded = results.filter(result => result.ok).map(result => result.item);
+    const failed = results.filter(result => !result.ok).map(result => ({
+        type: result.item.type,
+        path: result.item.path,
+        object: result.item.object,
+        message: result.error.message
+    }));
+    const count = (type: SyncAction["type"]) => succeeded.filter(action => action.type === type).length;
+
+    const notStarted = plan.actions.length - results.length;
+
+    return {
+        success: failed.length === 0 && notStarted === 0,
+        planId: plan.id,
+        direction: plan.direction,
+        cancelled: Boolean(options.signal?.aborted),
+        notStarted,
+        uploaded: count("upload"),
+        downloaded: count("download"),
+        deleted: count("deleteRemote") + count("deleteLocal"),
+        failed: failed.length,
+        bytesTransferred: succeeded
+            .filter(action => action.type === "upload" || action.type === "download")
+            .reduce((total, action) => total + action.size, 0),
+        failures: failed
+    };
+}
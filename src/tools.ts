@@ -0,0 +1,105 @@
+/**
+ * Tool registry.
+ *
+ * Each tool is declared once, with zod schemas for its arguments and its
+ * result next to its handler. The JSON schemas advertised by tools/list are
+ * derived from the zod schemas, results are returned both as JSON text and
+ * as structured content, and failures come back as error results carrying
+ * a stable error code.
+ */
+
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { describeError, toToolError, ToolError } from "./errors.js";
+import { ReportProgress } from "./progress.js";
+
+export interface ToolContext {
+    // Content blocks returned after the JSON text of the result, such as an image preview
+    content: CallToolResult["content"];
+    // Projects the calling client may use, and the one its calls default to
+    projects: string[];
+    defaultProject: string;
+    // Whether the access policy and the client's own policy let the client see a bucket
+    isBucketAllowed(project: string, bucket: string): boolean;
+    // Whether both policies let the client exercise a Cloud Storage permission in a project
+    isPermissionAllowed(project: string, permission: string): boolean;
+    // Aborted when the client cancels the call
+    signal: AbortSignal;
+    // Sends progress notifications when the client asked for them
+    progress: ReportProgress;
+}
+
+export interface ToolDefinition<Input extends z.ZodTypeAny = z.ZodTypeAny, Output extends z.ZodTypeAny = z.ZodTypeAny> {
+    name: string;
+    description: string;
+    inputSchema: Input;
+    outputSchema: Output;
+    // Whether the tool can create, change or delete objects, buckets or projects
+    mutating?: boolean;
+    // Summary reported in front of the error message when the handler fails
+    failure: string | ((error: ToolError) => string);
+    handler(args: z.output<Input>, context: ToolContext): Promise<z.input<Output>>;
+}
+
+// Declare a tool; the handler is type-checked against its input and output schemas
+export function defineTool<Input extends z.ZodTypeAny, Output extends z.ZodTypeAny>(tool: ToolDefinition<Input, Output>): ToolDefinition {
+    return tool;
+}
+
+// JSON schema of a zod object schema, without the $schema keyword. Reused
+// schemas are inlined, and properties not in the schema are left open.
+function objectJsonSchema(schema: z.ZodTypeAny): Tool["inputSchema"] {
+    const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+        $refStrategy: "none",
+        removeAdditionalStrategy: "strict"
+    }) as Record<string, unknown>;
+    return { ...jsonSchema, type: "object" };
+}
+
+// Entry for tools/list, with JSON schemas derived from the zod schemas
+export function listedTool(tool: ToolDefinition): Tool {
+    return {
+        name: tool.name,
+        description: tool.description,
+        inputSchema: objectJsonSchema(tool.inputSchema),
+        outputSchema: objectJsonSchema(tool.outputSchema) as Tool["outputSchema"]
+    };
+}
+
+// Error result for a failed call, summarized and with the error's code
+export function errorResult(summary: string, error: unknown): CallToolResult {
+    return {
+        isError: true,
+        content: [{
+            type: "text",
+            text: JSON.stringify({ error: summary, ...describeError(toToolError(error)) }, null, 2)
+        }]
+    };
+}
+
+// Validate the arguments, run the handler and return its result as JSON
+// text and structured content, once it is checked against the output schema
+export async function runTool(tool: ToolDefinition, args: unknown, options: Omit<ToolContext, "content">): Promise<CallToolResult> {
+    const parsed = tool.inputSchema.safeParse(args);
+    if (!parsed.success) {
+        return errorResult("Invalid arguments", parsed.error);
+    }
+
+    const context: ToolContext = { content: [], ...options };
+    try {
+        const output = tool.outputSchema.safeParse(await tool.handler(parsed.data, context));
+        if (!output.success) {
+            const problems = output.error.errors.map(e => `${e.path.join(".")}: ${e.message}`).join(", ");
+            throw new ToolError("INTERNAL", `The result of ${tool.name} does not match its output schema: ${problems}`);
+        }
+        const result = output.data;
+        return {
+            content: [{ type: "text", text: JSON.stringify(result, null, 2) }, ...context.content],
+            structuredContent: result
+        };
+    } catch (error) {
+        const toolError = toToolError(error);
+        return errorResult(typeof tool.failure === "function" ? tool.failure(toolError) : tool.failure, toolError);
+    }
+}
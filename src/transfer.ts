@@ -0,0 +1,121 @@
+/**
+ * Server-side object copies with a streaming fallback for cross-project transfers.
+ */
+
+import { ApiError, CopyOptions, File, FileMetadata } from "@google-cloud/storage";
+import { pipeline } from "stream/promises";
+import { ToolError } from "./errors.js";
+import { TrashHook } from "./trash.js";
+
+export interface CopyObjectOptions {
+    // Keep content type, caching headers and custom metadata of the source
+    preserveMetadata: boolean;
+    // Replace an existing destination object
+    overwrite: boolean;
+    // Stream the bytes through this server when a server-side rewrite is not permitted
+    allowStreamingFallback: boolean;
+    // Copies an existing destination to the trash before it is overwritten
+    trash?: TrashHook;
+}
+
+export interface CopyObjectResult {
+    source: string;
+    destination: string;
+    method: "rewrite" | "stream";
+    size: number;
+    generation?: string | number;
+}
+
+// Metadata fields carried over when copying or streaming an object
+function preservedMetadata(metadata: FileMetadata): FileMetadata {
+    const preserved: FileMetadata = {};
+    if (metadata.contentType) preserved.contentType = metadata.contentType;
+    if (metadata.cacheControl) preserved.cacheControl = metadata.cacheControl;
+    if (metadata.contentDisposition) preserved.contentDisposition = metadata.contentDisposition;
+    if (metadata.contentEncoding) preserved.contentEncoding = metadata.contentEncoding;
+    if (metadata.contentLanguage) preserved.contentLanguage = metadata.contentLanguage;
+    if (metadata.metadata) preserved.metadata = metadata.metadata;
+    return preserved;
+}
+
+// Whether a rewrite failed because the credentials cannot reach one of the buckets
+function isAccessError(error: unknown): boolean {
+    const code = (error as ApiError).code;
+    return code === 401 || code === 403 || code === 404;
+}
+
+// Copy a specific source generation to the destination. The source and
+// destination File objects may belong to clients for different projects.
+export async function copyObject(
+    source: File,
+    sourceMetadata: FileMetadata,
+    destination: File,
+    options: CopyObjectOptions
+): Promise<CopyObjectResult> {
+    const size = Number(sourceMetadata.size ?? 0);
+    const sourceName = `${source.bucket.name}/${source.name}`;
+    const destinationName = `${destination.bucket.name}/${destination.name}`;
+
+    const copyOptions: CopyOptions = {};
+    if (!options.preserveMetadata && sourceMetadata.contentType) {
+        // Supplying a destination resource stops the rewrite from copying source metadata
+        copyOptions.contentType = sourceMetadata.contentType;
+    }
+    if (!options.overwrite) {
+        copyOptions.preconditionOpts = { ifGenerationMatch: 0 };
+    } else {
+        await options.trash?.(destination.bucket, destination.name);
+    }
+
+    // A rewrite cannot reach a bucket served from another endpoint, such as another project's backend
+    const sameEndpoint = source.bucket.storage.apiEndpoint === destination.bucket.storage.apiEndpoint;
+    let copied: File | undefined;
+    if (sameEndpoint || !options.allowStreamingFallback) {
+        try {
+            [copied] = await source.copy(destination, copyOptions);
+        } catch (error) {
+            if (!options.allowStreamingFallback || !isAccessError(error)) {
+                throw error;
+            }
+        }
+    }
+    if (copied) {
+        // The copy does not carry the new object's metadata
+        const [copiedMetadata] = await copied.getMetadata();
+        return {
+            source: sourceName,
+            destination: destinationName,
+            method: "rewrite",
+            size,
+            generation: copiedMetadata.generation
+        };
+    }
+
+    // Fall back to streaming the stored bytes from the source to the destination client
+    const metadata = options.preserveMetadata ?
+        preservedMetadata(sourceMetadata) :
+        { contentType: sourceMetadata.contentType };
+
+    await pipeline(
+        source.createReadStream({ decompress: false, validation: false }),
+        destination.createWriteStream({
+            metadata,
+            resumable: true,
+            validation: "crc32c",
+            preconditionOpts: options.overwrite ? undefined : { ifGenerationMatch: 0 }
+        })
+    );
+
+    const [written] = await destination.getMetadata();
+    if (sourceMetadata.crc32c && written.crc32c && sourceMetadata.crc32c !== written.crc32c) {
+        throw new ToolError("CHECKSUM_MISMATCH", `Checksum mismatch after copying ${sourceName} to ${destinationName}`);
+    }
+
+    return {
+        source: sourceName,
+        destination: destinationName,
+        method: "stream",
+        size,
+        generation: written.generation
+    };
+}
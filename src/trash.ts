@@ -0,0 +1,226 @@
+/**
+ * Soft-delete trash for objects that are deleted or overwritten.
+ *
+ * Before a tool removes or replaces an object, the generation about to be
+ * lost is copied to a trash prefix, in the same bucket or a dedicated trash
+ * bucket. The copy keeps the object's content headers and custom metadata,
+ * and records where it came from so it can be restored later.
+ */
+
+import { Bucket, File, FileMetadata, Storage } from "@google-cloud/storage";
+import { z } from "zod";
+import { ToolError } from "./errors.js";
+import { iterateFiles } from "./listing.js";
+
+export const TrashConfigSchema = z.object({
+    // Bucket that receives trashed objects; defaults to the object's own bucket
+    bucket: z.string().min(1).optional(),
+    prefix: z.string().min(1).optional().default(".trash/")
+}).strict();
+
+export type TrashConfig = z.infer<typeof TrashConfigSchema>;
+
+// Custom metadata keys recording where a trashed object came from
+const ORIGINAL_BUCKET_KEY = "trash-original-bucket";
+const ORIGINAL_NAME_KEY = "trash-original-name";
+const ORIGINAL_GENERATION_KEY = "trash-original-generation";
+const TRASHED_AT_KEY = "trash-trashed-at";
+const TRASHED_BY_KEY = "trash-tool";
+const TRASH_METADATA_KEYS = [ORIGINAL_BUCKET_KEY, ORIGINAL_NAME_KEY, ORIGINAL_GENERATION_KEY, TRASHED_AT_KEY, TRASHED_BY_KEY];
+
+export interface TrashedObject {
+    trashBucket: string;
+    trashObject: string;
+    originalBucket: string;
+    originalName: string;
+    originalGeneration: string;
+    size: number;
+    trashedAt?: string;
+    tool?: string;
+}
+
+// Copies an object to the trash before a tool deletes or overwrites it; bound
+// to a project's trash settings and passed to helpers that replace objects
+export type TrashHook = (bucket: Bucket, name: string, generation?: string | number) => Promise<TrashedObject | undefined>;
+
+function trashPrefix(config: TrashConfig): string {
+    return config.prefix.endsWith("/") ? config.prefix : `${config.prefix}/`;
+}
+
+// Prefix under which a bucket's trashed objects are kept
+export function trashLocation(config: TrashConfig, bucket: string): { bucket: string, prefix: string } {
+    return { bucket: config.bucket ?? bucket, prefix: `${trashPrefix(config)}${bucket}/` };
+}
+
+// Original object name encoded in a trash object's name (<prefix><bucket>/<name>#<generation>)
+export function originalNameOf(config: TrashConfig, bucket: string, trashObject: string): string | undefined {
+    const { prefix } = trashLocation(config, bucket);
+    if (!trashObject.startsWith(prefix)) return undefined;
+    const rest = trashObject.slice(prefix.length);
+    const separator = rest.lastIndexOf("#");
+    return separator > 0 ? rest.slice(0, separator) : undefined;
+}
+
+// Objects inside the trash are deleted for good, so the trash can be emptied
+export function isInTrash(config: TrashConfig, bucket: string, name: string): boolean {
+    return (config.bucket ?? bucket) === bucket && name.startsWith(trashPrefix(config));
+}
+
+// Content headers and custom metadata that are carried over to and from the trash
+function carriedMetadata(metadata: FileMetadata, custom: Record<string, string>) {
+    return {
+        contentType: metadata.contentType,
+        cacheControl: metadata.cacheControl,
+        contentDisposition: metadata.contentDisposition,
+        contentEncoding: metadata.contentEncoding,
+        contentLanguage: metadata.contentLanguage,
+        metadata: custom
+    };
+}
+
+function describeTrashed(file: File): TrashedObject {
+    const custom = file.metadata.metadata ?? {};
+    return {
+        trashBucket: file.bucket.name,
+        trashObject: file.name,
+        originalBucket: String(custom[ORIGINAL_BUCKET_KEY] ?? ""),
+        originalName: String(custom[ORIGINAL_NAME_KEY] ?? ""),
+        originalGeneration: String(custom[ORIGINAL_GENERATION_KEY] ?? ""),
+        size: Number(file.metadata.size ?? 0),
+        trashedAt: custom[TRASHED_AT_KEY] !== undefined ? String(custom[TRASHED_AT_KEY]) : undefined,
+        tool: custom[TRASHED_BY_KEY] !== undefined ? String(custom[TRASHED_BY_KEY]) : undefined
+    };
+}
+
+// Copy an object generation (the live one by default) into the trash.
+// Returns nothing when there is no such object, as for a brand new upload,
+// or when that generation is already in the trash.
+export async function moveToTrash(
+    client: Storage,
+    config: TrashConfig,
+    bucket: string,
+    name: string,
+    options: { tool: string, generation?: string | number }
+): Promise<TrashedObject | undefined> {
+    if (isInTrash(config, bucket, name)) return undefined;
+
+    const source = client.bucket(bucket).file(name, { generation: options.generation });
+    let metadata: FileMetadata;
+    try {
+        [metadata] = await source.getMetadata();
+    } catch (error) {
+        if ((error as { code?: number }).code === 404) return undefined;
+        throw error;
+    }
+
+    const location = trashLocation(config, bucket);
+    const generation = String(metadata.generation);
+    const target = client.bucket(location.bucket).file(`${location.prefix}${name}#${generation}`);
+    const custom: Record<string, string> = {};
+    for (const [key, value] of Object.entries(metadata.metadata ?? {})) {
+        if (value !== null && value !== undefined) custom[key] = String(value);
+    }
+    Object.assign(custom, {
+        [ORIGINAL_BUCKET_KEY]: bucket,
+        [ORIGINAL_NAME_KEY]: name,
+        [ORIGINAL_GENERATION_KEY]: generation,
+        [TRASHED_AT_KEY]: new Date().toISOString(),
+        [TRASHED_BY_KEY]: options.tool
+    });
+
+    // Copy exactly the generation that was inspected. A generation trashed
+    // before keeps its earlier copy, which must not be replaced by one that
+    // is discarded again when the write fails.
+    const pinned = client.bucket(bucket).file(name, { generation });
+    let copied: File;
+    try {
+        [copied] = await pinned.copy(target, {
+            ...carriedMetadata(metadata, custom),
+            preconditionOpts: { ifGenerationMatch: 0 }
+        });
+    } catch (error) {
+        if ((error as { code?: number }).code === 412) return undefined;
+        throw error;
+    }
+    // The copy does not carry the new object's metadata, which the entry is built from
+    await copied.getMetadata();
+    return describeTrashed(copied);
+}
+
+// Delete trash copies taken ahead of a write that then failed, as the objects
+// they hold were not lost. Returns the copies that could not be deleted.
+export async function discardTrashed(client: Storage, entries: TrashedObject[]): Promise<TrashedObject[]> {
+    const remaining: TrashedObject[] = [];
+    for (const entry of entries) {
+        try {
+            await client.bucket(entry.trashBucket).file(entry.trashObject).delete();
+        } catch {
+            remaining.push(entry);
+        }
+    }
+    return remaining;
+}
+
+// List trashed objects of a bucket, newest first, optionally only those
+// whose original name starts with a prefix
+export async function listTrash(client: Storage, config: TrashConfig, bucket: string, options: { prefix?: string, maxResults: number }) {
+    const location = trashLocation(config, bucket);
+    const entries: TrashedObject[] = [];
+    let truncated = false;
+    for await (const file of iterateFiles(client.bucket(location.bucket), { prefix: location.prefix + (options.prefix ?? "") })) {
+        if (entries.length >= options.maxResults) {
+            truncated = true;
+            break;
+        }
+        entries.push(describeTrashed(file));
+    }
+    entries.sort((a, b) => (b.trashedAt ?? "").localeCompare(a.trashedAt ?? ""));
+    return { trashBucket: location.bucket, trashPrefix: location.prefix, entries, truncated };
+}
+
+// Copy a trashed object back to its original name (or another destination),
+// and remove it from the trash unless asked to keep it. An overwrite can be
+// limited to one generation of the destination with ifGenerationMatch.
+export async function restoreFromTrash(
+    client: Storage,
+    config: TrashConfig,
+    bucket: string,
+    trashObject: string,
+    options: { destination?: string, overwrite: boolean, keepInTrash: boolean, ifGenerationMatch?: string | number }
+) {
+    const location = trashLocation(config, bucket);
+    const originalName = originalNameOf(config, bucket, trashObject);
+    if (!originalName) {
+        throw new ToolError("INVALID_ARGUMENT", `${trashObject} is not in the trash of bucket ${bucket} (${location.bucket}/${location.prefix})`);
+    }
+
+    const trashed = client.bucket(location.bucket).file(trashObject);
+    const [metadata] = await trashed.getMetadata();
+    const entry = describeTrashed(trashed);
+    if (entry.originalBucket !== bucket || entry.originalName !== originalName) {
+        throw new ToolError("INVALID_ARGUMENT", `${trashObject} has no record of being trashed from ${bucket}/${originalName}`);
+    }
+
+    const custom: Record<string, string> = {};
+    for (const [key, value] of Object.entries(metadata.metadata ?? {})) {
+        if (!TRASH_METADATA_KEYS.includes(key) && value !== null && value !== undefined) custom[key] = String(value);
+    }
+
+    const destination = options.destination ?? originalName;
+    const [restored] = await client.bucket(location.bucket).file(trashObject, { generation: metadata.generation }).copy(
+        client.bucket(bucket).file(destination),
+        {
+            ...carriedMetadata(metadata, custom),
+            preconditionOpts: !options.overwrite ? { ifGenerationMatch: 0 } :
+                options.ifGenerationMatch !== undefined ? { ifGenerationMatch: options.ifGenerationMatch } : undefined
+        }
+    );
+
+    const [restoredMetadata] = await restored.getMetadata();
+
+    // The object is restored by now, so a failed cleanup is reported rather than thrown
+    const removedFromTrash = !options.keepInTrash &&
+        await trashed.delete({ ifGenerationMatch: metadata.generation }).then(() => true, () => false);
+
+    return { entry, destination, generation: restoredMetadata.generation, removedFromTrash };
+}
@@ -0,0 +1,232 @@
+/**
+ * Multi-call upload sessions.
+ *
+ * Each session holds a streaming write to a GCS resumable upload session.
+ * Chunks arrive in order over several tool calls and are sent to Cloud
+ * Storage in 256 KiB-aligned pieces, so only the unsent tail is kept in
+ * memory. Sessions that are not finished within their idle timeout are
+ * abandoned and their partial upload is discarded.
+ */
+
+import { Bucket, CRC32C, File, FileMetadata, PreconditionOptions } from "@google-cloud/storage";
+import { createHash, Hash, randomUUID } from "crypto";
+import { Writable } from "stream";
+import { toToolError, ToolError } from "./errors.js";
+
+// How long a session may sit idle before it is abandoned
+const SESSION_IDLE_MS = 60 * 60 * 1000;
+
+// How often idle sessions are looked for
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Bytes sent per resumable upload request; must be a multiple of 256 KiB
+const UPLOAD_REQUEST_BYTES = 8 * 1024 * 1024;
+
+export interface UploadSession {
+    id: string;
+    project: string;
+    bucket: string;
+    destination: string;
+    file: File;
+    // Generation the upload may replace, from its precondition; 0 when the object must not exist
+    ifGenerationMatch?: string | number;
+    stream: Writable;
+    // Set when the upload stream fails; reported on the next call
+    error?: Error;
+    nextSequence: number;
+    // Size and checksum of the last chunk, so a retried chunk can be recognized
+    lastChunk?: { sequence: number, size: number, crc32c: string };
+    bytesReceived: number;
+    crc32c: CRC32C;
+    md5: Hash;
+    createdAt: number;
+    lastActivity: number;
+}
+
+// Open sessions, keyed by upload ID
+const sessions = new Map<string, UploadSession>();
+let sweepTimer: NodeJS.Timeout | undefined;
+
+function expiresAt(session: UploadSession): string {
+    return new Date(session.lastActivity + SESSION_IDLE_MS).toISOString();
+}
+
+// Abandon sessions that have been idle for too long
+function pruneIdleSessions() {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, session] of sessions) {
+        if (session.lastActivity <= cutoff) {
+            sessions.delete(id);
+            session.stream.destroy();
+        }
+    }
+    if (sessions.size === 0 && sweepTimer) {
+        clearInterval(sweepTimer);
+        sweepTimer = undefined;
+    }
+}
+
+// Write a buffer to a stream, waiting until it has been accepted
+function writeChunk(stream: Writable, data: Buffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+        stream.write(data, error => error ? reject(error) : resolve());
+    });
+}
+
+// Base64 CRC32C of a single chunk
+function chunkChecksum(data: Buffer): string {
+    const crc32c = new CRC32C();
+    crc32c.update(data);
+    return crc32c.toString();
+}
+
+// Start a resumable upload and register a session for it
+export function startUploadSession(
+    bucket: Bucket,
+    options: {
+        project: string,
+        destination: string,
+        contentType?: string,
+        metadata?: Record<string, string>,
+        preconditionOpts?: PreconditionOptions
+    }
+): UploadSession {
+    pruneIdleSessions();
+
+    const file = bucket.file(options.destination);
+    const metadata: FileMetadata = {};
+    if (options.contentType) metadata.contentType = options.contentType;
+    if (options.metadata) metadata.metadata = options.metadata;
+
+    const stream = file.createWriteStream({
+        resumable: true,
+        chunkSize: UPLOAD_REQUEST_BYTES,
+        validation: "crc32c",
+        metadata,
+        preconditionOpts: options.preconditionOpts
+    });
+
+    const now = Date.now();
+    const session: UploadSession = {
+        id: randomUUID(),
+        project: options.project,
+        bucket: bucket.name,
+        destination: options.destination,
+        file,
+        ifGenerationMatch: options.preconditionOpts?.ifGenerationMatch,
+        stream,
+        nextSequence: 0,
+        bytesReceived: 0,
+        crc32c: new CRC32C(),
+        md5: createHash("md5"),
+        createdAt: now,
+        lastActivity: now
+    };
+    // Keep the failure for the next call instead of crashing on an unhandled error
+    stream.on("error", error => {
+        session.error = error;
+    });
+
+    sessions.set(session.id, session);
+    if (!sweepTimer) {
+        sweepTimer = setInterval(pruneIdleSessions, SWEEP_INTERVAL_MS);
+        sweepTimer.unref();
+    }
+    return session;
+}
+
+// Look up an open session without changing it
+export function findUploadSession(uploadId: string): UploadSession | undefined {
+    pruneIdleSessions();
+    return sessions.get(uploadId);
+}
+
+function getSession(uploadId: string): UploadSession {
+    const session = findUploadSession(uploadId);
+    if (!session) {
+        throw new ToolError("NOT_FOUND", `Upload ${uploadId} does not exist or has expired. Start a new upload with startUpload.`);
+    }
+    if (session.error) {
+        sessions.delete(uploadId);
+        const cause = toToolError(session.error);
+        throw new ToolError(cause.code, `Upload ${uploadId} failed and was abandoned: ${cause.message}`, cause.status);
+    }
+    return session;
+}
+
+// Append the next chunk of a session. Repeating the last chunk is accepted
+// without writing it again, so a call can be retried safely.
+export async function appendUploadChunk(uploadId: string, sequence: number, data: Buffer) {
+    const session = getSession(uploadId);
+
+    const last = session.lastChunk;
+    if (last && sequence === last.sequence) {
+        if (data.length !== last.size || chunkChecksum(data) !== last.crc32c) {
+            throw new ToolError("CONFLICT", `Chunk ${sequence} was already received with different content`);
+        }
+        return { session, duplicate: true };
+    }
+    if (sequence !== session.nextSequence) {
+        throw new ToolError("CONFLICT", `Expected chunk ${session.nextSequence} but received chunk ${sequence}`);
+    }
+
+    await writeChunk(session.stream, data);
+    session.crc32c.update(data);
+    session.md5.update(data);
+    session.bytesReceived += data.length;
+    session.lastChunk = { sequence, size: data.length, crc32c: chunkChecksum(data) };
+    session.nextSequence++;
+    session.lastActivity = Date.now();
+    return { session, duplicate: false };
+}
+
+// Finish a session's upload and check the stored object against the bytes
+// received and, when given, the checksums the caller expects
+export async function finishUploadSession(uploadId: string, expected: { crc32c?: string, md5Hash?: string }) {
+    const session = getSession(uploadId);
+    sessions.delete(uploadId);
+
+    const received = { crc32c: session.crc32c.toString(), md5Hash: session.md5.digest("base64") };
+
+    await new Promise<void>((resolve, reject) => {
+        session.stream.once("error", reject);
+        session.stream.once("finish", resolve);
+        session.stream.end();
+    });
+
+    const [metadata] = await session.file.getMetadata();
+    const mismatch =
+        (metadata.crc32c && metadata.crc32c !== received.crc32c && "the stored object does not match the bytes received") ||
+        (expected.crc32c && expected.crc32c !== received.crc32c && `CRC32C ${received.crc32c} does not match the expected ${expected.crc32c}`) ||
+        (expected.md5Hash && expected.md5Hash !== received.md5Hash && `MD5 ${received.md5Hash} does not match the expected ${expected.md5Hash}`);
+    if (mismatch) {
+        // Remove only the generation this upload created
+        await session.file.delete({ ifGenerationMatch: metadata.generation });
+        throw new ToolError("CHECKSUM_MISMATCH", `Upload of ${session.destination} failed checksum verification (${mismatch}); the object was deleted`);
+    }
+
+    return { session, metadata, received };
+}
+
+// Discard a session and its partial upload
+export function abortUploadSession(uploadId: string): UploadSession {
+    const session = findUploadSession(uploadId);
+    if (!session) {
+        throw new ToolError("NOT_FOUND", `Upload ${uploadId} does not exist or has expired`);
+    }
+    sessions.delete(uploadId);
+    session.stream.destroy();
+    return session;
+}
+
+// Summary of a session for tool responses
+export function describeUploadSession(session: UploadSession) {
+    return {
+        uploadId: session.id,
+        bucket: session.bucket,
+        destination: session.destination,
+        nextSequence: session.nextSequence,
+        bytesReceived: session.bytesReceived,
+        expiresAt: expiresAt(session)
+    };
+}
@@ -0,0 +1,35 @@
+/**
+ * The JSON API emulator serving backend projects only answers requests that
+ * carry its per-process secret.
+ */
+
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { Emulator, startEmulator } from "../src/emulator.js";
+import { createMemoryBackend } from "../src/memoryBackend.js";
+
+describe("backend emulator", () => {
+    let emulator: Emulator;
+
+    before(async () => {
+        emulator = await startEmulator(createMemoryBackend());
+    });
+
+    after(async () => {
+        await emulator?.close();
+    });
+
+    const listBuckets = (headers: Record<string, string>) => fetch(`${emulator.url}/storage/v1/b?project=test`, { headers });
+
+    test("requests without the secret are rejected", async () => {
+        assert.equal((await listBuckets({})).status, 401);
+        assert.equal((await listBuckets({ Authorization: "Bearer wrong-secret" })).status, 401);
+        assert.equal((await listBuckets({ Authorization: emulator.secret })).status, 401);
+    });
+
+    test("requests with the secret are served", async () => {
+        const response = await listBuckets({ Authorization: `Bearer ${emulator.secret}` });
+        assert.equal(response.status, 200);
+        assert.deepEqual(await response.json(), { kind: "storage#buckets", items: [] });
+    });
+});
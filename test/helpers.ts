@@ -0,0 +1,211 @@
+/**
+ * Start the built server and call its tools from tests.
+ *
+ * Tool results are parsed with the tool's output schema from src/results.ts,
+ * so the fields a test reads are typed. Run `npm test`, which builds the
+ * server first.
+ */
+
+import assert from "node:assert/strict";
+import { ChildProcess, spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { RequestOptions } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { ErrorCode } from "../src/errors.js";
+import * as results from "../src/results.js";
+
+export const serverPath = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..", "build", "index.js");
+
+// The output schema of each tool
+const RESULT_SCHEMAS = {
+    listBuckets: results.ListBucketsResultSchema,
+    getBucket: results.GetBucketResultSchema,
+    getBucketConfig: results.GetBucketConfigResultSchema,
+    storageReport: results.StorageReportResultSchema,
+    createBucket: results.CreateBucketResultSchema,
+    deleteBucket: results.DeleteBucketResultSchema,
+    updateBucketConfig: results.UpdateBucketConfigResultSchema,
+    getBucketIamPolicy: results.GetBucketIamPolicyResultSchema,
+    testBucketPermissions: results.TestBucketPermissionsResultSchema,
+    updateBucketIamBinding: results.UpdateBucketIamBindingResultSchema,
+    listTrash: results.ListTrashResultSchema,
+    restoreFromTrash: results.RestoreFromTrashResultSchema,
+    getFileAcl: results.GetFileAclResultSchema,
+    findPublicExposure: results.FindPublicExposureResultSchema,
+    listFiles: results.ListFilesResultSchema,
+    searchFiles: results.SearchFilesResultSchema,
+    getFile: results.GetFileResultSchema,
+    uploadFile: results.UploadFileResultSchema,
+    downloadFile: results.DownloadFileResultSchema,
+    previewFile: results.PreviewFileResultSchema,
+    uploadFromPath: results.UploadFromPathResultSchema,
+    startUpload: results.StartUploadResultSchema,
+    appendUploadChunk: results.AppendUploadChunkResultSchema,
+    finishUpload: results.FinishUploadResultSchema,
+    abortUpload: results.AbortUploadResultSchema,
+    composeFiles: results.ComposeFilesResultSchema,
+    createArchive: results.CreateArchiveResultSchema,
+    extractArchive: results.ExtractArchiveResultSchema,
+    downloadToPath: results.DownloadToPathResultSchema,
+    generateSignedUrl: results.GenerateSignedUrlResultSchema,
+    copyFile: results.RelocateResultSchema,
+    moveFile: results.RelocateResultSchema,
+    renameFile: results.RelocateResultSchema,
+    bulkDelete: results.BulkPlanResultSchema,
+    bulkSetMetadata: results.BulkPlanResultSchema,
+    bulkSetStorageClass: results.BulkPlanResultSchema,
+    confirmBulkOperation: results.ConfirmBulkOperationResultSchema,
+    syncToBucket: results.SyncPlanResultSchema,
+    syncFromBucket: results.SyncPlanResultSchema,
+    confirmSync: results.ConfirmSyncResultSchema,
+    setFileMetadata: results.SetFileMetadataResultSchema,
+    listFileVersions: results.ListFileVersionsResultSchema,
+    restoreFileVersion: results.RestoreFileVersionResultSchema,
+    deleteFile: results.DeleteFileResultSchema,
+    listProjects: results.ListProjectsResultSchema,
+    checkCredentials: results.CheckCredentialsResultSchema,
+    addProject: results.AddProjectResultSchema,
+    removeProject: results.RemoveProjectResultSchema,
+    reloadCredentials: results.ReloadCredentialsResultSchema
+};
+
+export type ToolName = keyof typeof RESULT_SCHEMAS;
+export const TOOL_NAMES = Object.keys(RESULT_SCHEMAS) as ToolName[];
+export type ToolResult<N extends ToolName> = z.infer<typeof RESULT_SCHEMAS[N]>;
+
+// The JSON text of a failed call
+const ToolErrorSchema = z.object({
+    error: z.string(),
+    code: z.custom<ErrorCode>(value => typeof value === "string"),
+    status: z.number().optional(),
+    retryable: z.boolean(),
+    message: z.string()
+});
+
+export type ToolFailure = z.infer<typeof ToolErrorSchema>;
+
+// Text of the first content block of a call result
+function resultText(result: CallToolResult): string {
+    const [block] = result.content;
+    return block?.type === "text" ? block.text : "";
+}
+
+// uploadFile takes its content base64 encoded
+export function base64(text: string): string {
+    return Buffer.from(text).toString("base64");
+}
+
+// A temporary directory removed by the returned function
+export function tempDir(): { dir: string, remove: () => void } {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "cloudstorage-mcp-test-"));
+    return { dir, remove: () => fs.rmSync(dir, { recursive: true, force: true }) };
+}
+
+// Names that no other test in the same server uses, for buckets and projects
+let counter = 0;
+export function uniqueName(label: string): string {
+    counter += 1;
+    return `${label}-${process.pid}-${counter}`;
+}
+
+export class ToolClient {
+    constructor(readonly client: Client) {}
+
+    // Start the server over stdio with the given environment
+    static async stdio(env: Record<string, string>): Promise<ToolClient> {
+        const transport = new StdioClientTransport({
+            command: process.execPath,
+            args: [serverPath],
+            env: { ...process.env as Record<string, string>, ...env },
+            stderr: "ignore"
+        });
+        const client = new Client({ name: "tools-test", version: "1.0.0" });
+        await client.connect(transport);
+        return new ToolClient(client);
+    }
+
+    // Connect to an HTTP server with a bearer token
+    static async http(url: URL, token: string): Promise<ToolClient> {
+        const transport = new StreamableHTTPClientTransport(url, {
+            requestInit: { headers: { Authorization: `Bearer ${token}` } }
+        });
+        const client = new Client({ name: "tools-test", version: "1.0.0" });
+        await client.connect(transport);
+        return new ToolClient(client);
+    }
+
+    // Call a tool that is expected to succeed and return its structured result
+    async call<N extends ToolName>(name: N, args: Record<string, unknown> = {}, options?: RequestOptions): Promise<ToolResult<N>> {
+        const result = await this.client.callTool({ name, arguments: args }, undefined, options) as CallToolResult;
+        assert.ok(!result.isError, `${name} failed: ${resultText(result)}`);
+        return RESULT_SCHEMAS[name].parse(result.structuredContent) as ToolResult<N>;
+    }
+
+    // Call a tool that is expected to fail and return its error
+    async fail(name: ToolName, args: Record<string, unknown> = {}): Promise<ToolFailure> {
+        const result = await this.client.callTool({ name, arguments: args }) as CallToolResult;
+        assert.ok(result.isError, `${name} was expected to fail`);
+        return ToolErrorSchema.parse(JSON.parse(resultText(result)));
+    }
+
+    // URIs of every listed resource, following the cursor across pages
+    async resourceUris(): Promise<string[]> {
+        const uris: string[] = [];
+        let cursor: string | undefined;
+        do {
+            const page = await this.client.listResources(cursor ? { cursor } : undefined);
+            uris.push(...page.resources.map(resource => resource.uri));
+            cursor = page.nextCursor;
+        } while (cursor);
+        return uris;
+    }
+
+    async toolNames(): Promise<string[]> {
+        return (await this.client.listTools()).tools.map(tool => tool.name);
+    }
+
+    async close() {
+        await this.client.close();
+    }
+}
+
+// A server listening on HTTP, started with a config file
+export interface HttpServer {
+    url: URL;
+    stop: () => Promise<void>;
+}
+
+// Start the server on a free loopback port and wait until it listens
+export async function startHttpServer(configPath: string, env: Record<string, string> = {}): Promise<HttpServer> {
+    const child: ChildProcess = spawn(process.execPath, [serverPath, "--config", configPath, "--transport", "http", "--port", "0"], {
+        env: { ...process.env, ...env },
+        stdio: ["ignore", "ignore", "pipe"]
+    });
+    const exited = new Promise<void>(resolve => child.once("exit", () => resolve()));
+
+    const url = await new Promise<URL>((resolve, reject) => {
+        let output = "";
+        child.stderr?.setEncoding("utf8");
+        child.stderr?.on("data", (chunk: string) => {
+            output += chunk;
+            const listening = /listening on (http:\/\/\S+)/.exec(output);
+            if (listening) resolve(new URL(listening[1]));
+        });
+        child.once("exit", code => reject(new Error(`The server exited with code ${code}: ${output}`)));
+    });
+
+    return {
+        url,
+        stop: async () => {
+            child.kill();
+            await exited;
+        }
+    };
+}
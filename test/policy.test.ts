@@ -0,0 +1,69 @@
+/**
+ * Access policy decisions, including how `**` globs in bucket and object
+ * prefix allowlists are matched.
+ */
+
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { AccessPolicySchema, enforceAccessPolicy, isBucketAllowed, isPermissionAllowed } from "../src/policy.js";
+
+const policy = AccessPolicySchema.parse({
+    default: { readOnly: true },
+    projects: {
+        "team-project": {
+            buckets: ["team-*"],
+            objectPrefixes: ["shared/", "reports/**/final/", "**/public/"]
+        }
+    }
+});
+
+// The POLICY_DENIED code of a rejected call, or nothing when it is allowed
+function deniedCode(targets: Parameters<typeof enforceAccessPolicy>[2]): string | undefined {
+    try {
+        enforceAccessPolicy(policy, "downloadFile", targets);
+        return undefined;
+    } catch (error) {
+        return (error as { code: string }).code;
+    }
+}
+
+describe("access policy", () => {
+    test("bucket globs match whole bucket names", () => {
+        assert.equal(isBucketAllowed(policy, "team-project", "team-data"), true);
+        assert.equal(isBucketAllowed(policy, "team-project", "other-data"), false);
+        assert.equal(isBucketAllowed(policy, "unlisted-project", "anything"), true);
+    });
+
+    test("object prefixes allow names under them", () => {
+        const target = { project: "team-project", write: false, bucket: "team-data" };
+        assert.equal(deniedCode([{ ...target, objects: ["shared/notes.txt"] }]), undefined);
+        assert.equal(deniedCode([{ ...target, objects: ["private/notes.txt"] }]), "POLICY_DENIED");
+        assert.equal(deniedCode([{ ...target, prefixes: ["shared/"] }]), undefined);
+        assert.equal(deniedCode([{ ...target, prefixes: [""] }]), "POLICY_DENIED");
+    });
+
+    test("a **/ in an object prefix matches zero or more folders", () => {
+        const target = { project: "team-project", write: false, bucket: "team-data" };
+        assert.equal(deniedCode([{ ...target, objects: ["reports/final/q1.pdf"] }]), undefined);
+        assert.equal(deniedCode([{ ...target, objects: ["reports/2026/final/q1.pdf"] }]), undefined);
+        assert.equal(deniedCode([{ ...target, objects: ["reports/2026/q1/final/q1.pdf"] }]), undefined);
+        assert.equal(deniedCode([{ ...target, objects: ["reports/2026/draft/q1.pdf"] }]), "POLICY_DENIED");
+        assert.equal(deniedCode([{ ...target, objects: ["public/logo.png"] }]), undefined);
+        assert.equal(deniedCode([{ ...target, objects: ["site/public/logo.png"] }]), undefined);
+        assert.equal(deniedCode([{ ...target, objects: ["site/publicity/logo.png"] }]), "POLICY_DENIED");
+    });
+
+    test("a read-only project rejects writes and withholds write permissions", () => {
+        assert.equal(deniedCode([{ project: "any-project", write: false, bucket: "data" }]), undefined);
+        assert.throws(
+            () => enforceAccessPolicy(policy, "deleteFile", [{ project: "any-project", write: true, bucket: "data" }]),
+            { code: "POLICY_DENIED" }
+        );
+        assert.equal(isPermissionAllowed(policy, "any-project", "storage.objects.get"), true);
+        assert.equal(isPermissionAllowed(policy, "any-project", "storage.objects.list"), true);
+        assert.equal(isPermissionAllowed(policy, "any-project", "storage.buckets.getIamPolicy"), true);
+        assert.equal(isPermissionAllowed(policy, "any-project", "storage.objects.create"), false);
+        assert.equal(isPermissionAllowed(policy, "any-project", "storage.objects.delete"), false);
+        assert.equal(isPermissionAllowed(policy, "team-project", "storage.objects.delete"), true);
+    });
+});
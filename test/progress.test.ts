@@ -0,0 +1,76 @@
+/**
+ * Progress notifications and cancellation of long-running tools.
+ */
+
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import { Progress } from "@modelcontextprotocol/sdk/types.js";
+import { base64, ToolClient, uniqueName } from "./helpers.js";
+
+describe("progress and cancellation", { timeout: 120000 }, () => {
+    let client: ToolClient;
+
+    // Create a bucket holding a number of small objects
+    const bucketWith = async (count: number) => {
+        const bucket = uniqueName("bucket");
+        await client.call("createBucket", { bucket });
+        for (let index = 0; index < count; index++) {
+            await client.call("uploadFile", { bucket, destination: `objects/${String(index).padStart(4, "0")}`, content: base64("x") });
+        }
+        return bucket;
+    };
+
+    const objectCount = async (bucket: string) => (await client.call("listFiles", { bucket, maxResults: 1000 })).count;
+
+    before(async () => {
+        client = await ToolClient.stdio({
+            GOOGLE_CLOUD_PROJECTS: "test-project",
+            STORAGE_BACKEND: "memory"
+        });
+    });
+
+    after(async () => {
+        await client?.close();
+    });
+
+    test("confirmBulkOperation reports the objects processed", async () => {
+        const bucket = await bucketWith(5);
+        const plan = await client.call("bulkDelete", { bucket, prefix: "objects/" });
+
+        const updates: Progress[] = [];
+        const result = await client.call("confirmBulkOperation", { planId: plan.planId }, { onprogress: update => updates.push(update) });
+        assert.equal(result.succeeded, 5);
+
+        // The first object is always reported. The client may drop the last
+        // notification when it arrives together with the result.
+        assert.deepEqual(updates[0], { progress: 1, total: 5, message: "Processed 1 of 5 objects" });
+        for (const [index, update] of updates.entries()) {
+            assert.ok(index === 0 || update.progress > updates[index - 1].progress);
+            assert.deepEqual(update, { progress: update.progress, total: 5, message: `Processed ${update.progress} of 5 objects` });
+        }
+    });
+
+    test("a cancelled confirmBulkOperation stops starting objects", async () => {
+        const total = 150;
+        const bucket = await bucketWith(total);
+        const plan = await client.call("bulkDelete", { bucket, prefix: "objects/" });
+
+        // Cancel as soon as the first object is done
+        const controller = new AbortController();
+        await assert.rejects(client.call("confirmBulkOperation", { planId: plan.planId, concurrency: 1 }, {
+            signal: controller.signal,
+            onprogress: () => controller.abort("cancelled by the test")
+        }), { name: "McpError", message: "MCP error -32001: cancelled by the test" });
+
+        // Wait until deletes in flight are done before counting what is left
+        let previous = -1;
+        let remaining = await objectCount(bucket);
+        while (remaining !== previous) {
+            previous = remaining;
+            await sleep(200);
+            remaining = await objectCount(bucket);
+        }
+        assert.ok(remaining > 0 && remaining < total, `${remaining} of ${total} objects remain`);
+    });
+});
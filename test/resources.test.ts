@@ -0,0 +1,71 @@
+/**
+ * Objects exposed as gs://{bucket}/{object} resources.
+ */
+
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { base64, ToolClient, uniqueName } from "./helpers.js";
+
+// A 1x1 PNG
+const PNG = Buffer.from("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==", "base64");
+
+describe("resources", { timeout: 60000 }, () => {
+    let client: ToolClient;
+
+    // Create a bucket holding the given objects
+    const bucketWith = async (objects: Record<string, Buffer>) => {
+        const bucket = uniqueName("bucket");
+        await client.call("createBucket", { bucket });
+        for (const [destination, content] of Object.entries(objects)) {
+            await client.call("uploadFile", { bucket, destination, content: content.toString("base64") });
+        }
+        return bucket;
+    };
+
+    before(async () => {
+        client = await ToolClient.stdio({
+            GOOGLE_CLOUD_PROJECTS: "test-project",
+            STORAGE_BACKEND: "memory",
+            RESOURCE_POLL_SECONDS: "1"
+        });
+    });
+
+    after(async () => {
+        await client?.close();
+    });
+
+    test("the object template is listed", async () => {
+        const { resourceTemplates } = await client.client.listResourceTemplates();
+        assert.deepEqual(resourceTemplates.map(template => template.uriTemplate), ["gs://{bucket}/{object}"]);
+    });
+
+    test("objects are listed as resources", async () => {
+        const bucket = await bucketWith({ "notes.txt": Buffer.from("notes"), "images/pixel.png": PNG });
+        const uris = await client.resourceUris();
+        assert.deepEqual(uris.filter(uri => uri.startsWith(`gs://${bucket}/`)), [`gs://${bucket}/images/pixel.png`, `gs://${bucket}/notes.txt`]);
+    });
+
+    test("text objects are read as text and others as blobs", async () => {
+        const bucket = await bucketWith({ "notes.txt": Buffer.from("notes"), "images/pixel.png": PNG });
+
+        const text = await client.client.readResource({ uri: `gs://${bucket}/notes.txt` });
+        assert.deepEqual(text.contents, [{ uri: `gs://${bucket}/notes.txt`, mimeType: "text/plain", text: "notes" }]);
+
+        const image = await client.client.readResource({ uri: `gs://${bucket}/images/pixel.png` });
+        assert.deepEqual(image.contents, [{ uri: `gs://${bucket}/images/pixel.png`, mimeType: "image/png", blob: PNG.toString("base64") }]);
+    });
+
+    test("subscribers are notified when an object changes", async () => {
+        const bucket = await bucketWith({ "watched.txt": Buffer.from("before") });
+        const uri = `gs://${bucket}/watched.txt`;
+        const updated = new Promise<string>(resolve => {
+            client.client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => resolve(notification.params.uri));
+        });
+
+        await client.client.subscribeResource({ uri });
+        await client.call("uploadFile", { bucket, destination: "watched.txt", content: base64("after") });
+        assert.equal(await updated, uri);
+        await client.client.unsubscribeResource({ uri });
+    });
+});
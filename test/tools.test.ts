@@ -0,0 +1,609 @@
+/**
+ * Every tool, run against the in-memory and local-directory backends.
+ *
+ * Each suite starts the built server over stdio with STORAGE_BACKEND set, so
+ * the tests need no network or Google Cloud credentials. Every test creates
+ * its own buckets, and its own project when it lists a whole project, so any
+ * test can run on its own.
+ */
+
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { base64, tempDir, TOOL_NAMES, ToolClient, uniqueName } from "./helpers.js";
+
+const PROJECT = "test-project";
+const OTHER_PROJECT = "other-project";
+const TRASH_BUCKET = "test-trash";
+
+// A 1x1 PNG
+const PNG = Buffer.from("iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==", "base64");
+
+const README = "first line\nsecond line\nthird line\n";
+
+for (const backend of ["memory", "local"]) {
+    describe(`tools on the ${backend} backend`, { timeout: 120000 }, () => {
+        let tmp: ReturnType<typeof tempDir>;
+        let files: string;
+        let projectRoots: string;
+        let client: ToolClient;
+
+        // Create a bucket for one test
+        const newBucket = async (options: Record<string, unknown> = {}, project = PROJECT) => {
+            const bucket = uniqueName("bucket");
+            await client.call("createBucket", { project, bucket, ...options });
+            return bucket;
+        };
+
+        // Upload text and return the stored generation
+        const upload = async (bucket: string, file: string, text: string) =>
+            String((await client.call("uploadFile", { bucket, destination: file, content: base64(text) })).metadata.generation);
+
+        const download = async (bucket: string, file: string, project = PROJECT) =>
+            (await client.call("downloadFile", { project, bucket, file })).content;
+
+        const names = (entries: { name: string }[] | undefined) => (entries ?? []).map(entry => entry.name);
+
+        // Run a test in a project of its own on this backend, removed afterwards
+        const withProject = async (run: (project: string) => Promise<void>) => {
+            const project = uniqueName("project");
+            const projectBackend = backend === "local" ? { type: "local", root: path.join(projectRoots, project) } : { type: "memory" };
+            await client.call("addProject", { name: project, backend: projectBackend });
+            try {
+                await run(project);
+            } finally {
+                await client.call("removeProject", { name: project });
+            }
+        };
+
+        before(async () => {
+            tmp = tempDir();
+            files = path.join(tmp.dir, "files");
+            projectRoots = path.join(tmp.dir, "projects");
+            fs.mkdirSync(files);
+            fs.mkdirSync(projectRoots);
+            const setting = backend === "local" ? `local:${path.join(tmp.dir, "data")}` : backend;
+            client = await ToolClient.stdio({
+                GOOGLE_CLOUD_PROJECTS: `${PROJECT},${OTHER_PROJECT}`,
+                STORAGE_BACKEND: setting,
+                ALLOWED_LOCAL_ROOTS: [files, projectRoots].join(path.delimiter),
+                TRASH_BUCKET
+            });
+            await client.call("createBucket", { bucket: TRASH_BUCKET });
+        });
+
+        after(async () => {
+            await client?.close();
+            tmp?.remove();
+        });
+
+        test("listTools lists every tool", async () => {
+            assert.deepEqual((await client.toolNames()).sort(), [...TOOL_NAMES].sort());
+        });
+
+        test("listProjects and checkCredentials report the backend", async () => {
+            const projects = await client.call("listProjects");
+            assert.deepEqual(projects.projects, [PROJECT, OTHER_PROJECT]);
+            assert.equal(projects.defaultProject, PROJECT);
+            assert.equal(projects.projectSettings[PROJECT].backend, backend);
+            assert.equal(projects.projectSettings[PROJECT].credentials, "none");
+
+            const checks = await client.call("checkCredentials");
+            assert.deepEqual(checks.projects.map(check => [check.project, check.credentials, check.authenticated]), [
+                [PROJECT, "none", null],
+                [OTHER_PROJECT, "none", null]
+            ]);
+        });
+
+        test("createBucket, listBuckets, getBucket and getBucketConfig", () => withProject(async project => {
+            const created = await client.call("createBucket", { project, bucket: "data-bucket", versioning: true, labels: { team: "data" } });
+            assert.equal(created.success, true);
+            assert.equal(created.config.versioning, true);
+            await client.call("createBucket", { project, bucket: "other-bucket" });
+
+            const exists = await client.fail("createBucket", { project, bucket: "data-bucket" });
+            assert.equal(exists.code, "CONFLICT");
+
+            const listed = await client.call("listBuckets", { project });
+            assert.deepEqual(listed.buckets.map(bucket => bucket.name), ["data-bucket", "other-bucket"]);
+
+            const bucket = await client.call("getBucket", { project, bucket: "data-bucket" });
+            assert.equal(bucket.name, "data-bucket");
+            assert.equal(bucket.versioning, true);
+            assert.deepEqual(bucket.labels, { team: "data" });
+
+            const config = await client.call("getBucketConfig", { project, bucket: "data-bucket" });
+            assert.deepEqual(config.labels, { team: "data" });
+            assert.equal(config.versioning, true);
+        }));
+
+        test("updateBucketConfig previews and applies changes", async () => {
+            const bucket = await newBucket();
+            const preview = await client.call("updateBucketConfig", { bucket, labels: { env: "test" }, dryRun: true });
+            assert.equal(preview.dryRun, true);
+            assert.deepEqual(preview.changes, { labels: { before: {}, after: { env: "test" } } });
+            assert.deepEqual((await client.call("getBucketConfig", { bucket })).labels, {});
+
+            const rule = { action: { type: "Delete" }, condition: { age: 30 } };
+            const updated = await client.call("updateBucketConfig", { bucket, labels: { env: "test" }, lifecycleRules: [rule] });
+            assert.equal(updated.success, true);
+            assert.equal(updated.dryRun, false);
+            const config = await client.call("getBucketConfig", { bucket });
+            assert.deepEqual(config.labels, { env: "test" });
+            assert.deepEqual(config.lifecycleRules, [rule]);
+        });
+
+        test("bucket IAM tools and findPublicExposure", () => withProject(async project => {
+            await client.call("createBucket", { project, bucket: "private-bucket" });
+            await client.call("createBucket", { project, bucket: "public-bucket" });
+
+            const policy = await client.call("getBucketIamPolicy", { project, bucket: "private-bucket" });
+            assert.deepEqual(policy.bindings, []);
+
+            const changed = await client.call("updateBucketIamBinding", {
+                project,
+                bucket: "private-bucket",
+                action: "add",
+                role: "roles/storage.objectViewer",
+                members: ["user:alice@example.com"]
+            });
+            assert.deepEqual(changed.changes, { "roles/storage.objectViewer": { added: ["user:alice@example.com"], removed: [] } });
+            const updated = await client.call("getBucketIamPolicy", { project, bucket: "private-bucket" });
+            assert.deepEqual(updated.bindings, [{ role: "roles/storage.objectViewer", members: ["user:alice@example.com"] }]);
+
+            const permissions = await client.call("testBucketPermissions", {
+                project,
+                bucket: "private-bucket",
+                permissions: ["storage.objects.get", "storage.objects.create"]
+            });
+            assert.deepEqual(permissions.granted, ["storage.objects.get", "storage.objects.create"]);
+            assert.deepEqual(permissions.missing, []);
+
+            await client.call("updateBucketIamBinding", {
+                project,
+                bucket: "public-bucket",
+                action: "add",
+                role: "roles/storage.objectViewer",
+                members: ["allUsers"]
+            });
+            const exposure = await client.call("findPublicExposure", { project });
+            assert.equal(exposure.project, project);
+            assert.equal(exposure.bucketsChecked, 2);
+            assert.deepEqual(exposure.publicBuckets, ["public-bucket"]);
+            assert.deepEqual(exposure.errors, []);
+        }));
+
+        test("uploadFile, getFile, downloadFile and getFileAcl", async () => {
+            const bucket = await newBucket();
+            const generation = await upload(bucket, "docs/readme.txt", README);
+
+            const file = await client.call("getFile", { bucket, file: "docs/readme.txt" });
+            assert.equal(file.name, "docs/readme.txt");
+            assert.equal(file.bucket, bucket);
+            assert.equal(String(file.generation), generation);
+            assert.equal(Number(file.size), 34);
+            assert.deepEqual(file.metadata, {});
+
+            assert.equal(await download(bucket, "docs/readme.txt"), README);
+            const range = await client.call("downloadFile", { bucket, file: "docs/readme.txt", start: 6, end: 9 });
+            assert.equal(range.content, "line");
+            assert.deepEqual(range.range, { start: 6, end: 9 });
+            const head = await client.call("downloadFile", { bucket, file: "docs/readme.txt", mode: "head", lines: 1 });
+            assert.equal(head.content, "first line\n");
+            const tail = await client.call("downloadFile", { bucket, file: "docs/readme.txt", mode: "tail", lines: 1 });
+            assert.equal(tail.content, "third line\n");
+
+            const exists = await client.fail("uploadFile", { bucket, destination: "docs/readme.txt", content: base64("x"), ifNotExists: true });
+            assert.equal(exists.code, "PRECONDITION_FAILED");
+            const missing = await client.fail("getFile", { bucket, file: "missing.txt" });
+            assert.equal(missing.code, "NOT_FOUND");
+
+            const acl = await client.call("getFileAcl", { bucket, file: "docs/readme.txt" });
+            assert.equal(acl.file, "docs/readme.txt");
+        });
+
+        test("downloadFile reads an empty object from 0 and rejects ranges past the end", async () => {
+            const bucket = await newBucket();
+            fs.writeFileSync(path.join(files, "empty.txt"), "");
+            await client.call("uploadFromPath", { bucket, localPath: "empty.txt" });
+            const empty = await client.call("downloadFile", { bucket, file: "empty.txt", start: 0 });
+            assert.equal(empty.content, "");
+            assert.equal(empty.bytesReturned, 0);
+
+            await upload(bucket, "short.txt", "short");
+            const beyond = await client.fail("downloadFile", { bucket, file: "short.txt", start: 100 });
+            assert.equal(beyond.code, "OUT_OF_RANGE");
+        });
+
+        test("listFiles pages, filters and builds a tree", async () => {
+            const bucket = await newBucket();
+            await upload(bucket, "docs/readme.txt", README);
+            await upload(bucket, "docs/guide/intro.md", "# Intro\n");
+            await upload(bucket, "logs/2024/app.log", "error: disk full\n");
+
+            const all = await client.call("listFiles", { bucket });
+            assert.deepEqual(names(all.files), ["docs/guide/intro.md", "docs/readme.txt", "logs/2024/app.log"]);
+            assert.equal(all.count, 3);
+            assert.equal(all.nextPageToken, null);
+
+            const folders = await client.call("listFiles", { bucket, prefix: "docs/", delimiter: "/" });
+            assert.deepEqual(names(folders.files), ["docs/readme.txt"]);
+            assert.deepEqual(folders.prefixes, ["docs/guide/"]);
+
+            const glob = await client.call("listFiles", { bucket, matchGlob: "**/*.md" });
+            assert.deepEqual(names(glob.files), ["docs/guide/intro.md"]);
+
+            const page = await client.call("listFiles", { bucket, maxResults: 2 });
+            assert.deepEqual(names(page.files), ["docs/guide/intro.md", "docs/readme.txt"]);
+            assert.equal(typeof page.nextPageToken, "string");
+            const next = await client.call("listFiles", { bucket, maxResults: 2, pageToken: page.nextPageToken });
+            assert.deepEqual(names(next.files), ["logs/2024/app.log"]);
+            assert.equal(next.nextPageToken, null);
+
+            const tree = await client.call("listFiles", { bucket, prefix: "docs/", view: "tree" });
+            assert.deepEqual(Object.keys(tree.tree?.folders ?? {}), ["guide"]);
+            assert.deepEqual(names(tree.tree?.files), ["readme.txt"]);
+        });
+
+        test("searchFiles finds matching lines", async () => {
+            const bucket = await newBucket();
+            await upload(bucket, "docs/readme.txt", README);
+            await upload(bucket, "logs/2024/app.log", "error: disk full\ninfo: ok\n");
+
+            const found = await client.call("searchFiles", { bucket, pattern: "disk full" });
+            assert.equal(found.matchCount, 1);
+            assert.deepEqual(found.matches.map(match => [match.object, match.line, match.text]), [["logs/2024/app.log", 1, "error: disk full"]]);
+            assert.equal(found.complete, true);
+
+            const regex = await client.call("searchFiles", { bucket, prefix: "docs/", pattern: "^(first|third)", regex: true });
+            assert.deepEqual(regex.matches.map(match => match.line), [1, 3]);
+        });
+
+        test("previewFile previews tables, JSON and images", async () => {
+            const bucket = await newBucket();
+            await upload(bucket, "data/table.csv", "id,name\n1,alpha\n2,beta\n");
+            const csv = await client.call("previewFile", { bucket, file: "data/table.csv" });
+            assert.equal(csv.format, "csv");
+            assert.deepEqual(csv.columns?.map(column => column.name), ["id", "name"]);
+            assert.equal(csv.rowsReturned, 2);
+
+            await upload(bucket, "data/config.json", JSON.stringify({ a: { b: [1, 2, 3] } }));
+            const json = await client.call("previewFile", { bucket, file: "data/config.json" });
+            assert.equal(json.format, "json");
+            assert.equal(json.topLevelType, "object");
+
+            fs.writeFileSync(path.join(files, "pixel.png"), PNG);
+            await client.call("uploadFromPath", { bucket, localPath: "pixel.png", destination: "images/pixel.png" });
+            const image = await client.call("previewFile", { bucket, file: "images/pixel.png" });
+            assert.equal(image.format, "image");
+            assert.equal(image.width, 1);
+            assert.equal(image.height, 1);
+        });
+
+        test("setFileMetadata edits metadata in place", async () => {
+            const bucket = await newBucket();
+            const generation = await upload(bucket, "table.csv", "id\n1\n");
+            const result = await client.call("setFileMetadata", {
+                bucket,
+                file: "table.csv",
+                metadata: { owner: "tests" },
+                contentType: "text/csv",
+                cacheControl: "no-cache"
+            });
+            assert.equal(result.success, true);
+            assert.equal(String(result.generation), generation);
+
+            const file = await client.call("getFile", { bucket, file: "table.csv" });
+            assert.equal(file.contentType, "text/csv");
+            assert.equal(file.cacheControl, "no-cache");
+            assert.deepEqual(file.metadata, { owner: "tests" });
+        });
+
+        test("listFileVersions and restoreFileVersion, with the replaced version trashed", async () => {
+            const bucket = await newBucket({ versioning: true });
+            const first = await upload(bucket, "versioned.txt", "version one");
+            const second = await upload(bucket, "versioned.txt", "version two");
+            assert.notEqual(first, second);
+
+            const versions = await client.call("listFileVersions", { bucket, file: "versioned.txt" });
+            assert.deepEqual(versions.versions.map(version => [String(version.generation), version.live]), [[second, true], [first, false]]);
+
+            const restored = await client.call("restoreFileVersion", { bucket, file: "versioned.txt", generation: first });
+            assert.equal(restored.restoredFrom, first);
+            assert.equal(restored.previousLiveGeneration, second);
+            assert.equal(await download(bucket, "versioned.txt"), "version one");
+            assert.deepEqual(restored.trashed?.map(entry => [entry.originalBucket, entry.originalName, entry.originalGeneration]), [
+                [bucket, "versioned.txt", second]
+            ]);
+        });
+
+        test("deleteFile trashes the object, and listTrash and restoreFromTrash bring it back", async () => {
+            const bucket = await newBucket();
+            const generation = await upload(bucket, "trash-me.txt", "keep me");
+            const deleted = await client.call("deleteFile", { bucket, file: "trash-me.txt" });
+            assert.equal(deleted.success, true);
+            assert.deepEqual(deleted.trashed?.map(entry => [entry.originalBucket, entry.originalName, entry.originalGeneration, entry.size]), [
+                [bucket, "trash-me.txt", generation, 7]
+            ]);
+            assert.equal((await client.fail("getFile", { bucket, file: "trash-me.txt" })).code, "NOT_FOUND");
+
+            const trash = await client.call("listTrash", { bucket });
+            assert.equal(trash.trashBucket, TRASH_BUCKET);
+            assert.deepEqual(trash.entries.map(entry => entry.trashObject), deleted.trashed?.map(entry => entry.trashObject));
+
+            const restored = await client.call("restoreFromTrash", { bucket, trashObject: trash.entries[0].trashObject });
+            assert.equal(restored.destination, "trash-me.txt");
+            assert.equal(restored.removedFromTrash, true);
+            assert.equal(await download(bucket, "trash-me.txt"), "keep me");
+            assert.deepEqual((await client.call("listTrash", { bucket })).entries, []);
+        });
+
+        test("a write that fails its precondition leaves nothing in the trash", async () => {
+            const bucket = await newBucket({ versioning: true });
+            const first = await upload(bucket, "guarded.txt", "version one");
+            await upload(bucket, "guarded.txt", "version two");
+            const before = (await client.call("listTrash", { bucket })).entries;
+
+            // The first generation still exists as a noncurrent version, so it can be copied to the trash
+            const stale = await client.fail("uploadFile", { bucket, destination: "guarded.txt", content: base64("version three"), ifGenerationMatch: first });
+            assert.equal(stale.code, "PRECONDITION_FAILED");
+            assert.deepEqual((await client.call("listTrash", { bucket })).entries, before);
+            assert.equal(await download(bucket, "guarded.txt"), "version two");
+        });
+
+        test("composeFiles concatenates objects", async () => {
+            const bucket = await newBucket();
+            await upload(bucket, "parts/1", "hello ");
+            await upload(bucket, "parts/2", "world");
+            const composed = await client.call("composeFiles", {
+                bucket,
+                sources: ["parts/1", "parts/2"],
+                destination: "parts/all",
+                deleteSources: true
+            });
+            assert.deepEqual(composed.sources.map(source => [source.name, source.size]), [["parts/1", 6], ["parts/2", 5]]);
+            assert.deepEqual(composed.deletedSources, ["parts/1", "parts/2"]);
+            assert.equal(await download(bucket, "parts/all"), "hello world");
+        });
+
+        test("chunked uploads with startUpload, appendUploadChunk, finishUpload and abortUpload", async () => {
+            const bucket = await newBucket();
+            const started = await client.call("startUpload", { bucket, destination: "chunked.txt", contentType: "text/plain" });
+            await client.call("appendUploadChunk", { uploadId: started.uploadId, sequence: 0, data: "chunk one, ", encoding: "utf-8" });
+            const duplicate = await client.call("appendUploadChunk", { uploadId: started.uploadId, sequence: 0, data: "chunk one, ", encoding: "utf-8" });
+            assert.equal(duplicate.duplicate, true);
+            assert.equal(duplicate.nextSequence, 1);
+            await client.call("appendUploadChunk", { uploadId: started.uploadId, sequence: 1, data: base64("chunk two") });
+            const finished = await client.call("finishUpload", { uploadId: started.uploadId });
+            assert.equal(finished.success, true);
+            assert.equal(finished.chunks, 2);
+            assert.equal(finished.bytes, 20);
+            assert.equal(await download(bucket, "chunked.txt"), "chunk one, chunk two");
+
+            const abandoned = await client.call("startUpload", { bucket, destination: "abandoned.txt" });
+            await client.call("appendUploadChunk", { uploadId: abandoned.uploadId, sequence: 0, data: "partial", encoding: "utf-8" });
+            const aborted = await client.call("abortUpload", { uploadId: abandoned.uploadId });
+            assert.equal(aborted.success, true);
+            assert.equal(aborted.bytesDiscarded, 7);
+            assert.equal((await client.fail("getFile", { bucket, file: "abandoned.txt" })).code, "NOT_FOUND");
+        });
+
+        test("uploadFromPath and downloadToPath stream local files", async () => {
+            const bucket = await newBucket();
+            const dir = uniqueName("local");
+            fs.mkdirSync(path.join(files, dir));
+            fs.writeFileSync(path.join(files, dir, "notes.txt"), "local notes\n");
+            const uploaded = await client.call("uploadFromPath", { bucket, localPath: `${dir}/notes.txt`, destination: "local/notes.txt" });
+            assert.equal(uploaded.bytes, 12);
+            assert.equal(uploaded.metadata.contentType, "text/plain");
+
+            // Unknown extensions are stored without a content type rather than the placeholder "auto"
+            fs.writeFileSync(path.join(files, dir, "blob.unknownext"), "bytes");
+            const blob = await client.call("uploadFromPath", { bucket, localPath: `${dir}/blob.unknownext` });
+            assert.equal(blob.metadata.contentType, undefined);
+
+            const downloaded = await client.call("downloadToPath", { bucket, file: "local/notes.txt", localPath: `${dir}/copy/notes.txt` });
+            assert.equal(downloaded.bytes, 12);
+            assert.equal(fs.readFileSync(path.join(files, dir, "copy", "notes.txt"), "utf8"), "local notes\n");
+
+            const exists = await client.fail("downloadToPath", { bucket, file: "local/notes.txt", localPath: `${dir}/copy/notes.txt` });
+            assert.equal(exists.code, "ALREADY_EXISTS");
+            const outside = await client.fail("uploadFromPath", { bucket, localPath: "/etc/hostname" });
+            assert.equal(outside.code, "POLICY_DENIED");
+        });
+
+        test("createArchive and extractArchive round-trip zip and tar.gz", async () => {
+            const bucket = await newBucket();
+            await upload(bucket, "docs/readme.txt", README);
+            await upload(bucket, "docs/guide/intro.md", "# Intro\n");
+
+            for (const format of ["zip", "tar.gz"] as const) {
+                const destination = `archives/docs.${format}`;
+                const created = await client.call("createArchive", { bucket, prefix: "docs/", destination, format });
+                assert.equal(created.format, format);
+                assert.equal(created.entries, 2);
+
+                const extracted = await client.call("extractArchive", { bucket, file: destination, targetPrefix: `unpacked-${format}/` });
+                assert.deepEqual(extracted.extracted.map(entry => entry.name).sort(), [`unpacked-${format}/guide/intro.md`, `unpacked-${format}/readme.txt`]);
+                assert.deepEqual(extracted.failed, []);
+                assert.equal(await download(bucket, `unpacked-${format}/guide/intro.md`), "# Intro\n");
+            }
+        });
+
+        test("generateSignedUrl is not available on a backend", async () => {
+            const bucket = await newBucket();
+            await upload(bucket, "signed.txt", "signed");
+            const error = await client.fail("generateSignedUrl", { bucket, file: "signed.txt" });
+            assert.equal(error.code, "NOT_CONFIGURED");
+        });
+
+        test("copyFile, moveFile and renameFile report new generations", async () => {
+            const bucket = await newBucket();
+            const target = await newBucket();
+            const otherTarget = await newBucket({}, OTHER_PROJECT);
+            await upload(bucket, "docs/readme.txt", README);
+            await upload(bucket, "docs/guide/intro.md", "# Intro\n");
+
+            const copied = await client.call("copyFile", { bucket, file: "docs/readme.txt", destinationBucket: target });
+            assert.equal(copied.succeeded, 1);
+            assert.equal(copied.results[0].method, "rewrite");
+            const copiedFile = await client.call("getFile", { bucket: target, file: "docs/readme.txt" });
+            assert.equal(String(copied.results[0].generation), String(copiedFile.generation));
+            assert.equal(await download(target, "docs/readme.txt"), README);
+
+            const crossProject = await client.call("copyFile", {
+                bucket,
+                prefix: "docs/",
+                destinationProject: OTHER_PROJECT,
+                destinationBucket: otherTarget,
+                destination: "copied/"
+            });
+            assert.equal(crossProject.succeeded, 2);
+            assert.deepEqual(crossProject.results.map(result => result.method), ["stream", "stream"]);
+            const otherFiles = await client.call("listFiles", { project: OTHER_PROJECT, bucket: otherTarget });
+            assert.deepEqual(names(otherFiles.files), ["copied/guide/intro.md", "copied/readme.txt"]);
+
+            const moved = await client.call("moveFile", { bucket: target, file: "docs/readme.txt", destination: "moved/readme.txt" });
+            assert.equal(moved.succeeded, 1);
+            const movedFile = await client.call("getFile", { bucket: target, file: "moved/readme.txt" });
+            assert.equal(String(moved.results[0].generation), String(movedFile.generation));
+            assert.equal((await client.fail("getFile", { bucket: target, file: "docs/readme.txt" })).code, "NOT_FOUND");
+
+            const renamed = await client.call("renameFile", { bucket: target, prefix: "moved/", newName: "renamed/" });
+            assert.equal(renamed.succeeded, 1);
+            assert.deepEqual(names((await client.call("listFiles", { bucket: target })).files), ["renamed/readme.txt"]);
+            assert.equal(await download(target, "renamed/readme.txt"), README);
+        });
+
+        test("bulk tools plan and confirm changes", async () => {
+            const bucket = await newBucket();
+            await upload(bucket, "bulk/a.log", "a");
+            await upload(bucket, "bulk/b.log", "bb");
+            await upload(bucket, "bulk/keep.txt", "c");
+
+            const metadataPlan = await client.call("bulkSetMetadata", { bucket, prefix: "bulk/", cacheControl: "no-store" });
+            assert.equal(metadataPlan.dryRun, true);
+            assert.equal(metadataPlan.objectCount, 3);
+            const metadataResult = await client.call("confirmBulkOperation", { planId: metadataPlan.planId });
+            assert.equal(metadataResult.succeeded, 3);
+            assert.equal((await client.call("getFile", { bucket, file: "bulk/keep.txt" })).cacheControl, "no-store");
+
+            const classPlan = await client.call("bulkSetStorageClass", { bucket, prefix: "bulk/", storageClass: "NEARLINE" });
+            await client.call("confirmBulkOperation", { planId: classPlan.planId });
+            assert.equal((await client.call("getFile", { bucket, file: "bulk/keep.txt" })).storageClass, "NEARLINE");
+
+            const deletePlan = await client.call("bulkDelete", { bucket, matchGlob: "bulk/*.log" });
+            assert.deepEqual(deletePlan.objects.map(object => object.name), ["bulk/a.log", "bulk/b.log"]);
+            assert.equal(deletePlan.totalBytes, 3);
+            const deleted = await client.call("confirmBulkOperation", { planId: deletePlan.planId });
+            assert.deepEqual(deleted.succeededObjects, ["bulk/a.log", "bulk/b.log"]);
+            assert.equal(deleted.bytesAffected, 3);
+            const remaining = await client.call("listFiles", { bucket, prefix: "bulk/" });
+            assert.deepEqual(names(remaining.files), ["bulk/keep.txt"]);
+
+            const reused = await client.fail("confirmBulkOperation", { planId: deletePlan.planId });
+            assert.equal(reused.code, "NOT_FOUND");
+        });
+
+        test("syncToBucket and syncFromBucket, with excludes and local conflicts", async () => {
+            const bucket = await newBucket();
+            const dir = uniqueName("sync");
+            const source = path.join(files, dir, "source");
+            const target = path.join(files, dir, "target");
+            fs.mkdirSync(path.join(source, "nested"), { recursive: true });
+            fs.writeFileSync(path.join(source, "a.txt"), "a");
+            fs.writeFileSync(path.join(source, "nested", "b.txt"), "b");
+            fs.writeFileSync(path.join(source, "top.tmp"), "temporary");
+            fs.writeFileSync(path.join(source, "nested", "deep.tmp"), "temporary");
+
+            // **/ also matches files at the top of the directory
+            const upPlan = await client.call("syncToBucket", { bucket, localDir: `${dir}/source`, prefix: "synced", exclude: ["**/*.tmp"] });
+            assert.deepEqual(upPlan.actions.map(action => action.object), ["synced/a.txt", "synced/nested/b.txt"]);
+            const uploaded = await client.call("confirmSync", { planId: upPlan.planId });
+            assert.equal(uploaded.uploaded, 2);
+            const synced = await client.call("listFiles", { bucket, prefix: "synced/" });
+            assert.deepEqual(names(synced.files), ["synced/a.txt", "synced/nested/b.txt"]);
+
+            const unchanged = await client.call("syncToBucket", { bucket, localDir: `${dir}/source`, prefix: "synced", exclude: ["**/*.tmp"] });
+            assert.equal(unchanged.unchanged, 2);
+            assert.equal(unchanged.uploads, 0);
+            assert.equal(unchanged.planId, null);
+
+            const downPlan = await client.call("syncFromBucket", { bucket, localDir: `${dir}/target`, prefix: "synced" });
+            assert.equal(downPlan.downloads, 2);
+            const downloaded = await client.call("confirmSync", { planId: downPlan.planId });
+            assert.equal(downloaded.downloaded, 2);
+            assert.equal(fs.readFileSync(path.join(target, "nested", "b.txt"), "utf8"), "b");
+
+            // A local edit made after planning is kept and reported as a conflict
+            await upload(bucket, "synced/a.txt", "changed remotely");
+            const conflictPlan = await client.call("syncFromBucket", { bucket, localDir: `${dir}/target`, prefix: "synced" });
+            assert.equal(conflictPlan.downloads, 1);
+            fs.writeFileSync(path.join(target, "a.txt"), "changed locally");
+            const conflict = await client.call("confirmSync", { planId: conflictPlan.planId });
+            assert.equal(conflict.failed, 1);
+            assert.equal(conflict.failures[0].path, "a.txt");
+            assert.match(conflict.failures[0].message, /changed after the plan was made/);
+            assert.equal(fs.readFileSync(path.join(target, "a.txt"), "utf8"), "changed locally");
+        });
+
+        test("storageReport aggregates the bucket", async () => {
+            const bucket = await newBucket();
+            await upload(bucket, "docs/readme.txt", README);
+            await upload(bucket, "docs/guide/intro.md", "# Intro\n");
+            await upload(bucket, "logs/app.log", "log");
+
+            const report = await client.call("storageReport", { bucket, depth: 1 });
+            assert.equal(report.complete, true);
+            assert.equal(report.totals.objects, 3);
+            assert.equal(report.totals.bytes, 45);
+            assert.deepEqual(report.byPrefix.map(group => [group.key, group.objects, group.bytes]), [["docs/", 2, 42], ["logs/", 1, 3]]);
+        });
+
+        test("deleteBucket deletes an empty bucket", async () => {
+            const empty = await newBucket();
+            const mismatch = await client.fail("deleteBucket", { bucket: empty, confirmBucketName: "other" });
+            assert.equal(mismatch.code, "INVALID_ARGUMENT");
+            const deleted = await client.call("deleteBucket", { bucket: empty, confirmBucketName: empty });
+            assert.equal(deleted.success, true);
+            assert.equal((await client.fail("getBucket", { bucket: empty })).code, "NOT_FOUND");
+
+            const full = await newBucket();
+            await upload(full, "keep.txt", "keep");
+            const notEmpty = await client.fail("deleteBucket", { bucket: full, confirmBucketName: full });
+            assert.equal(notEmpty.code, "CONFLICT");
+        });
+
+        test("addProject, reloadCredentials and removeProject change the projects at runtime", async () => {
+            const name = uniqueName("runtime-project");
+            const alias = uniqueName("runtime");
+            const added = await client.call("addProject", { name, aliases: [alias], backend: { type: "memory" } });
+            assert.equal(added.success, true);
+            assert.deepEqual(added.aliases, [alias]);
+            await client.call("createBucket", { project: alias, bucket: "runtime-bucket" });
+            assert.deepEqual((await client.call("listBuckets", { project: name })).buckets.map(bucket => bucket.name), ["runtime-bucket"]);
+
+            const duplicate = await client.fail("addProject", { name: alias });
+            assert.equal(duplicate.code, "ALREADY_EXISTS");
+
+            const reloaded = await client.call("reloadCredentials", { projects: [alias] });
+            assert.deepEqual(reloaded.projects.map(project => [project.project, project.reloaded]), [[name, false]]);
+
+            const removed = await client.call("removeProject", { name: alias });
+            assert.equal(removed.project, name);
+            assert.deepEqual(removed.aliases, [alias]);
+            assert.deepEqual((await client.call("listProjects")).projects, [PROJECT, OTHER_PROJECT]);
+            const defaultProject = await client.fail("removeProject", { name: PROJECT });
+            assert.equal(defaultProject.code, "CONFLICT");
+        });
+
+        test("addProject refuses credentials for a custom apiEndpoint", async () => {
+            for (const credentials of [{ type: "adc" }, { type: "keyFile", keyFile: path.join(files, "key.json") }]) {
+                const refused = await client.fail("addProject", { name: uniqueName("endpoint"), apiEndpoint: "http://127.0.0.1:9", credentials });
+                assert.equal(refused.code, "INVALID_ARGUMENT");
+            }
+            assert.deepEqual((await client.call("listProjects")).projects, [PROJECT, OTHER_PROJECT]);
+        });
+    });
+}